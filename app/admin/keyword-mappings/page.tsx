@@ -0,0 +1,406 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { ArrowLeft, FlaskConical, Loader2, Pencil, Plus, Trash2, X } from "lucide-react";
+
+interface Mapping {
+  id: string;
+  keywords: string[];
+  synonyms: string[];
+  tagId?: string;
+  category?: string;
+  updatedAt: number;
+}
+
+interface Tag {
+  id: string;
+  label: string;
+  slug: string;
+}
+
+interface Suggestion {
+  query: string;
+  count: number;
+  lastSeen: number;
+  suggestedTags: Array<{ id: string; label: string }>;
+}
+
+interface TestResult {
+  query: string;
+  mapping: Omit<Mapping, "id" | "updatedAt"> | null;
+  tag: Tag | null;
+  tagStatus: "none" | "ok" | "missing" | "dead";
+  tagMarketCount: number;
+  synonymHits: Array<{ synonym: string; count: number }>;
+}
+
+interface FormState {
+  id: string | null; // null 表示新建
+  keywords: string;
+  synonyms: string;
+  tagId: string;
+  category: string;
+}
+
+const EMPTY_FORM: FormState = { id: null, keywords: "", synonyms: "", tagId: "", category: "" };
+const TOKEN_STORAGE_KEY = "poly_trend_admin_token";
+
+const splitList = (value: string) => value.split(",").map((item) => item.trim()).filter(Boolean);
+
+const TAG_STATUS_LABELS: Record<TestResult["tagStatus"], string> = {
+  none: "No tag configured",
+  ok: "Tag has active markets",
+  missing: "Tag no longer exists",
+  dead: "Tag has no active markets",
+};
+
+export default function KeywordMappingsAdminPage() {
+  const [token, setToken] = useState("");
+  const [mappings, setMappings] = useState<Mapping[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<FormState>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [tagFilter, setTagFilter] = useState("");
+  const [testQuery, setTestQuery] = useState("");
+  const [testResult, setTestResult] = useState<TestResult | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+
+  const tagsById = useMemo(() => new Map(tags.map((tag) => [tag.id, tag])), [tags]);
+  const filteredTags = useMemo(() => {
+    const needle = tagFilter.trim().toLowerCase();
+    const matches = needle ? tags.filter((tag) => tag.label.toLowerCase().includes(needle)) : tags;
+    return matches.slice(0, 200);
+  }, [tags, tagFilter]);
+
+  // 令牌每次从 localStorage 读取，输入框修改后立即生效
+  const adminFetch = async (url: string, init: RequestInit = {}) => {
+    const savedToken = localStorage.getItem(TOKEN_STORAGE_KEY) || "";
+    const response = await fetch(url, {
+      ...init,
+      headers: { "Content-Type": "application/json", ...(savedToken ? { Authorization: `Bearer ${savedToken}` } : {}) },
+    });
+    const data = await response.json();
+    if (!response.ok || data.success === false) throw new Error(data.error || `Request failed (${response.status})`);
+    return data;
+  };
+
+  const loadAll = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [mappingData, suggestionData, tagData] = await Promise.all([
+        adminFetch("/api/admin/keyword-mappings"),
+        adminFetch("/api/admin/keyword-mappings/suggestions"),
+        fetch("/api/markets?tags=1").then((res) => res.json()),
+      ]);
+      setMappings(mappingData.mappings);
+      setSuggestions(suggestionData.suggestions);
+      setTags(tagData.tags || []);
+    } catch (err: any) {
+      setError(err.message || "Failed to load keyword mappings");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setToken(localStorage.getItem(TOKEN_STORAGE_KEY) || "");
+    loadAll();
+  }, []);
+
+  const formMapping = () => ({
+    keywords: splitList(form.keywords),
+    synonyms: splitList(form.synonyms),
+    tagId: form.tagId || undefined,
+    category: form.category.trim() || undefined,
+  });
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    try {
+      await adminFetch(form.id ? `/api/admin/keyword-mappings/${form.id}` : "/api/admin/keyword-mappings", {
+        method: form.id ? "PUT" : "POST",
+        body: JSON.stringify(formMapping()),
+      });
+      setForm(EMPTY_FORM);
+      await loadAll();
+    } catch (err: any) {
+      setError(err.message || "Failed to save mapping");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (mapping: Mapping) => {
+    if (!confirm(`Delete mapping "${mapping.keywords.join(", ")}"?`)) return;
+    try {
+      await adminFetch(`/api/admin/keyword-mappings/${mapping.id}`, { method: "DELETE" });
+      if (form.id === mapping.id) setForm(EMPTY_FORM);
+      await loadAll();
+    } catch (err: any) {
+      setError(err.message || "Failed to delete mapping");
+    }
+  };
+
+  const handleDismiss = async (suggestion: Suggestion) => {
+    try {
+      await adminFetch(`/api/admin/keyword-mappings/suggestions?query=${encodeURIComponent(suggestion.query)}`, { method: "DELETE" });
+      setSuggestions((prev) => prev.filter((s) => s.query !== suggestion.query));
+    } catch (err: any) {
+      setError(err.message || "Failed to dismiss suggestion");
+    }
+  };
+
+  // 编辑中的表单有关键词时测试草稿，否则测试当前生效的映射
+  const handleTest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!testQuery.trim()) return;
+    setIsTesting(true);
+    setError(null);
+    try {
+      const draft = formMapping();
+      const data = await adminFetch("/api/admin/keyword-mappings/test", {
+        method: "POST",
+        body: JSON.stringify({ query: testQuery, ...(draft.keywords.length > 0 ? { mapping: draft } : {}) }),
+      });
+      setTestResult(data.result);
+    } catch (err: any) {
+      setError(err.message || "Failed to test mapping");
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-700 rounded-lg text-xs focus:ring-2 focus:ring-blue-500/50 outline-none";
+
+  return (
+    <div className="min-h-screen bg-neutral-50 dark:bg-neutral-950 text-neutral-900 dark:text-neutral-100 p-6">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Link href="/" className="p-2 rounded-lg hover:bg-neutral-200 dark:hover:bg-neutral-800 transition-colors">
+              <ArrowLeft className="w-4 h-4" />
+            </Link>
+            <div>
+              <h1 className="text-lg font-bold">Keyword Mappings</h1>
+              <p className="text-[11px] text-neutral-500">Map user wording to Polymarket tags and synonyms. Changes apply to search within 30 seconds.</p>
+            </div>
+          </div>
+          <input
+            type="password"
+            value={token}
+            onChange={(e) => {
+              setToken(e.target.value);
+              localStorage.setItem(TOKEN_STORAGE_KEY, e.target.value);
+            }}
+            onBlur={loadAll}
+            placeholder="Admin token"
+            className={`${inputClass} max-w-[200px]`}
+          />
+        </div>
+
+        {error && (
+          <div className="p-3 bg-red-50 dark:bg-red-500/10 border border-red-100 dark:border-red-500/20 rounded-xl text-red-600 dark:text-red-400 text-xs font-bold">
+            {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* 映射列表 */}
+          <section className="lg:col-span-2 bg-white dark:bg-neutral-900 rounded-2xl border border-neutral-200 dark:border-white/10 overflow-hidden">
+            <div className="px-4 py-3 border-b border-neutral-100 dark:border-white/5 flex items-center justify-between">
+              <h2 className="text-sm font-bold">Mappings ({mappings.length})</h2>
+              <button
+                type="button"
+                onClick={() => setForm(EMPTY_FORM)}
+                className="flex items-center gap-1 px-2 py-1 text-[11px] font-bold text-blue-600 dark:text-blue-400 hover:bg-blue-500/10 rounded-lg"
+              >
+                <Plus className="w-3 h-3" /> New
+              </button>
+            </div>
+            {isLoading ? (
+              <div className="p-8 flex justify-center"><Loader2 className="w-4 h-4 animate-spin text-neutral-400" /></div>
+            ) : (
+              <table className="w-full text-[11px]">
+                <thead className="text-left text-neutral-500">
+                  <tr>
+                    <th className="px-4 py-2 font-semibold">Keywords</th>
+                    <th className="px-4 py-2 font-semibold">Synonyms</th>
+                    <th className="px-4 py-2 font-semibold">Tag</th>
+                    <th className="px-4 py-2 font-semibold">Category</th>
+                    <th className="px-4 py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {mappings.map((mapping) => {
+                    const tag = mapping.tagId ? tagsById.get(mapping.tagId) : undefined;
+                    return (
+                      <tr key={mapping.id} className={`border-t border-neutral-100 dark:border-white/5 ${form.id === mapping.id ? "bg-blue-500/5" : ""}`}>
+                        <td className="px-4 py-2 font-semibold">{mapping.keywords.join(", ")}</td>
+                        <td className="px-4 py-2 text-neutral-500">{mapping.synonyms.join(", ")}</td>
+                        <td className="px-4 py-2">
+                          {mapping.tagId ? (
+                            tag ? tag.label : <span className="text-amber-600">Unknown ({mapping.tagId})</span>
+                          ) : (
+                            <span className="text-neutral-400">—</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 text-neutral-500">{mapping.category || "—"}</td>
+                        <td className="px-4 py-2">
+                          <div className="flex justify-end gap-1">
+                            <button
+                              type="button"
+                              title="Edit"
+                              onClick={() => setForm({
+                                id: mapping.id,
+                                keywords: mapping.keywords.join(", "),
+                                synonyms: mapping.synonyms.join(", "),
+                                tagId: mapping.tagId || "",
+                                category: mapping.category || "",
+                              })}
+                              className="p-1 rounded hover:bg-neutral-100 dark:hover:bg-neutral-800"
+                            >
+                              <Pencil className="w-3 h-3" />
+                            </button>
+                            <button
+                              type="button"
+                              title="Delete"
+                              onClick={() => handleDelete(mapping)}
+                              className="p-1 rounded text-red-500 hover:bg-red-500/10"
+                            >
+                              <Trash2 className="w-3 h-3" />
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </section>
+
+          <div className="space-y-6">
+            {/* 新建 / 编辑 */}
+            <form onSubmit={handleSave} className="bg-white dark:bg-neutral-900 rounded-2xl border border-neutral-200 dark:border-white/10 p-4 space-y-3">
+              <h2 className="text-sm font-bold">{form.id ? "Edit mapping" : "New mapping"}</h2>
+              <label className="block space-y-1">
+                <span className="text-[10px] font-bold text-neutral-500">Keywords (comma separated)</span>
+                <input value={form.keywords} onChange={(e) => setForm({ ...form, keywords: e.target.value })} placeholder="黄金, gold" className={inputClass} />
+              </label>
+              <label className="block space-y-1">
+                <span className="text-[10px] font-bold text-neutral-500">Synonyms (comma separated)</span>
+                <input value={form.synonyms} onChange={(e) => setForm({ ...form, synonyms: e.target.value })} placeholder="precious metal, XAU" className={inputClass} />
+              </label>
+              <label className="block space-y-1">
+                <span className="text-[10px] font-bold text-neutral-500">Tag</span>
+                <input value={tagFilter} onChange={(e) => setTagFilter(e.target.value)} placeholder={`Filter ${tags.length} live tags...`} className={inputClass} />
+                <select value={form.tagId} onChange={(e) => setForm({ ...form, tagId: e.target.value })} className={inputClass}>
+                  <option value="">No tag</option>
+                  {form.tagId && !filteredTags.some((tag) => tag.id === form.tagId) && (
+                    <option value={form.tagId}>{tagsById.get(form.tagId)?.label ?? `Unknown (${form.tagId})`}</option>
+                  )}
+                  {filteredTags.map((tag) => (
+                    <option key={tag.id} value={tag.id}>{tag.label}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="block space-y-1">
+                <span className="text-[10px] font-bold text-neutral-500">Category</span>
+                <input value={form.category} onChange={(e) => setForm({ ...form, category: e.target.value })} placeholder="commodities" className={inputClass} />
+              </label>
+              <div className="flex gap-2">
+                <button type="submit" disabled={isSaving} className="flex-1 px-3 py-2 bg-blue-600 text-white text-xs font-bold rounded-lg hover:bg-blue-700 disabled:opacity-50">
+                  {isSaving ? "Saving..." : form.id ? "Save changes" : "Create mapping"}
+                </button>
+                {form.id && (
+                  <button type="button" onClick={() => setForm(EMPTY_FORM)} className="px-3 py-2 text-xs font-bold rounded-lg hover:bg-neutral-100 dark:hover:bg-neutral-800">
+                    Cancel
+                  </button>
+                )}
+              </div>
+            </form>
+
+            {/* 测试 */}
+            <form onSubmit={handleTest} className="bg-white dark:bg-neutral-900 rounded-2xl border border-neutral-200 dark:border-white/10 p-4 space-y-3">
+              <h2 className="text-sm font-bold flex items-center gap-1.5"><FlaskConical className="w-3.5 h-3.5" /> Test a query</h2>
+              <p className="text-[10px] text-neutral-500">Tests the form above when it has keywords, otherwise the live mappings.</p>
+              <div className="flex gap-2">
+                <input value={testQuery} onChange={(e) => setTestQuery(e.target.value)} placeholder="金价会涨吗" className={inputClass} />
+                <button type="submit" disabled={isTesting} className="px-3 py-2 bg-neutral-900 dark:bg-white text-white dark:text-neutral-900 text-xs font-bold rounded-lg disabled:opacity-50">
+                  {isTesting ? <Loader2 className="w-3 h-3 animate-spin" /> : "Test"}
+                </button>
+              </div>
+              {testResult && (
+                <div className="text-[11px] space-y-1">
+                  {testResult.mapping ? (
+                    <>
+                      <p>Matched: <span className="font-bold">{testResult.mapping.keywords.join(", ")}</span></p>
+                      <p className={testResult.tagStatus === "ok" ? "text-green-600" : testResult.tagStatus === "none" ? "text-neutral-500" : "text-amber-600"}>
+                        {TAG_STATUS_LABELS[testResult.tagStatus]}
+                        {testResult.tag && ` · ${testResult.tag.label} (${testResult.tagMarketCount} markets)`}
+                      </p>
+                      {testResult.synonymHits.map((hit) => (
+                        <p key={hit.synonym} className="text-neutral-500">{hit.synonym}: {hit.count} local matches</p>
+                      ))}
+                    </>
+                  ) : (
+                    <p className="text-neutral-500">No mapping matches this query.</p>
+                  )}
+                </div>
+              )}
+            </form>
+          </div>
+        </div>
+
+        {/* 失败查询挖掘的候选 */}
+        <section className="bg-white dark:bg-neutral-900 rounded-2xl border border-neutral-200 dark:border-white/10 p-4 space-y-3">
+          <div>
+            <h2 className="text-sm font-bold">Suggestions from failing queries</h2>
+            <p className="text-[10px] text-neutral-500">Queries that repeatedly returned no direct matches and are not covered by any mapping.</p>
+          </div>
+          {suggestions.length === 0 ? (
+            <p className="text-[11px] text-neutral-400">No suggestions yet.</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {suggestions.map((suggestion) => (
+                <div key={suggestion.query} className="p-3 rounded-xl border border-neutral-100 dark:border-white/5 flex items-start justify-between gap-2">
+                  <div className="min-w-0 space-y-1">
+                    <p className="text-xs font-bold truncate">{suggestion.query}</p>
+                    <p className="text-[10px] text-neutral-500">
+                      {suggestion.count} misses · last {new Date(suggestion.lastSeen).toLocaleString()}
+                    </p>
+                    {suggestion.suggestedTags.length > 0 && (
+                      <p className="text-[10px] text-neutral-500">Tags: {suggestion.suggestedTags.map((t) => t.label).join(", ")}</p>
+                    )}
+                  </div>
+                  <div className="flex gap-1 shrink-0">
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setForm({ ...EMPTY_FORM, keywords: suggestion.query, tagId: suggestion.suggestedTags[0]?.id || "" });
+                        setTestQuery(suggestion.query);
+                      }}
+                      className="px-2 py-1 text-[10px] font-bold text-blue-600 dark:text-blue-400 hover:bg-blue-500/10 rounded-lg"
+                    >
+                      Create
+                    </button>
+                    <button type="button" title="Dismiss" onClick={() => handleDismiss(suggestion)} className="p-1 rounded text-neutral-400 hover:bg-neutral-100 dark:hover:bg-neutral-800">
+                      <X className="w-3 h-3" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { checkAdminRequest } from "@/lib/admin-auth";
+import {
+  deleteKeywordMapping,
+  updateKeywordMapping,
+  validateKeywordMapping,
+} from "@/lib/keyword-mappings";
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: { id: string } };
+
+/**
+ * 更新映射（整体替换关键词、同义词、标签与分类）
+ */
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const denied = checkAdminRequest(request);
+  if (denied) return denied;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const { mapping, errors } = await validateKeywordMapping(body, params.id);
+    if (!mapping) {
+      return NextResponse.json({ success: false, error: errors.join("; "), errors }, { status: 400 });
+    }
+    const updated = await updateKeywordMapping(params.id, mapping);
+    if (!updated) {
+      return NextResponse.json({ success: false, error: `Mapping ${params.id} not found` }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, mapping: updated });
+  } catch (error) {
+    console.error("[api/admin/keyword-mappings] PUT error:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Failed to update keyword mapping" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const denied = checkAdminRequest(request);
+  if (denied) return denied;
+
+  try {
+    const deleted = await deleteKeywordMapping(params.id);
+    if (!deleted) {
+      return NextResponse.json({ success: false, error: `Mapping ${params.id} not found` }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, id: params.id });
+  } catch (error) {
+    console.error("[api/admin/keyword-mappings] DELETE error:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Failed to delete keyword mapping" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { checkAdminRequest } from "@/lib/admin-auth";
+import {
+  createKeywordMapping,
+  getKeywordMappings,
+  validateKeywordMapping,
+} from "@/lib/keyword-mappings";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * 当前生效的关键词映射
+ */
+export async function GET(request: NextRequest) {
+  const denied = checkAdminRequest(request);
+  if (denied) return denied;
+
+  try {
+    const mappings = await getKeywordMappings();
+    return NextResponse.json({ success: true, mappings, total: mappings.length });
+  } catch (error) {
+    console.error("[api/admin/keyword-mappings] GET error:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Failed to load keyword mappings" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 新建映射：{ keywords, synonyms?, tagId?, category? }
+ */
+export async function POST(request: NextRequest) {
+  const denied = checkAdminRequest(request);
+  if (denied) return denied;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const { mapping, errors } = await validateKeywordMapping(body);
+    if (!mapping) {
+      return NextResponse.json({ success: false, error: errors.join("; "), errors }, { status: 400 });
+    }
+    const created = await createKeywordMapping(mapping);
+    return NextResponse.json({ success: true, mapping: created });
+  } catch (error) {
+    console.error("[api/admin/keyword-mappings] POST error:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Failed to create keyword mapping" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { checkAdminRequest } from "@/lib/admin-auth";
+import { dismissSearchMiss, getMappingSuggestions } from "@/lib/keyword-mappings";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * 从频繁失败的查询中挖掘的映射候选
+ * ?limit=20&minCount=2
+ */
+export async function GET(request: NextRequest) {
+  const denied = checkAdminRequest(request);
+  if (denied) return denied;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get("limit") ?? "20", 10) || 20));
+    const minCount = Math.max(1, parseInt(searchParams.get("minCount") ?? "2", 10) || 2);
+    const suggestions = await getMappingSuggestions({ limit, minCount });
+    return NextResponse.json({ success: true, suggestions, total: suggestions.length });
+  } catch (error) {
+    console.error("[api/admin/keyword-mappings/suggestions] GET error:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Failed to load suggestions" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 忽略某个候选（删除其失败记录）：?query=...
+ */
+export async function DELETE(request: NextRequest) {
+  const denied = checkAdminRequest(request);
+  if (denied) return denied;
+
+  try {
+    const query = new URL(request.url).searchParams.get("query");
+    if (!query) {
+      return NextResponse.json({ success: false, error: "Query is required" }, { status: 400 });
+    }
+    await dismissSearchMiss(query);
+    return NextResponse.json({ success: true, query });
+  } catch (error) {
+    console.error("[api/admin/keyword-mappings/suggestions] DELETE error:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Failed to dismiss suggestion" },
+      { status: 500 }
+    );
+  }
+}
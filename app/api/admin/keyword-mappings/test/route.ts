@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { checkAdminRequest } from "@/lib/admin-auth";
+import { testKeywordMapping } from "@/lib/keyword-mappings";
+import type { KeywordMapping } from "@/lib/search-config";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * 测试查询命中的映射及其标签是否仍有活跃市场
+ * body: { query, mapping? }，传入 mapping 时测试尚未保存的草稿
+ */
+export async function POST(request: NextRequest) {
+  const denied = checkAdminRequest(request);
+  if (denied) return denied;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const query = typeof body?.query === "string" ? body.query.trim() : "";
+    if (!query) {
+      return NextResponse.json({ success: false, error: "Query is required" }, { status: 400 });
+    }
+
+    let draft: KeywordMapping | undefined;
+    if (body.mapping && typeof body.mapping === "object") {
+      const toList = (value: unknown) =>
+        Array.isArray(value) ? value.filter((v): v is string => typeof v === "string" && !!v.trim()) : [];
+      draft = {
+        keywords: toList(body.mapping.keywords),
+        synonyms: toList(body.mapping.synonyms),
+        tagId: typeof body.mapping.tagId === "string" && body.mapping.tagId ? body.mapping.tagId : undefined,
+        category: typeof body.mapping.category === "string" && body.mapping.category ? body.mapping.category : undefined,
+      };
+    }
+
+    const result = await testKeywordMapping(query, draft);
+    return NextResponse.json({ success: true, result });
+  } catch (error) {
+    console.error("[api/admin/keyword-mappings/test] POST error:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Failed to test keyword mapping" },
+      { status: 500 }
+    );
+  }
+}
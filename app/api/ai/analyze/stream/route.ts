@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { aiContextFromRequest, getLLMProvider, MODEL_PROVIDERS } from "@/lib/llm-provider";
+import {
+  ANALYSIS_CHAT_OPTIONS,
+  buildAnalysisPrompt,
+  calculateAnalysisStatistics,
+  logAnalysisPayload,
+} from "@/lib/ai-analysis";
+import { createSSEResponse } from "@/lib/sse";
+
+export const maxDuration = 60; // Vercel Hobby 计划上限为 60 秒
+export const dynamic = 'force-dynamic';
+
+/**
+ * 流式 AI 分析
+ * 事件：meta（统计信息）→ delta（文本增量）→ done；失败时发送 error
+ */
+export async function POST(request: NextRequest) {
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const { model, query, markets = [] } = body;
+  if (!MODEL_PROVIDERS[model]) {
+    return NextResponse.json({ success: false, error: `Unsupported model: ${model}` }, { status: 400 });
+  }
+
+  const statistics = body.statistics || calculateAnalysisStatistics(markets);
+  logAnalysisPayload(query, model, markets, statistics);
+
+  return createSSEResponse(async (send, signal) => {
+    console.log(`🤖 Streaming AI analysis with model ${model}...`);
+    const ctx = aiContextFromRequest({ ...body, aiModel: model, provider: MODEL_PROVIDERS[model] });
+    const provider = getLLMProvider(ctx);
+
+    send('meta', { model, provider: provider.name, marketCount: markets.length, statistics });
+
+    let length = 0;
+    for await (const text of provider.chatStream(buildAnalysisPrompt(query, markets, statistics), {
+      ...ANALYSIS_CHAT_OPTIONS,
+      timeoutMs: 30000,
+      signal,
+    })) {
+      length += text.length;
+      send('delta', { text });
+    }
+
+    console.log(`✅ Streaming analysis complete (${length} chars)`);
+    send('done', { model, timestamp: new Date().toISOString() });
+  }, { signal: request.signal });
+}
@@ -2,10 +2,29 @@ import { NextRequest, NextResponse } from "next/server";
 import {
   getPolyMacroData,
   getMarketsByTag,
-  gammaMarketsToMarketData,
+  toMarketData,
 } from "@/lib/polymarket";
 import { getCachedTags } from "@/lib/tag-cache";
-import { runHybridSearch } from "@/lib/hybrid-search";
+import {
+  browseMarkets,
+  parseFusionWeights,
+  resolveFilterScope,
+  runHybridSearch,
+  type FusionSource,
+} from "@/lib/hybrid-search";
+import {
+  matchesProbability,
+  mergeFilters,
+  parseFilterObject,
+  parseSearchQuery,
+  sortMarketData,
+  toQueryInterpretation,
+  type SearchFilters,
+  type SearchSort,
+} from "@/lib/query-filters";
+import { aiContextFromRequest } from "@/lib/llm-provider";
+import { detectQueryLanguage, translateQueryOffline } from "@/lib/query-language";
+import { getKeywordMappings } from "@/lib/keyword-mappings";
 
 export const dynamic = "force-dynamic";
 
@@ -17,6 +36,17 @@ type Params = {
   geminiKey?: string;
   full?: boolean;
   geminiBaseUrl?: string;
+  provider?: string;
+  apiKey?: string;
+  baseUrl?: string;
+  modelName?: string;
+  fusionWeights?: Partial<Record<FusionSource, number>>;
+  // 结构化过滤（也可直接写在 query 中，如 "bitcoin volume:>1m sort:volume"）
+  filters?: SearchFilters;
+  sort?: SearchSort;
+  interpret?: boolean;
+  // 非英文查询时把结果标题与推荐理由译回查询语言
+  translateResults?: boolean;
 };
 
 function parseGetParams(request: NextRequest): Params {
@@ -49,6 +79,14 @@ async function parsePostParams(request: NextRequest): Promise<Params> {
       full: body.full === true || body.full === 1,
       geminiBaseUrl:
         typeof body.geminiBaseUrl === "string" ? body.geminiBaseUrl : undefined,
+      provider: typeof body.provider === "string" ? body.provider : undefined,
+      apiKey: typeof body.apiKey === "string" ? body.apiKey : undefined,
+      baseUrl: typeof body.baseUrl === "string" ? body.baseUrl : undefined,
+      modelName: typeof body.modelName === "string" ? body.modelName : undefined,
+      fusionWeights: parseFusionWeights(body.fusionWeights),
+      ...parseFilterObject(body.filters),
+      interpret: body.interpret !== false,
+      translateResults: body.translateResults === true,
     };
   } catch {
     return {};
@@ -56,15 +94,19 @@ async function parsePostParams(request: NextRequest): Promise<Params> {
 }
 
 async function handleMarkets(params: Params) {
-  const { query, tagId, tags, limit = 50, geminiKey, full, geminiBaseUrl } =
-    params;
+  const { query, tagId, tags, limit = 50, full, fusionWeights, filters, sort, interpret, translateResults } = params;
 
-  // Consortium mode: hard match + semantic consortium (requires geminiKey)
-  if (full && query && geminiKey) {
+  // Consortium mode: hard match + semantic consortium (falls back to local embeddings without AI credentials)
+  const ctx = aiContextFromRequest(params);
+  if (full && query) {
     try {
-      if (geminiKey) process.env.GEMINI_API_KEY = geminiKey;
-      if (geminiBaseUrl) process.env.GEMINI_BASE_URL = geminiBaseUrl;
-      const result = await runHybridSearch(query);
+      const result = await runHybridSearch(ctx, query, {
+        fusionWeights,
+        filters,
+        sort,
+        interpret,
+        translateResults,
+      });
       return NextResponse.json({
         success: true,
         source: "hybrid",
@@ -72,6 +114,7 @@ async function handleMarkets(params: Params) {
         consortium: result.consortium,
         allRelevantMarkets: result.allRelevantMarkets,
         directSearchTags: result.directSearchTags,
+        interpretation: result.interpretation,
         message: `Found ${result.hardMatch.length} hard match and consortium results`,
       });
     } catch (error) {
@@ -82,7 +125,7 @@ async function handleMarkets(params: Params) {
           error:
             error instanceof Error
               ? error.message
-              : "Hybrid search failed (check Gemini API key)",
+              : "Hybrid search failed (check AI provider credentials)",
         },
         { status: 500 }
       );
@@ -102,7 +145,7 @@ async function handleMarkets(params: Params) {
 
   if (tagId) {
     const gammaMarkets = await getMarketsByTag(tagId, limit);
-    const markets = await gammaMarketsToMarketData(gammaMarkets);
+    const markets = await toMarketData(gammaMarkets);
     return NextResponse.json({
       success: true,
       source: "tag",
@@ -114,7 +157,25 @@ async function handleMarkets(params: Params) {
   }
 
   if (query) {
-    const markets = await getPolyMacroData(query);
+    const structured = parseSearchQuery(query);
+    const appliedFilters = mergeFilters(structured.filters, filters ?? {});
+    const appliedSort = sort ?? structured.sort;
+    const scope = await resolveFilterScope(appliedFilters);
+    // 该模式不调用 LLM：非英文查询只用关键词映射转换成英文
+    const language = detectQueryLanguage(structured.text);
+    const searchText =
+      language === "en"
+        ? structured.text
+        : translateQueryOffline(structured.text, await getKeywordMappings()) ?? structured.text;
+    // 只有过滤条件时浏览缓存中的市场，否则走 Polymarket 搜索
+    const markets = searchText
+      ? await getPolyMacroData(searchText, { filters: appliedFilters, sort: appliedSort, scope })
+      : sortMarketData(
+          (await toMarketData(await browseMarkets(appliedFilters, scope, limit))).filter((m) =>
+            matchesProbability(m, appliedFilters)
+          ),
+          appliedSort
+        );
     const limited = markets.slice(0, limit);
     return NextResponse.json({
       success: true,
@@ -122,6 +183,15 @@ async function handleMarkets(params: Params) {
       markets: limited,
       total: limited.length,
       query,
+      interpretation: toQueryInterpretation(
+        query,
+        { text: structured.text, filters: appliedFilters, sort: appliedSort },
+        {
+          source: "syntax",
+          language,
+          translatedQuery: searchText !== structured.text ? searchText : undefined,
+        }
+      ),
       message: `Found ${limited.length} markets for query "${query}"`,
     });
   }
@@ -20,7 +20,8 @@ export async function POST(request: NextRequest) {
         probability: m.probability,
         outcome: m.outcome,
         volume: m.volume,
-        outcomes: m.outcomes
+        outcomes: m.outcomes,
+        outcomePrices: m.outcomePrices
       }))
     }, null, 2));
 
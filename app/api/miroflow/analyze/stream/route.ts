@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSSEResponse, parseSSE } from "@/lib/sse";
+
+/**
+ * MiroFlow 流式分析路由
+ * 若 MiroFlow API Server 以 SSE 返回，逐条转发其中间进度；否则定期发送等待进度，完成后发送 result
+ * 事件：progress → result；失败时发送 error
+ */
+export async function POST(request: NextRequest) {
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const { query, markets, timestamp, totalResults } = body;
+  if (!query || typeof query !== "string") {
+    return NextResponse.json({ error: "Query is required" }, { status: 400 });
+  }
+
+  const miroflowUrl = process.env.MIROFLOW_API_URL || "http://localhost:8000/analyze";
+
+  return createSSEResponse(async (send, signal) => {
+    console.log(`Streaming MiroFlow analysis for query: ${query}`);
+    console.log(`Sending ${markets?.length || 0} markets to MiroFlow`);
+
+    const startedAt = Date.now();
+    const elapsed = () => Math.round((Date.now() - startedAt) / 1000);
+
+    // 10 分钟总超时，客户端断开时同步取消上游请求
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 600000);
+    const abortUpstream = () => controller.abort();
+    signal.addEventListener("abort", abortUpstream);
+
+    // 上游不支持流式时，定期告知客户端仍在分析中
+    const waitingTimer = setInterval(() => {
+      send("progress", { stage: "waiting", message: "MiroFlow is still analyzing...", elapsed: elapsed() });
+    }, 10000);
+
+    try {
+      send("progress", { stage: "submitted", message: "Task submitted to MiroFlow", elapsed: 0 });
+
+      const miroflowResponse = await fetch(miroflowUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "text/event-stream, application/json",
+        },
+        body: JSON.stringify({
+          query,
+          timestamp: timestamp || new Date().toISOString(),
+          totalResults: totalResults || markets?.length || 0,
+          markets: markets || [],
+          stream: true,
+        }),
+        signal: controller.signal,
+      });
+
+      if (!miroflowResponse.ok) {
+        const errorText = await miroflowResponse.text();
+        console.error(`MiroFlow API error: ${miroflowResponse.status} - ${errorText}`);
+        throw new Error(`MiroFlow API error: ${miroflowResponse.status}`);
+      }
+
+      const contentType = miroflowResponse.headers.get("content-type") || "";
+      if (contentType.includes("text/event-stream") && miroflowResponse.body) {
+        clearInterval(waitingTimer);
+        for await (const { event, data } of parseSSE(miroflowResponse.body)) {
+          let payload: any = data;
+          try {
+            payload = JSON.parse(data);
+          } catch {
+            // 纯文本进度
+          }
+
+          if (event === "result" || event === "done") {
+            console.log(`MiroFlow analysis completed. Task ID: ${payload?.task_id}`);
+            send("result", { data: payload });
+            return;
+          }
+          if (event === "error") {
+            throw new Error(typeof payload === "string" ? payload : payload?.error || "MiroFlow stream error");
+          }
+          send("progress", {
+            stage: event === "message" ? "progress" : event,
+            message: typeof payload === "string" ? payload : payload?.message,
+            detail: typeof payload === "string" ? undefined : payload,
+            elapsed: elapsed(),
+          });
+        }
+        throw new Error("MiroFlow stream ended without a result");
+      }
+
+      const result = await miroflowResponse.json();
+      console.log(`MiroFlow analysis completed. Task ID: ${result.task_id}`);
+      send("result", { data: result });
+    } catch (error) {
+      if (error instanceof Error && error.name === "AbortError" && !signal.aborted) {
+        throw new Error("分析超时（超过10分钟）");
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+      clearInterval(waitingTimer);
+      signal.removeEventListener("abort", abortUpstream);
+    }
+  }, { signal: request.signal });
+}
+
+// 配置路由段选项以增加超时时间
+export const maxDuration = 60; // Vercel Hobby 计划上限为 60 秒
+export const dynamic = 'force-dynamic';
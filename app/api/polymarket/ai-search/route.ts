@@ -1,33 +1,29 @@
 import { NextRequest, NextResponse } from "next/server";
-import { runHybridSearch } from "@/lib/hybrid-search";
+import { formatHybridSearchResponse, parseFusionWeights, runHybridSearch } from "@/lib/hybrid-search";
+import { aiContextFromRequest } from "@/lib/llm-provider";
+import { parseFilterObject } from "@/lib/query-filters";
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { query, geminiKey, geminiBaseUrl } = body;
+    const { query } = body;
 
     if (!query || typeof query !== "string" || query.trim() === "") {
       return NextResponse.json({ error: "Query is required" }, { status: 400 });
     }
 
-    if (geminiKey) process.env.GEMINI_API_KEY = geminiKey;
-    if (geminiBaseUrl) process.env.GEMINI_BASE_URL = geminiBaseUrl;
-
-    const result = await runHybridSearch(query.trim());
-
-    return NextResponse.json({
-      markets: result.hardMatch,
-      allRelevantMarkets: result.allRelevantMarkets,
-      source: "hybrid",
-      message: `Found ${result.hardMatch.length} direct results and multi-dimensional selections`,
-      suggestedQueries: result.consortium.tagsUsed.map((t) => t.label).slice(0, 3),
-      tagsUsed: result.consortium.tagsUsed,
-      tagMarketsCache: result.consortium.tagMarkets,
-      semanticGroups: result.consortium.semanticGroups,
-      directSearchTags: result.directSearchTags,
-      hardMatch: result.hardMatch,
-      consortium: result.consortium,
+    const ctx = aiContextFromRequest(body);
+    // 过滤条件可写在 query 中（如 "bitcoin volume:>1m"），也可通过 filters 对象传入
+    const { filters, sort } = parseFilterObject(body.filters);
+    const result = await runHybridSearch(ctx, query.trim(), {
+      fusionWeights: parseFusionWeights(body.fusionWeights),
+      filters,
+      sort,
+      interpret: body.interpret !== false,
+      translateResults: body.translateResults === true,
     });
+
+    return NextResponse.json(formatHybridSearchResponse(result));
   } catch (error) {
     console.error("AI search API error:", error);
     return NextResponse.json(
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { formatHybridSearchResponse, parseFusionWeights, runHybridSearch } from "@/lib/hybrid-search";
+import { aiContextFromRequest } from "@/lib/llm-provider";
+import { createSSEResponse } from "@/lib/sse";
+import { parseFilterObject } from "@/lib/query-filters";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * 流式混合搜索
+ * 事件：interpretation（查询解读）→ hardMatch → tag（每个有效标签）/ semantic（每个语义维度）/ vector（向量检索）→ done（与非流式接口相同的完整结果）
+ */
+export async function POST(request: NextRequest) {
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const { query } = body;
+  if (!query || typeof query !== "string" || query.trim() === "") {
+    return NextResponse.json({ error: "Query is required" }, { status: 400 });
+  }
+
+  return createSSEResponse(async (send, signal) => {
+    const ctx = aiContextFromRequest(body);
+    const { filters, sort } = parseFilterObject(body.filters);
+    const result = await runHybridSearch(ctx, query.trim(), {
+      signal,
+      fusionWeights: parseFusionWeights(body.fusionWeights),
+      filters,
+      sort,
+      interpret: body.interpret !== false,
+      translateResults: body.translateResults === true,
+      onProgress: ({ stage, ...data }) => send(stage, data),
+    });
+    send("done", formatHybridSearchResponse(result));
+  }, { signal: request.signal });
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { getHttpMetrics } from "@/lib/http-client";
+import { getValidationReport } from "@/lib/polymarket-schema";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * 上游 Gamma / CLOB 请求指标（按 host 汇总）与响应校验问题
+ */
+export async function GET() {
+  return NextResponse.json({
+    success: true,
+    metrics: getHttpMetrics(),
+    validation: getValidationReport(),
+    timestamp: new Date().toISOString(),
+  });
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPriceHistories, PRICE_HISTORY_INTERVALS } from "@/lib/polymarket";
+import { rollingCorrelation, type CorrelationMethod } from "@/lib/market-analytics";
+import type { PriceHistoryInterval } from "@/types/polymarket";
+
+export const dynamic = 'force-dynamic';
+
+const CORRELATION_METHODS: CorrelationMethod[] = ["log-odds-change", "price-change"];
+
+/**
+ * 任意两个市场的滚动相关性与变点（关系出现 / 消失 / 反转）
+ * 参数：tokenA、tokenB（CLOB token ID），interval（默认 max），fidelity（分钟），
+ * method（log-odds-change / price-change），window（滚动窗口期数）
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const tokenA = searchParams.get("tokenA");
+    const tokenB = searchParams.get("tokenB");
+    if (!tokenA || !tokenB) {
+      return NextResponse.json({ success: false, error: "tokenA and tokenB are required" }, { status: 400 });
+    }
+
+    const interval = (searchParams.get("interval") || "max") as PriceHistoryInterval;
+    if (!PRICE_HISTORY_INTERVALS.includes(interval)) {
+      return NextResponse.json(
+        { success: false, error: `interval must be one of ${PRICE_HISTORY_INTERVALS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    const method = (searchParams.get("method") || "log-odds-change") as CorrelationMethod;
+    if (!CORRELATION_METHODS.includes(method)) {
+      return NextResponse.json(
+        { success: false, error: `method must be one of ${CORRELATION_METHODS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const fidelityParam = searchParams.get("fidelity");
+    const windowParam = searchParams.get("window");
+    const fidelity = fidelityParam ? Number(fidelityParam) : undefined;
+    const window = windowParam ? Number(windowParam) : undefined;
+    if ((fidelity !== undefined && !(Number.isInteger(fidelity) && fidelity > 0)) ||
+        (window !== undefined && !(Number.isInteger(window) && window > 0))) {
+      return NextResponse.json(
+        { success: false, error: "fidelity and window must be positive integers" },
+        { status: 400 }
+      );
+    }
+
+    // 完整历史（不降采样，与洞察分析共用缓存）：降采样后的不规则间隔会让滚动窗口与变点检验失真
+    const histories = await getPriceHistories([tokenA, tokenB], { interval, fidelity, maxPoints: 0 });
+    const historyA = histories.get(tokenA) || [];
+    const historyB = histories.get(tokenB) || [];
+    const rolling = rollingCorrelation(historyA, historyB, { method, window });
+    if (rolling) {
+      console.log(`📈 Rolling correlation: ${rolling.points.length} windows, ${rolling.changePoints.length} change points`);
+    }
+
+    return NextResponse.json({
+      success: true,
+      interval,
+      method,
+      // 重叠数据不足时为 null
+      rolling,
+    });
+  } catch (error) {
+    console.error("Rolling correlation API error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to compute rolling correlation",
+      },
+      { status: 500 }
+    );
+  }
+}
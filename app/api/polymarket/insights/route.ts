@@ -1,17 +1,40 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getSparklineData } from "@/lib/polymarket";
-import { buildMarketInsights } from "@/lib/market-analytics";
-import type { MarketData } from "@/types/polymarket";
+import { downsampleHistory, getPriceHistories, PRICE_HISTORY_INTERVALS } from "@/lib/polymarket";
+import { buildMarketInsights, deduplicateMarkets, type CorrelationMethod } from "@/lib/market-analytics";
+import { buildCorrelationMatrix, findMarketPairs } from "@/lib/correlation-matrix";
+import { clusterMarkets } from "@/lib/market-clustering";
+import { getMarketVectorIndex } from "@/lib/vector-cache";
+import { inferCausalRelations, labelMarketClusters, type CausalRelation } from "@/lib/gemini";
+import { aiContextFromRequest, hasAICredentials, supportsEmbeddings } from "@/lib/llm-provider";
+import type { MarketData, PriceHistoryInterval, SparklineDataPoint } from "@/types/polymarket";
 
 export const maxDuration = 60; // 增加超时时间以处理 AI 推理
 
+const CORRELATION_METHODS: CorrelationMethod[] = ["log-odds-change", "price-change"];
+// 交给 AI 解释因果的市场对上限（按相关性强度取前 N 个）
+const MAX_CAUSAL_PAIRS = 8;
+// 相关矩阵覆盖的市场上限
+const MAX_MATRIX_MARKETS = 300;
+// 同事件市场对总是列入详细市场对的范围（结果中的前 N 个市场）
+const INTRA_EVENT_PAIR_MARKETS = 20;
+// 交给 AI 命名的簇数与每簇展示的标题数
+const MAX_LABELED_CLUSTERS = 12;
+const TITLES_PER_CLUSTER = 6;
+
 export async function POST(request: NextRequest) {
   try {
-    const { query, markets: preFilteredMarkets } = await request.json();
+    const body = await request.json();
+    const { query, markets: preFilteredMarkets, interval = "max", fidelity, method = "log-odds-change" } = body;
 
     if (!query) {
       return NextResponse.json({ error: "Query is required" }, { status: 400 });
     }
+    if (!PRICE_HISTORY_INTERVALS.includes(interval)) {
+      return NextResponse.json({ error: `interval must be one of ${PRICE_HISTORY_INTERVALS.join(", ")}` }, { status: 400 });
+    }
+    if (!CORRELATION_METHODS.includes(method)) {
+      return NextResponse.json({ error: `method must be one of ${CORRELATION_METHODS.join(", ")}` }, { status: 400 });
+    }
 
     console.log(`\n🕸️  ========== 开始深度洞察分析: "${query}" ==========`);
 
@@ -26,75 +49,132 @@ export async function POST(request: NextRequest) {
       
       // Fallback: 获取所有相关市场 (调用内部搜索逻辑)
       // 动态导入以避免循环依赖
-      const { searchMarkets } = await import("@/lib/polymarket");
+      const { searchMarkets, toMarketData } = await import("@/lib/polymarket");
       
-      // 获取基础搜索结果
+      // 获取基础搜索结果并转换为 MarketData (带 clobTokenId)
       const rawMarkets = await searchMarkets(query);
-      
-      // 转换为基础 MarketData (带 clobTokenId)
-      const { getBatchPrices, parseTokenIds, formatVolume } = await import("@/lib/polymarket");
-      
-      const allTokenIds: string[] = [];
-      const liteMarkets = rawMarkets.slice(0, 30).map(m => {
-        const ids = parseTokenIds(m.clobTokenIds || '[]');
-        if (ids.length > 0) allTokenIds.push(ids[0]);
-        return { ...m, tokenIds: ids };
-      });
-
-      const prices = await getBatchPrices(allTokenIds);
-      
-      markets = liteMarkets.map(m => {
-        const price = m.tokenIds.length > 0 ? prices[m.tokenIds[0]] || 0 : 0;
-        let outcomes = ["Yes", "No"];
-        try { if (m.outcomes) outcomes = JSON.parse(m.outcomes); } catch(e) {}
-        
-        return {
-          id: m.id,
-          title: m.question,
-          outcome: outcomes[0],
-          probability: Math.round(price * 10000) / 100,
-          volume: formatVolume(m.volume),
-          chartData: [],
-          image: m.image,
-          slug: m.slug,
-          outcomes: outcomes,
-          clobTokenId: m.tokenIds.length > 0 ? m.tokenIds[0] : undefined,
-          eventId: m.eventId,
-          eventTitle: m.eventTitle
-        };
-      });
+      markets = await toMarketData(rawMarkets.slice(0, 30));
     }
 
-    console.log(`✅ 已找到 ${markets.length} 个候选市场，正在拉取历史价格...`);
-
-    // 2. 批量拉取历史价格 (前 20 个市场)
-    const analyticsCandidates = markets.filter(m => m.clobTokenId).slice(0, 20);
-    
-    const historyPromises = analyticsCandidates.map(async (m) => {
-      const history = await getSparklineData(m.clobTokenId!);
-      return { id: m.id, history };
-    });
+    console.log(`✅ 已找到 ${markets.length} 个候选市场，正在拉取历史价格 (interval=${interval})...`);
 
-    const histories = await Promise.all(historyPromises);
-    const historyMap = new Map(histories.map(h => [h.id, h.history]));
+    // 2. 批量拉取完整历史价格（有限并发 + 存储缓存）；降采样会打乱时间间隔，只在响应的图表数据上做
+    const analyticsCandidates = deduplicateMarkets(markets).filter(m => m.clobTokenId).slice(0, MAX_MATRIX_MARKETS);
+    const histories = await getPriceHistories(
+      analyticsCandidates.map(m => m.clobTokenId!),
+      {
+        interval: interval as PriceHistoryInterval,
+        fidelity: typeof fidelity === "number" && fidelity > 0 ? fidelity : undefined,
+        maxPoints: 0,
+      }
+    );
 
     // 更新市场数据
     const marketsWithHistory = markets.map(m => ({
       ...m,
-      chartData: historyMap.get(m.id) || []
+      chartData: (m.clobTokenId && histories.get(m.clobTokenId)) || []
     }));
 
-    // 3. 执行分析引擎（基于历史价格数据）
-    console.log(`🧠 正在执行相关性分析（基于历史价格数据）...`);
-    const insights = await buildMarketInsights(query, marketsWithHistory);
+    // 3. 全部有历史数据的市场的相关矩阵（紧凑矩阵 + Top-K 边），显著的边再逐对做领先-滞后分析
+    console.log(`🧠 正在执行相关性分析（按时间对齐的${method === "log-odds-change" ? "对数几率" : "价格"}变化）...`);
+    const matrixMarkets = deduplicateMarkets(marketsWithHistory)
+      .filter(m => m.chartData.length > 0)
+      .slice(0, MAX_MATRIX_MARKETS);
+    const sameEvent = (a: number, b: number) =>
+      a < INTRA_EVENT_PAIR_MARKETS &&
+      b < INTRA_EVENT_PAIR_MARKETS &&
+      !!matrixMarkets[a].eventId &&
+      matrixMarkets[a].eventId === matrixMarkets[b].eventId;
+    const correlationMatrix = buildCorrelationMatrix(matrixMarkets, { method, pinned: sameEvent });
+    const pairs = findMarketPairs(matrixMarkets, correlationMatrix, { method, pinned: sameEvent });
+    const insights = await buildMarketInsights(query, marketsWithHistory, { markets: matrixMarkets, pairs });
+
+    console.log(`✅ 洞察分析完成: 核心市场 ${insights.coreMarkets.length}, 相关性关联对 ${insights.highCorrelationPairs.length}, 矩阵 ${matrixMarkets.length} 个市场 / ${correlationMatrix.edges.length} 条边`);
+
+    const ctx = aiContextFromRequest(body);
+    const aiEnabled = hasAICredentials(ctx);
+
+    // 4. 市场聚类：相关矩阵 + 标题 Embedding 相似度（向量取自市场向量索引，不可用时只用相关性）
+    let vectors: Map<string, number[]> | undefined;
+    if (aiEnabled && supportsEmbeddings(ctx)) {
+      try {
+        const index = await getMarketVectorIndex(ctx);
+        vectors = new Map();
+        matrixMarkets.forEach(m => {
+          const vector = index.getVector(m.id);
+          if (vector) vectors!.set(m.id, vector);
+        });
+      } catch (error) {
+        console.warn("⚠️ 市场向量不可用，聚类只使用相关性:", error);
+      }
+    }
+    const clustering = clusterMarkets(matrixMarkets, correlationMatrix, { vectors });
+    console.log(`🧩 聚类完成: ${clustering.clusters.length} 个簇, 模块度 ${clustering.modularity.toFixed(3)}`);
+
+    if (aiEnabled && clustering.clusters.length > 0) {
+      const titleById = new Map(matrixMarkets.map(m => [m.id, m.title]));
+      const labeled = clustering.clusters.slice(0, MAX_LABELED_CLUSTERS);
+      const labels = await labelMarketClusters(
+        ctx,
+        query,
+        labeled.map(cluster => ({
+          titles: cluster.marketIds.slice(0, TITLES_PER_CLUSTER).map(id => titleById.get(id) || id),
+          keywords: cluster.keywords,
+        }))
+      );
+      labels.forEach((label, i) => {
+        if (label) Object.assign(labeled[i], { label, labelSource: "ai" as const });
+      });
+    }
+
+    // 5. AI 因果解释（以领先-滞后统计为依据），未配置 API Key 时跳过
+    let causalRelations: CausalRelation[] = [];
+    if (aiEnabled) {
+      const ranked = insights.highCorrelationPairs
+        .map((pair, index) => ({ pair, index }))
+        .filter(({ pair }) => pair.pValue !== null)
+        .sort((x, y) => Math.abs(y.pair.correlation) - Math.abs(x.pair.correlation))
+        .slice(0, MAX_CAUSAL_PAIRS);
+      console.log(`🤖 正在推理 ${ranked.length} 个市场对的因果关系...`);
+      const relations = await inferCausalRelations(
+        ctx,
+        query,
+        ranked.map(({ pair }) => ({
+          a: { title: pair.marketA.title, price: pair.marketA.probability, eventTitle: pair.marketA.eventTitle },
+          b: { title: pair.marketB.title, price: pair.marketB.probability, eventTitle: pair.marketB.eventTitle },
+          correlation: pair.correlation,
+          relationType: pair.relationType,
+          leadLag: pair.leadLag,
+        }))
+      );
+      // pair 序号换算回 highCorrelationPairs 中的位置
+      causalRelations = relations.map((relation) => ({ ...relation, pair: ranked[relation.pair].index }));
+    }
 
-    console.log(`✅ 洞察分析完成: 核心市场 ${insights.coreMarkets.length}, 相关性关联对 ${insights.highCorrelationPairs.length}`);
+    // 响应中的价格曲线只用于图表，按默认点数降采样（同一市场只处理一次）
+    const chartData = new Map<string, SparklineDataPoint[]>();
+    const forChart = (m: MarketData) => {
+      if (!chartData.has(m.id)) chartData.set(m.id, downsampleHistory(m.chartData || []));
+      return { ...m, chartData: chartData.get(m.id)! };
+    };
 
     return NextResponse.json({
       success: true,
       query,
-      ...insights,
-      allMarkets: marketsWithHistory
+      interval,
+      method,
+      coreMarkets: insights.coreMarkets.map(forChart),
+      highCorrelationPairs: insights.highCorrelationPairs.map(pair => ({
+        ...pair,
+        marketA: forChart(pair.marketA),
+        marketB: forChart(pair.marketB),
+      })),
+      eventGroups: insights.eventGroups.map(group => ({ ...group, markets: group.markets.map(forChart) })),
+      causalRelations,
+      correlationMatrix,
+      clustering,
+      // 图谱只需要元数据，去掉历史价格以控制响应体积（详细市场对中仍带 chartData）
+      allMarkets: marketsWithHistory.map(({ chartData, ...m }) => m)
     });
 
   } catch (error) {
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getOrderBooks } from "@/lib/polymarket";
+import { DEFAULT_DEPTH_CENTS, summarizeOrderBook } from "@/lib/order-book";
+
+export const dynamic = 'force-dynamic';
+
+const MAX_TOKENS = 200;
+
+/**
+ * 获取订单簿摘要（中点、价差、最优档位份额、±N 美分深度）
+ * 参数：tokenId 或 tokenIds（逗号分隔），depthCents（默认 2），levels（附带前 N 档原始档位）
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const tokenIds = (searchParams.get("tokenIds") || searchParams.get("tokenId") || "")
+      .split(",")
+      .map((id) => id.trim())
+      .filter(Boolean);
+
+    if (tokenIds.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "Token ID is required" },
+        { status: 400 }
+      );
+    }
+    if (tokenIds.length > MAX_TOKENS) {
+      return NextResponse.json(
+        { success: false, error: `At most ${MAX_TOKENS} token IDs per request` },
+        { status: 400 }
+      );
+    }
+
+    const depthCents = Number(searchParams.get("depthCents") || DEFAULT_DEPTH_CENTS);
+    if (!Number.isFinite(depthCents) || depthCents <= 0 || depthCents > 50) {
+      return NextResponse.json(
+        { success: false, error: "depthCents must be between 0 and 50" },
+        { status: 400 }
+      );
+    }
+    const levels = Math.min(Math.max(Number(searchParams.get("levels")) || 0, 0), 50);
+
+    const books = await getOrderBooks(tokenIds);
+    const summaries = tokenIds.map((tokenId) => {
+      const book = books[tokenId];
+      if (!book) return { tokenId, summary: null };
+      return {
+        tokenId,
+        summary: summarizeOrderBook(book, depthCents),
+        ...(levels > 0 ? { bids: book.bids.slice(0, levels), asks: book.asks.slice(0, levels) } : {}),
+      };
+    });
+
+    return NextResponse.json({
+      success: true,
+      depthCents,
+      books: summaries,
+    });
+  } catch (error) {
+    console.error("Order book API error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to fetch order books",
+      },
+      { status: 500 }
+    );
+  }
+}
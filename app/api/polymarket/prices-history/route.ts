@@ -1,10 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getSparklineData } from "@/lib/polymarket";
+import { getPriceHistory, PRICE_HISTORY_INTERVALS } from "@/lib/polymarket";
+import type { PriceHistoryInterval } from "@/types/polymarket";
 
 export const dynamic = 'force-dynamic';
 
+// 解析可选的非负整数参数；缺失返回 undefined，非法返回 null
+function parseIntegerParam(value: string | null): number | undefined | null {
+  if (value === null || value === "") return undefined;
+  const num = Number(value);
+  return Number.isInteger(num) && num >= 0 ? num : null;
+}
+
 /**
  * 获取市场的历史价格数据
+ * 参数：tokenId，interval（1h / 6h / 1d / 1w / 1m / max）或 startTs / endTs（Unix 秒），
+ * fidelity（分钟），maxPoints（降采样上限）
  */
 export async function GET(request: NextRequest) {
   try {
@@ -18,7 +28,44 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const history = await getSparklineData(tokenId);
+    const interval = searchParams.get("interval");
+    if (interval && !PRICE_HISTORY_INTERVALS.includes(interval as PriceHistoryInterval)) {
+      return NextResponse.json(
+        { success: false, error: `interval must be one of ${PRICE_HISTORY_INTERVALS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const fidelity = parseIntegerParam(searchParams.get("fidelity"));
+    const startTs = parseIntegerParam(searchParams.get("startTs"));
+    const endTs = parseIntegerParam(searchParams.get("endTs"));
+    const maxPoints = parseIntegerParam(searchParams.get("maxPoints"));
+    if (fidelity === null || startTs === null || endTs === null || maxPoints === null || fidelity === 0) {
+      return NextResponse.json(
+        { success: false, error: "fidelity, startTs, endTs and maxPoints must be non-negative integers" },
+        { status: 400 }
+      );
+    }
+    if (interval && (startTs !== undefined || endTs !== undefined)) {
+      return NextResponse.json(
+        { success: false, error: "Use either interval or startTs/endTs, not both" },
+        { status: 400 }
+      );
+    }
+    if (startTs !== undefined && endTs !== undefined && startTs >= endTs) {
+      return NextResponse.json(
+        { success: false, error: "startTs must be before endTs" },
+        { status: 400 }
+      );
+    }
+
+    const history = await getPriceHistory(tokenId, {
+      interval: (interval as PriceHistoryInterval) || undefined,
+      fidelity,
+      startTs,
+      endTs,
+      maxPoints,
+    });
 
     return NextResponse.json({
       success: true,
@@ -1,69 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getMarketsByTag, getBatchPrices, parseTokenIds, formatVolume } from "@/lib/polymarket";
-import type { GammaMarket, MarketData } from "@/types/polymarket";
+import { getMarketsByTag, toMarketData } from "@/lib/polymarket";
 
 export const dynamic = 'force-dynamic';
 
-/**
- * 将GammaMarket转换为MarketData
- */
-async function convertToMarketData(markets: GammaMarket[]): Promise<MarketData[]> {
-  if (markets.length === 0) {
-    return [];
-  }
-
-  // 解析所有token IDs
-  const tokenIdMap = new Map<string, string>(); // marketId -> yesTokenId
-  const allTokenIds: string[] = [];
-
-  markets.forEach((market) => {
-    const tokenIds = parseTokenIds(market.clobTokenIds);
-    if (tokenIds.length > 0) {
-      const yesTokenId = tokenIds[0];
-      tokenIdMap.set(market.id, yesTokenId);
-      allTokenIds.push(yesTokenId);
-    }
-  });
-
-  // 批量获取价格
-  const prices = await getBatchPrices(allTokenIds);
-
-  // 转换为MarketData格式
-  return markets.map((market) => {
-    const yesTokenId = tokenIdMap.get(market.id);
-    const price = yesTokenId ? prices[yesTokenId] || 0 : 0;
-    const probability = price * 100;
-
-    // 确保volume是数字类型
-    const volumeNum = typeof market.volume === 'string' ? parseFloat(market.volume) : (market.volume || 0);
-    
-    // 解析 outcomes
-    let outcomes: string[] = ["Yes", "No"]; // 默认值
-    if (market.outcomes) {
-      try {
-        const parsed = JSON.parse(market.outcomes);
-        if (Array.isArray(parsed)) {
-          outcomes = parsed;
-        }
-      } catch (e) {
-        // 保持默认值
-      }
-    }
-    
-    return {
-      id: market.id,
-      title: market.question,
-      outcome: outcomes[0] || "Yes",
-      probability: Math.round(probability * 100) / 100,
-      volume: formatVolume(volumeNum),
-      chartData: [], // 不获取图表数据以加快速度
-      image: market.image || undefined,
-      slug: market.eventSlug || market.slug,
-      outcomes: outcomes,
-    };
-  });
-}
-
 /**
  * 根据标签ID获取市场列表
  */
@@ -98,7 +37,7 @@ export async function GET(request: NextRequest) {
     }
 
     // 转换为 MarketData 格式
-    const marketData = await convertToMarketData(markets);
+    const marketData = await toMarketData(markets);
 
     console.log(`✅ 找到 ${marketData.length} 个市场`);
     console.log(`==========================================\n`);
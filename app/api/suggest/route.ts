@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSearchSuggestions } from "@/lib/search-suggest";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * 搜索框自动补全
+ * ?q=bitc&limit=8 → 类型化建议（query / tag / event）及计数；q 为空时返回近期热门查询
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = (searchParams.get("q") ?? "").slice(0, 100);
+    const limit = Math.min(20, Math.max(1, parseInt(searchParams.get("limit") ?? "8", 10) || 8));
+    const suggestions = await getSearchSuggestions(query, limit);
+    return NextResponse.json({ success: true, query, suggestions });
+  } catch (error) {
+    console.error("[api/suggest] GET error:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Failed to load suggestions" },
+      { status: 500 }
+    );
+  }
+}
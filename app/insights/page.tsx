@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useEffect, Suspense } from "react";
+import React, { useState, useEffect, useMemo, Suspense } from "react";
 import { useSearchParams, useRouter } from "next/navigation";
 import { motion, AnimatePresence } from "framer-motion";
 import { 
@@ -14,10 +14,80 @@ import {
   CheckCircle2
 } from "lucide-react";
 import { BackgroundLines } from "@/components/ui/background-lines";
-import { InsightGraph } from "@/components/ui/insight-graph";
+import { InsightGraph, groupColor } from "@/components/ui/insight-graph";
 import { MultiPriceChart } from "@/components/ui/multi-price-chart";
 import { CircularProgress } from "@/components/ui/circular-progress";
-import type { MarketData } from "@/types/polymarket";
+import type { MarketData, PriceHistoryInterval } from "@/types/polymarket";
+
+// 相关性计算使用的历史价格窗口
+const ANALYSIS_INTERVALS: Array<{ value: PriceHistoryInterval; label: string }> = [
+  { value: "1d", label: "1天" },
+  { value: "1w", label: "1周" },
+  { value: "1m", label: "1月" },
+  { value: "max", label: "全部" },
+];
+
+// 相关性计算方式：对数几率变化在概率接近 0 / 100% 时更敏感
+const CORRELATION_METHODS: Array<{ value: "log-odds-change" | "price-change"; label: string }> = [
+  { value: "log-odds-change", label: "几率变化" },
+  { value: "price-change", label: "价格变化" },
+];
+
+const formatPValue = (p: number) => (p < 0.001 ? "p < 0.001" : `p = ${p.toFixed(3)}`);
+
+const EVIDENCE_LABELS: Record<string, { label: string; className: string }> = {
+  supported: { label: "数据支持", className: "bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400" },
+  contradicted: { label: "与数据矛盾", className: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400" },
+  unverified: { label: "数据未证实", className: "bg-neutral-100 text-neutral-500 dark:bg-neutral-800" },
+};
+
+// 首页保存的模型配置，用于 AI 因果解释（未配置时服务端跳过）
+const readAIRequestFields = () => {
+  const aiModel = localStorage.getItem("poly_trend_ai_model") || "gemini";
+  const apiKey = localStorage.getItem("poly_trend_gemini_key") || undefined;
+  const baseUrl = localStorage.getItem("poly_trend_config_mode") === "proxy"
+    ? localStorage.getItem("poly_trend_gemini_base_url") || undefined
+    : undefined;
+  return { aiModel, apiKey, baseUrl };
+};
+
+// 领先-滞后结论的文字描述（A / B 为市场对中的位置）
+const describeLeadLag = (leadLag: any): string | null => {
+  if (!leadLag) return null;
+  switch (leadLag.direction) {
+    case "a-leads":
+    case "b-leads":
+      return `${leadLag.leader === "a" ? "A 领先 B" : "B 领先 A"} 约 ${leadLag.lagDays.toFixed(1)} 天`;
+    case "feedback":
+      return "双向领先（互相预测）";
+    case "synchronous":
+      return "同步变动，无领先关系";
+    default:
+      return "无显著领先关系";
+  }
+};
+
+// 图谱的边：详细分析的市场对在前（AI 因果解释按其序号引用），再补上相关矩阵中的 Top-K 边
+const buildGraphPairs = (data: any): any[] => {
+  const pairs: any[] = [...(data.highCorrelationPairs || [])];
+  const matrix = data.correlationMatrix;
+  if (!matrix) return pairs;
+
+  const marketById = new Map<string, MarketData>((data.allMarkets || []).map((m: MarketData) => [m.id, m]));
+  const seen = new Set(pairs.flatMap((p) => [`${p.marketA.id}|${p.marketB.id}`, `${p.marketB.id}|${p.marketA.id}`]));
+  matrix.edges.forEach((edge: { a: number; b: number; correlation: number }) => {
+    const marketA = marketById.get(matrix.ids[edge.a]);
+    const marketB = marketById.get(matrix.ids[edge.b]);
+    if (!marketA || !marketB || seen.has(`${marketA.id}|${marketB.id}`)) return;
+    pairs.push({
+      marketA,
+      marketB,
+      correlation: edge.correlation,
+      relationType: marketA.eventId && marketA.eventId === marketB.eventId ? "intra-event" : "inter-event",
+    });
+  });
+  return pairs;
+};
 
 function InsightsContent() {
   const searchParams = useSearchParams();
@@ -27,6 +97,9 @@ function InsightsContent() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [data, setData] = useState<any>(null);
+  const [historyInterval, setHistoryInterval] = useState<PriceHistoryInterval>("max");
+  const [correlationMethod, setCorrelationMethod] = useState<"log-odds-change" | "price-change">("log-odds-change");
+  const graphPairs = useMemo(() => (data ? buildGraphPairs(data) : []), [data]);
 
   useEffect(() => {
     if (!query) {
@@ -60,7 +133,7 @@ function InsightsContent() {
           console.error('Failed to read insights data from sessionStorage:', storageError);
         }
 
-        const requestBody: any = { query };
+        const requestBody: any = { query, interval: historyInterval, method: correlationMethod, ...readAIRequestFields() };
         if (marketsToAnalyze && marketsToAnalyze.length > 0) {
           requestBody.markets = marketsToAnalyze;
         }
@@ -85,7 +158,7 @@ function InsightsContent() {
     };
 
     fetchInsights();
-  }, [query, router]);
+  }, [query, router, historyInterval, correlationMethod]);
 
   if (isLoading) {
     return (
@@ -159,9 +232,41 @@ function InsightsContent() {
               <p className="text-[10px] text-neutral-500 uppercase font-bold tracking-widest mt-1">QUERY: {query}</p>
             </div>
           </div>
-          <div className="flex items-center gap-2 px-3 py-1.5 bg-blue-500/10 rounded-full border border-blue-500/20">
-            <div className="w-2 h-2 bg-blue-500 rounded-full animate-pulse"></div>
-            <span className="text-[10px] font-black text-blue-500 uppercase">AI 分析模式已开启</span>
+          <div className="flex items-center gap-3">
+            <div className="flex items-center gap-1 p-1 bg-neutral-100 dark:bg-neutral-900 rounded-xl">
+              {ANALYSIS_INTERVALS.map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => setHistoryInterval(value)}
+                  className={`px-2.5 py-1 rounded-lg text-[10px] font-bold transition-colors ${
+                    historyInterval === value
+                      ? "bg-white dark:bg-neutral-800 text-blue-500 shadow-sm"
+                      : "text-neutral-500 hover:text-neutral-800 dark:hover:text-neutral-200"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-1 p-1 bg-neutral-100 dark:bg-neutral-900 rounded-xl">
+              {CORRELATION_METHODS.map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => setCorrelationMethod(value)}
+                  className={`px-2.5 py-1 rounded-lg text-[10px] font-bold transition-colors ${
+                    correlationMethod === value
+                      ? "bg-white dark:bg-neutral-800 text-blue-500 shadow-sm"
+                      : "text-neutral-500 hover:text-neutral-800 dark:hover:text-neutral-200"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-2 px-3 py-1.5 bg-blue-500/10 rounded-full border border-blue-500/20">
+              <div className="w-2 h-2 bg-blue-500 rounded-full animate-pulse"></div>
+              <span className="text-[10px] font-black text-blue-500 uppercase">AI 分析模式已开启</span>
+            </div>
           </div>
         </div>
       </div>
@@ -241,24 +346,108 @@ function InsightsContent() {
             </div>
             <div className="text-[10px] bg-neutral-100 dark:bg-neutral-900 px-3 py-1.5 rounded-full font-bold text-neutral-500 flex items-center gap-2 border border-neutral-200 dark:border-neutral-800">
               <Info className="w-3 h-3" />
-              节点可拖拽互动
+              {data.correlationMatrix
+                ? `${data.correlationMatrix.ids.length} 个市场 · ${graphPairs.length} 条关联 · 节点可拖拽互动`
+                : "节点可拖拽互动"}
             </div>
           </div>
           <InsightGraph 
             markets={data.allMarkets} 
-            highCorrelationPairs={data.highCorrelationPairs}
+            highCorrelationPairs={graphPairs}
+            causalRelations={data.causalRelations}
+            clustering={data.clustering}
           />
         </section>
 
+        {/* 市场聚类（相关矩阵 + 语义相似度的社区发现） */}
+        {data.clustering && data.clustering.clusters.length > 0 && (
+          <section className="flex flex-col gap-6">
+            <div className="flex items-center gap-3">
+              <Network className="w-6 h-6 text-indigo-500" />
+              <h2 className="text-2xl font-black">🧩 市场聚类</h2>
+              <span className="text-[10px] font-bold text-neutral-400">模块度 {data.clustering.modularity.toFixed(2)}</span>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {data.clustering.clusters.map((cluster: any) => {
+                const lead = data.allMarkets.find((m: MarketData) => m.id === cluster.leadMarketId);
+                return (
+                  <div key={cluster.id} className="p-4 bg-white dark:bg-neutral-900 rounded-2xl border border-neutral-200 dark:border-neutral-800 shadow-sm flex flex-col gap-3">
+                    <div className="flex items-center gap-2">
+                      <div className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: groupColor(cluster.id) }} />
+                      <h3 className="text-sm font-black leading-tight line-clamp-2" title={cluster.label}>{cluster.label}</h3>
+                      {cluster.labelSource === "ai" && (
+                        <span className="ml-auto text-[8px] font-black text-purple-500 px-1.5 py-0.5 bg-purple-500/10 rounded-full">AI</span>
+                      )}
+                    </div>
+                    <div className="grid grid-cols-2 gap-2 text-[10px]">
+                      <div>
+                        <span className="text-neutral-400 font-bold block">市场 / 事件</span>
+                        <span className="font-black">{cluster.size} / {cluster.eventCount}</span>
+                      </div>
+                      <div>
+                        <span className="text-neutral-400 font-bold block">簇内平均相关</span>
+                        <span className="font-black">{cluster.avgCorrelation !== null ? cluster.avgCorrelation.toFixed(2) : "—"}</span>
+                      </div>
+                      <div>
+                        <span className="text-neutral-400 font-bold block">平均概率</span>
+                        <span className="font-black">{cluster.avgProbability.toFixed(0)}%</span>
+                      </div>
+                      <div>
+                        <span className="text-neutral-400 font-bold block">总交易量</span>
+                        <span className="font-black">${(cluster.totalVolumeUsd / 1e6).toFixed(1)}M</span>
+                      </div>
+                    </div>
+                    {lead && (
+                      <p className="text-[10px] text-neutral-500 leading-snug line-clamp-2" title={lead.title}>
+                        代表市场：{lead.title}
+                      </p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </section>
+        )}
+
+        {/* AI 因果解释（以领先-滞后统计为依据） */}
+        {data.causalRelations && data.causalRelations.length > 0 && (
+          <section className="flex flex-col gap-6">
+            <div className="flex items-center gap-3">
+              <Info className="w-6 h-6 text-blue-500" />
+              <h2 className="text-2xl font-black">🧭 因果关系解读</h2>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {data.causalRelations.map((relation: any, idx: number) => {
+                const evidence = EVIDENCE_LABELS[relation.evidence] ?? EVIDENCE_LABELS.unverified;
+                return (
+                  <div key={idx} className="p-4 bg-white dark:bg-neutral-900 rounded-2xl border border-neutral-200 dark:border-neutral-800 shadow-sm flex flex-col gap-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className={`text-[10px] font-black px-2 py-0.5 rounded-full ${evidence.className}`}>{evidence.label}</span>
+                      <span className="text-[10px] font-bold text-neutral-400">置信度 {(relation.confidence * 100).toFixed(0)}%</span>
+                    </div>
+                    <p className="text-xs font-bold leading-tight">{relation.cause}</p>
+                    <span className="text-[10px] font-black text-neutral-400">↓ 导致</span>
+                    <p className="text-xs font-bold leading-tight">{relation.effect}</p>
+                    <p className="text-[11px] text-neutral-500 leading-snug">{relation.reason}</p>
+                  </div>
+                );
+              })}
+            </div>
+          </section>
+        )}
+
         {/* 价格联动趋势 */}
         <section className="flex flex-col gap-6">
           <div className="flex items-center gap-3">
             <TrendingUp className="w-6 h-6 text-green-500" />
             <h2 className="text-2xl font-black">📊 价格相关性分析（基于历史数据）</h2>
           </div>
+          <p className="-mt-3 text-xs text-neutral-500">
+            按时间戳对齐后，对{correlationMethod === "log-odds-change" ? "对数几率" : "价格"}的逐期变化计算相关性；跨事件市场对需 |r| ≥ 0.3 且 p &lt; 0.05，重叠不足 20 个时间点的不计算。
+          </p>
           {data.highCorrelationPairs.length > 0 ? (
             <div className="flex flex-col gap-6">
-              <MultiPriceChart groups={data.highCorrelationPairs} />
+              <MultiPriceChart groups={data.highCorrelationPairs} interval={data.interval} method={data.method} />
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                 {data.highCorrelationPairs.map((pair: any, idx: number) => (
                   <div 
@@ -279,6 +468,20 @@ function InsightsContent() {
                         </span>
                       )}
                     </div>
+                    {pair.pValue !== null ? (
+                      <div className="mb-3 text-[10px] text-neutral-500 flex flex-wrap gap-x-2">
+                        <span>{formatPValue(pair.pValue)}</span>
+                        <span>95% CI [{(pair.confidenceInterval[0] * 100).toFixed(0)}%, {(pair.confidenceInterval[1] * 100).toFixed(0)}%]</span>
+                        <span>{pair.overlap} 个对齐时间点</span>
+                        {describeLeadLag(pair.leadLag) && (
+                          <span className={pair.leadLag.leader ? "font-bold text-blue-500" : undefined}>
+                            {describeLeadLag(pair.leadLag)}
+                          </span>
+                        )}
+                      </div>
+                    ) : (
+                      <div className="mb-3 text-[10px] text-neutral-400">重叠数据不足，未计算相关性</div>
+                    )}
                     <div className="space-y-2">
                       <div className="text-[10px] font-bold text-neutral-500 uppercase mb-1">市场 A</div>
                       <p className="text-xs font-bold leading-tight mb-3" title={pair.marketA.title}>
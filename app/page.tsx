@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useTransition, useEffect, Suspense } from "react";
+import React, { useState, useEffect, useRef, useMemo, Suspense } from "react";
 import { BackgroundLines } from "@/components/ui/background-lines";
 import { CardBody, CardContainer, CardItem } from "@/components/ui/3d-card";
 import { FloatingDock } from "@/components/ui/floating-dock";
@@ -19,27 +19,40 @@ import {
   TrendingUp,
   Key,
   X,
+  History,
+  Tag as TagIcon,
+  CalendarClock,
 } from "lucide-react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { searchMarkets } from "@/lib/polymarket";
-import type { MarketData } from "@/types/polymarket";
-import type { AIModel } from "@/components/ui/model-selector";
+import { postSSE } from "@/lib/sse";
+import { describeFilters, formatSearchQuery, fromQueryInterpretation, parseSearchQuery } from "@/lib/query-filters";
+import type { MarketData, PriceHistoryInterval, QueryInterpretation, SearchSuggestion } from "@/types/polymarket";
+import { MODEL_CONFIGS, type AIModel } from "@/components/ui/model-selector";
 import { PriceChart } from "@/components/ui/price-chart";
 import { CircularProgress } from "@/components/ui/circular-progress";
 import { AIAnalysisModal } from "@/components/ui/ai-analysis-modal";
 
 // --- Components ---
 
+const CHART_INTERVALS: Array<{ value: PriceHistoryInterval; label: string }> = [
+  { value: "1d", label: "1D" },
+  { value: "1w", label: "1W" },
+  { value: "1m", label: "1M" },
+  { value: "max", label: "ALL" },
+];
+
 function MarketCard({ market, variant = 'hard' }: { market: MarketData, variant?: 'hard' | 'semantic' }) {
   const [priceHistory, setPriceHistory] = useState<any[]>([]);
   const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const [historyInterval, setHistoryInterval] = useState<PriceHistoryInterval>("max");
 
   useEffect(() => {
     async function fetchHistory() {
       if (!market.clobTokenId) return;
       setIsLoadingHistory(true);
       try {
-        const response = await fetch(`/api/polymarket/prices-history?tokenId=${market.clobTokenId}`);
+        const response = await fetch(`/api/polymarket/prices-history?tokenId=${market.clobTokenId}&interval=${historyInterval}&maxPoints=200`);
         const data = await response.json();
         if (data.success) setPriceHistory(data.history);
       } catch (error) {
@@ -49,10 +62,17 @@ function MarketCard({ market, variant = 'hard' }: { market: MarketData, variant?
       }
     }
     fetchHistory();
-  }, [market.clobTokenId]);
+  }, [market.clobTokenId, historyInterval]);
 
   const yesProbability = market.probability;
-  const noProbability = 100 - yesProbability;
+  // 完整的 outcome 分布；旧数据（历史记录）没有 outcomePrices 时按二元市场推算
+  const outcomeRows = market.outcomePrices && market.outcomePrices.length > 0
+    ? market.outcomePrices.map((o) => ({ outcome: o.outcome, price: o.price, bid: o.bid, ask: o.ask }))
+    : [
+        { outcome: market.outcomes?.[0] || "Yes", price: yesProbability, bid: null, ask: null },
+        { outcome: market.outcomes?.[1] || "No", price: 100 - yesProbability, bid: null, ask: null },
+      ];
+  const distributionColors = ["bg-blue-500", "bg-purple-500", "bg-amber-500", "bg-emerald-500", "bg-rose-500"];
   
   // 颜色配置
   const themes = {
@@ -91,10 +111,22 @@ function MarketCard({ market, variant = 'hard' }: { market: MarketData, variant?
               </div>
             )}
             <CardItem translateZ="50" className={`flex-1 text-[9px] font-bold leading-[1.3] ${theme.title}`}>
-              {market.title}
+              {/* 有译文时显示译文，悬停查看英文原标题 */}
+              <span title={market.translation ? market.title : undefined}>{market.translation?.title ?? market.title}</span>
             </CardItem>
           </div>
-          <CardItem translateZ="40" className="w-full mt-auto h-[120px]">
+          <div className="flex gap-0.5 mt-auto mb-1 self-end">
+            {CHART_INTERVALS.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={(e) => { e.preventDefault(); e.stopPropagation(); setHistoryInterval(value); }}
+                className={`px-1 rounded text-[7px] font-semibold transition-colors ${historyInterval === value ? "bg-neutral-200 text-neutral-800 dark:bg-neutral-800 dark:text-neutral-200" : "text-neutral-400 hover:text-neutral-600"}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <CardItem translateZ="40" className="w-full h-[120px]">
             {isLoadingHistory ? (
               <div className="w-full h-full flex items-center justify-center bg-neutral-100 dark:bg-neutral-900 rounded-lg animate-pulse">
                 <Loader2 className="w-3 h-3 text-neutral-400 animate-spin" />
@@ -107,20 +139,43 @@ function MarketCard({ market, variant = 'hard' }: { market: MarketData, variant?
           {/* 底部信息区域容器 */}
           <div className="flex flex-col gap-1 w-full">
             <CardItem as="div" translateZ="60" className="w-full">
-              <div className="flex items-baseline gap-1">
-                <span className={`text-sm font-bold ${theme.yes}`}>{yesProbability.toFixed(1)}%</span>
-                <span className="text-[8px] text-neutral-600 dark:text-neutral-400 truncate max-w-[50px]">{market.outcomes?.[0] || "Yes"}</span>
-              </div>
-              <div className="flex items-baseline gap-1 mt-0.5">
-                <span className={`text-xs font-semibold ${theme.no}`}>{noProbability.toFixed(1)}%</span>
-                <span className="text-[8px] text-neutral-600 dark:text-neutral-400 truncate max-w-[50px]">{market.outcomes?.[1] || "No"}</span>
-              </div>
+              {outcomeRows.length > 2 && (
+                <div className="flex w-full h-1 rounded-full overflow-hidden bg-neutral-200 dark:bg-neutral-800 mb-1">
+                  {outcomeRows.map((row, i) => (
+                    <div key={row.outcome} className={distributionColors[i % distributionColors.length]} style={{ width: `${row.price ?? 0}%` }} />
+                  ))}
+                </div>
+              )}
+              {outcomeRows.slice(0, 3).map((row, i) => (
+                <div key={row.outcome} className={`flex items-baseline gap-1 ${i > 0 ? "mt-0.5" : ""}`}>
+                  <span className={i === 0 ? `text-sm font-bold ${theme.yes}` : `text-xs font-semibold ${theme.no}`}>
+                    {row.price !== null ? `${row.price.toFixed(1)}%` : "—"}
+                  </span>
+                  <span className="text-[8px] text-neutral-600 dark:text-neutral-400 truncate max-w-[50px]">{row.outcome}</span>
+                  {row.bid !== null && row.ask !== null && (
+                    <span className="text-[7px] text-neutral-400 ml-auto">{row.bid.toFixed(1)} / {row.ask.toFixed(1)}</span>
+                  )}
+                </div>
+              ))}
+              {outcomeRows.length > 3 && (
+                <span className="text-[7px] text-neutral-400">+{outcomeRows.length - 3} more outcomes</span>
+              )}
             </CardItem>
             <CardItem translateZ="70" className="text-[8px] text-neutral-600 dark:text-neutral-400 mt-1 flex flex-col gap-1 w-full">
-              <span>Vol: {market.volume}</span>
+              <div className="flex items-center gap-1">
+                <span>Vol: {market.volume}</span>
+                {market.orderBook && market.orderBook.spread !== null && (
+                  <span className="text-neutral-400">· Spread {market.orderBook.spread.toFixed(1)}¢</span>
+                )}
+                {market.orderBook && market.orderBook.liquidity !== "liquid" && (
+                  <span className="ml-auto px-1 rounded bg-amber-100 text-amber-700 dark:bg-amber-500/10 dark:text-amber-400 text-[7px] font-semibold">
+                    {market.orderBook.liquidity === "thin" ? "Thin book" : "No book"}
+                  </span>
+                )}
+              </div>
               {market.reasoning && (
                 <div className="text-[7px] italic text-purple-700 dark:text-purple-400 bg-purple-50 dark:bg-purple-500/10 p-1 rounded border border-purple-100 dark:border-purple-500/10 line-clamp-2">
-                  {market.reasoning}
+                  {market.translation?.reasoning ?? market.reasoning}
                 </div>
               )}
             </CardItem>
@@ -154,7 +209,27 @@ function HomeContent() {
   const [marketData, setMarketData] = useState<MarketData[]>([]);
   const [tagMarkets, setTagMarkets] = useState<MarketData[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
-  const [isPending, startTransition] = useTransition();
+  // 与服务端相同的查询语法（volume:>1m ends:<march ...），输入时显示识别出的过滤条件
+  const queryFilterLabels = useMemo(() => {
+    const { filters, sort } = parseSearchQuery(searchQuery);
+    return describeFilters(filters, sort);
+  }, [searchQuery]);
+  // 服务端对本次查询的解读（语义查询 + 过滤条件），可回填到搜索框编辑
+  const [interpretation, setInterpretation] = useState<QueryInterpretation | null>(null);
+  const interpretationLabels = useMemo(() => {
+    if (!interpretation) return [];
+    const { filters, sort } = fromQueryInterpretation(interpretation);
+    return describeFilters(filters, sort);
+  }, [interpretation]);
+  // 非英文查询时把结果标题与推荐理由译回查询语言
+  const [translateResults, setTranslateResults] = useState(true);
+  // 输入时的自动补全（只对查询文本部分补全，过滤语法保留）
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [highlightedSuggestion, setHighlightedSuggestion] = useState(-1);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchProgress, setSearchProgress] = useState<string | null>(null);
+  const searchAbortRef = useRef<AbortController | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [searchMessage, setSearchMessage] = useState<string | null>(null);
   const [suggestedQueries, setSuggestedQueries] = useState<string[]>([]);
@@ -170,10 +245,12 @@ function HomeContent() {
   const [aiAnalysis, setAiAnalysis] = useState<any>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysisComplete, setAnalysisComplete] = useState(false);
+  const analysisAbortRef = useRef<AbortController | null>(null);
   const [latestSearchData, setLatestSearchData] = useState<any>(null);
   const [geminiApiKey, setGeminiApiKey] = useState<string>("");
   const [geminiBaseUrl, setGeminiBaseUrl] = useState<string>("https://generativelanguage.googleapis.com");
   const [configMode, setConfigMode] = useState<'official' | 'proxy'>('official');
+  const [aiModel, setAiModel] = useState<AIModel>('gemini');
   
   // 新增：配置面板状态
   const [showConfig, setShowConfig] = useState(false);
@@ -183,12 +260,16 @@ function HomeContent() {
     const savedKey = localStorage.getItem("poly_trend_gemini_key");
     const savedBaseUrl = localStorage.getItem("poly_trend_gemini_base_url");
     const savedMode = localStorage.getItem("poly_trend_config_mode") as 'official' | 'proxy';
+    const savedModel = localStorage.getItem("poly_trend_ai_model") as AIModel | null;
+    const savedTranslate = localStorage.getItem("poly_trend_translate_results");
     
     if (savedKey) setGeminiApiKey(savedKey);
     if (savedBaseUrl) setGeminiBaseUrl(savedBaseUrl);
     if (savedMode) setConfigMode(savedMode);
+    if (savedModel && MODEL_CONFIGS[savedModel]) setAiModel(savedModel);
+    if (savedTranslate !== null) setTranslateResults(savedTranslate === "1");
     
-    if (!savedKey) {
+    if (!savedKey && (!savedModel || MODEL_CONFIGS[savedModel]?.requiresApiKey)) {
       setShowConfig(true);
     }
   }, []);
@@ -203,9 +284,19 @@ function HomeContent() {
     localStorage.setItem("poly_trend_gemini_key", key);
     localStorage.setItem("poly_trend_gemini_base_url", finalBaseUrl);
     localStorage.setItem("poly_trend_config_mode", mode);
+    localStorage.setItem("poly_trend_ai_model", aiModel);
     if (key.trim()) setError(null);
   };
 
+  // 当前 Provider 的请求参数（官方模式下由服务端使用各 Provider 默认地址）
+  const buildAIRequestFields = (apiKey: string) => ({
+    aiModel,
+    apiKey,
+    baseUrl: configMode === 'proxy' ? geminiBaseUrl : undefined,
+  });
+
+  const requiresApiKey = MODEL_CONFIGS[aiModel].requiresApiKey;
+
   const saveSearchContext = (query: string) => {
     try {
       const context = { marketData, tagMarkets, tagMarketsCache, semanticGroups, tagsUsed, directSearchTags, activeTagId, searchQuery: query, searchMessage, searchSource, showSemanticSubTags, timestamp: Date.now() };
@@ -241,58 +332,149 @@ function HomeContent() {
     // 优先从 state 获取， mount 时可能 state 还没同步，则尝试从 localStorage 直接读取
     const currentKey = geminiApiKey.trim() || localStorage.getItem("poly_trend_gemini_key") || "";
     
-    if (!currentKey.toString().trim()) {
-      setError("Please set Gemini API Key to enable semantic search.");
+    if (requiresApiKey && !currentKey.toString().trim()) {
+      setError(`Please set ${MODEL_CONFIGS[aiModel].displayName} API Key to enable semantic search.`);
       setShowConfig(true);
       return;
     }
 
     setError(null);
-    startTransition(async () => {
+    searchAbortRef.current?.abort();
+    const controller = new AbortController();
+    searchAbortRef.current = controller;
+
+    // 清空上一次结果，随流式事件逐步填充
+    setIsSearching(true); setSearchProgress("Searching Polymarket...");
+    setMarketData([]); setTagMarkets([]); setActiveTagId(null); setShowSemanticSubTags(false);
+    setTagsUsed([]); setDirectSearchTags([]); setSemanticGroups([]); setTagMarketsCache({});
+    setSearchMessage(null); setSuggestedQueries([]); setInterpretation(null);
+
+    // 首个到达的标签 / 维度自动展示在右侧
+    let firstTagShown = false;
+    const showFirstTag = (tagId: string, markets: MarketData[]) => {
+      if (firstTagShown) return;
+      firstTagShown = true;
+      setTagMarkets(markets); setActiveTagId(tagId);
+    };
+
+    (async () => {
       try {
-        const response = await fetch("/api/polymarket/ai-search", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ 
-            query,
-            geminiKey: currentKey, // 传递获取到的 Key
-            geminiBaseUrl: geminiBaseUrl // 传递 Base URL
-          }),
-        });
-        const results = await response.json();
-        if (results.error) throw new Error(results.error);
-
-        setMarketData(results.markets);
-        const liveCryptoTag = (results.tagsUsed || []).find((t:any) => t.id === 'semantic-Live Crypto');
-        if (liveCryptoTag && results.tagMarketsCache?.[liveCryptoTag.id]) {
-          setTagMarkets(results.tagMarketsCache[liveCryptoTag.id]); setActiveTagId(liveCryptoTag.id); setShowSemanticSubTags(true);
-        } else if (results.tagsUsed?.length > 0) {
-          const firstTag = results.tagsUsed[0]; setTagMarkets(results.tagMarketsCache?.[firstTag.id] || []); setActiveTagId(firstTag.id);
-        }
-        setSearchMessage(results.message || null); setSuggestedQueries(results.suggestedQueries || []); setSearchSource(results.source);
-        setTagsUsed(results.tagsUsed || []); setDirectSearchTags(results.directSearchTags || []); setSemanticGroups(results.semanticGroups || []);
-        if (results.tagMarketsCache) setTagMarketsCache(results.tagMarketsCache);
-        setLatestSearchData({ query, markets: results.markets, timestamp: new Date().toISOString() });
+        await postSSE("/api/polymarket/ai-search/stream", {
+          query,
+          translateResults,
+          ...buildAIRequestFields(currentKey), // 传递 Provider、Key 与 Base URL
+        }, (event, data) => {
+          if (event === 'interpretation') {
+            setInterpretation(data.interpretation);
+          } else if (event === 'hardMatch') {
+            setMarketData(data.markets);
+            setDirectSearchTags(data.directSearchTags || []);
+            setSearchProgress("Finding related tags...");
+          } else if (event === 'tag') {
+            setTagsUsed(prev => [...prev, data.tag]);
+            setTagMarketsCache(prev => ({ ...prev, [data.tag.id]: data.markets }));
+            if (data.markets.length > 0) showFirstTag(data.tag.id, data.markets);
+            setSearchProgress(`Loaded tag: ${data.tag.label}`);
+          } else if (event === 'semantic') {
+            const tagId = `semantic-${data.dimension}`;
+            setSemanticGroups(prev => [...prev, { dimension: data.dimension, markets: data.markets }]);
+            setTagsUsed(prev => [{ id: tagId, label: data.dimension }, ...prev]);
+            setTagMarketsCache(prev => ({ ...prev, [tagId]: data.markets }));
+            if (data.markets.length > 0) showFirstTag(tagId, data.markets);
+            setSearchProgress(`Selected dimension: ${data.dimension}`);
+          } else if (event === 'done') {
+            applySearchResults(query, data);
+          } else if (event === 'error') {
+            throw new Error(data.error);
+          }
+        }, controller.signal);
       } catch (err: any) { 
-        setError(err.message || "Failed to search markets"); 
+        if (err.name !== 'AbortError') setError(err.message || "Failed to search markets"); 
+      } finally {
+        if (searchAbortRef.current === controller) {
+          searchAbortRef.current = null;
+          setIsSearching(false); setSearchProgress(null);
+        }
       }
-    });
+    })();
+  };
+
+  // 应用完整搜索结果（标签顺序与默认选中以最终结果为准）
+  const applySearchResults = (query: string, results: any) => {
+    setMarketData(results.markets);
+    const liveCryptoTag = (results.tagsUsed || []).find((t:any) => t.id === 'semantic-Live Crypto');
+    if (liveCryptoTag && results.tagMarketsCache?.[liveCryptoTag.id]) {
+      setTagMarkets(results.tagMarketsCache[liveCryptoTag.id]); setActiveTagId(liveCryptoTag.id); setShowSemanticSubTags(true);
+    } else if (results.tagsUsed?.length > 0) {
+      const firstTag = results.tagsUsed[0]; setTagMarkets(results.tagMarketsCache?.[firstTag.id] || []); setActiveTagId(firstTag.id);
+    }
+    setSearchMessage(results.message || null); setSuggestedQueries(results.suggestedQueries || []); setSearchSource(results.source);
+    setInterpretation(results.interpretation || null);
+    setTagsUsed(results.tagsUsed || []); setDirectSearchTags(results.directSearchTags || []); setSemanticGroups(results.semanticGroups || []);
+    if (results.tagMarketsCache) setTagMarketsCache(results.tagMarketsCache);
+    setLatestSearchData({ query, markets: results.markets, timestamp: new Date().toISOString() });
+  };
+
+  useEffect(() => {
+    if (!showSuggestions) return;
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const text = parseSearchQuery(searchQuery).text;
+        const res = await fetch(`/api/suggest?q=${encodeURIComponent(text)}&limit=8`, { signal: controller.signal });
+        const data = await res.json();
+        if (data.success) { setSuggestions(data.suggestions); setHighlightedSuggestion(-1); }
+      } catch (err: any) {
+        if (err.name !== 'AbortError') console.warn("Failed to load suggestions:", err);
+      }
+    }, 120);
+    return () => { clearTimeout(timer); controller.abort(); };
+  }, [searchQuery, showSuggestions]);
+
+  const selectSuggestion = (suggestion: SearchSuggestion) => {
+    const { filters, sort } = parseSearchQuery(searchQuery);
+    const query = formatSearchQuery({ text: suggestion.text, filters, sort });
+    setSearchQuery(query);
+    setShowSuggestions(false);
+    submitQuery(query);
+  };
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions || suggestions.length === 0) return;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlightedSuggestion((i) => (i + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlightedSuggestion((i) => (i <= 0 ? suggestions.length - 1 : i - 1));
+    } else if (e.key === 'Enter' && highlightedSuggestion >= 0) {
+      e.preventDefault();
+      selectSuggestion(suggestions[highlightedSuggestion]);
+    } else if (e.key === 'Escape') {
+      setShowSuggestions(false);
+    }
   };
 
   const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault(); 
-    if (!searchQuery.trim()) return;
+    e.preventDefault();
+    setShowSuggestions(false);
+    submitQuery(searchQuery);
+  };
+
+  const submitQuery = (rawQuery: string) => {
+    const query = rawQuery.trim();
+    if (!query) return;
     
     const currentKey = geminiApiKey.trim() || localStorage.getItem("poly_trend_gemini_key") || "";
-    if (!currentKey.toString().trim()) {
-      setError("Please set Gemini API Key to enable semantic search.");
+    if (requiresApiKey && !currentKey.toString().trim()) {
+      setError(`Please set ${MODEL_CONFIGS[aiModel].displayName} API Key to enable semantic search.`);
       setShowConfig(true);
       return;
     }
     
-    const newUrl = `${window.location.pathname}?q=${encodeURIComponent(searchQuery.trim())}`;
+    const newUrl = `${window.location.pathname}?q=${encodeURIComponent(query)}`;
     window.history.pushState({ path: newUrl }, '', newUrl);
-    executeSearch(searchQuery.trim());
+    executeSearch(query);
   };
 
   const handleGoBack = () => {
@@ -331,14 +513,20 @@ function HomeContent() {
 
   const handleAIAnalysis = async () => {
     if (!latestSearchData) return;
-    if (!geminiApiKey.trim()) {
-      alert("Please set Gemini API Key first");
+    if (requiresApiKey && !geminiApiKey.trim()) {
+      alert(`Please set ${MODEL_CONFIGS[aiModel].displayName} API Key first`);
       setShowConfig(true);
       window.scrollTo({ top: 0, behavior: 'smooth' });
       return;
     }
 
+    analysisAbortRef.current?.abort();
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+
     setIsAnalyzing(true); setAnalysisComplete(false); setAiAnalysis(null);
+    setShowAIAnalysis(true);
+    let answer = "";
     try {
       // 收集每个展示的 tag 下前 10 个成交量的市场
       const marketsToAnalyze: MarketData[] = [];
@@ -375,31 +563,38 @@ function HomeContent() {
         });
       });
 
-      const response = await fetch("/api/ai/analyze", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ 
-          query: latestSearchData.query, 
-          markets: marketsToAnalyze, // 传输整合后的多维数据
-          model: 'gemini', 
-          apiKey: geminiApiKey,
-          geminiBaseUrl: geminiBaseUrl
-        }),
-      });
-      const result = await response.json();
-      if (!result.success) throw new Error(result.error);
-      
-      // 检查返回结果格式，适配 Modal 的要求
-      const finalAnalysis = typeof result.analysis === 'string' 
-        ? { answer: result.analysis, boxed_answer: "" } 
-        : (result.analysis || result.data);
-        
-      setAiAnalysis(finalAnalysis); 
-      setAnalysisComplete(true); 
-      setShowAIAnalysis(true);
+      // 流式接收报告，逐段追加到 Modal
+      await postSSE("/api/ai/analyze/stream", {
+        query: latestSearchData.query, 
+        markets: marketsToAnalyze, // 传输整合后的多维数据
+        model: aiModel, 
+        ...buildAIRequestFields(geminiApiKey),
+      }, (event, data) => {
+        if (event === 'delta') {
+          answer += data.text;
+          setAiAnalysis({ answer, boxed_answer: "" });
+        } else if (event === 'done') {
+          setAiAnalysis({ answer, boxed_answer: "", timestamp: data.timestamp });
+          setAnalysisComplete(true);
+        } else if (event === 'error') {
+          throw new Error(data.error);
+        }
+      }, controller.signal);
     } catch (error: any) { 
-      alert(`AI Analysis failed: ${error.message}`); 
-    } finally { setIsAnalyzing(false); }
+      if (error.name === 'AbortError') {
+        console.log("⏹️ AI analysis cancelled");
+        setAnalysisComplete(!!answer);
+      } else {
+        alert(`AI Analysis failed: ${error.message}`); 
+      }
+    } finally {
+      if (analysisAbortRef.current === controller) analysisAbortRef.current = null;
+      setIsAnalyzing(false);
+    }
+  };
+
+  const handleCancelAnalysis = () => {
+    analysisAbortRef.current?.abort();
   };
 
   const dockItems = [
@@ -417,34 +612,56 @@ function HomeContent() {
     <div className="min-h-screen w-full flex">
       <div className="flex-1 flex flex-col relative">
         <BackgroundLines className="flex-1 flex flex-col items-center justify-start overflow-y-auto">
-          {isPending && (
+          {isSearching && marketData.length === 0 && tagsUsed.length === 0 && (
             <div className="fixed inset-0 bg-black/50 z-[60] flex items-center justify-center">
               <div className="bg-white dark:bg-neutral-900 rounded-lg p-6 flex flex-col items-center gap-4 shadow-2xl">
                 <Loader2 className="h-8 w-8 text-blue-500 animate-spin" />
                 <p className="font-bold">Analyzing market semantics...</p>
+                {searchProgress && <p className="text-xs text-neutral-500">{searchProgress}</p>}
               </div>
             </div>
           )}
 
+          {/* 流式搜索进度（已有部分结果时不再遮挡页面） */}
+          {isSearching && (marketData.length > 0 || tagsUsed.length > 0) && (
+            <div className="fixed top-4 left-1/2 -translate-x-1/2 z-[60] flex items-center gap-2 px-4 py-2 rounded-full bg-white/90 dark:bg-neutral-900/90 backdrop-blur-md border border-neutral-200 dark:border-white/10 shadow-lg">
+              <Loader2 className="h-3.5 w-3.5 text-blue-500 animate-spin" />
+              <span className="text-[10px] font-bold text-neutral-700 dark:text-neutral-300">{searchProgress || "Searching..."}</span>
+            </div>
+          )}
+
           <div className="relative z-20 w-full flex flex-col items-center justify-start px-4 pt-8 pb-20 min-h-screen">
             <h1 className="text-4xl font-black mb-6 tracking-tighter bg-gradient-to-b from-neutral-900 to-neutral-600 bg-clip-text text-transparent">PolyMacro Trend</h1>
             
             {/* AI 配置区域 */}
             <div className="w-full max-w-2xl">
-              <div className={`transition-all duration-500 ease-in-out ${showConfig || !geminiApiKey ? 'max-h-[1000px] opacity-100 mb-8' : 'max-h-0 opacity-0 mb-0 overflow-hidden'}`}>
+              <div className={`transition-all duration-500 ease-in-out ${showConfig || (requiresApiKey && !geminiApiKey) ? 'max-h-[1000px] opacity-100 mb-8' : 'max-h-0 opacity-0 mb-0 overflow-hidden'}`}>
                 <div className="bg-white/90 dark:bg-black/60 backdrop-blur-2xl border border-neutral-200 dark:border-white/10 rounded-3xl p-6 shadow-2xl flex flex-col gap-5">
                   <div className="flex items-center justify-between">
                     <div className="flex items-center gap-2 text-purple-600 dark:text-purple-500 text-xs font-black uppercase tracking-widest">
                       <Settings className="w-3.5 h-3.5" />
-                      <span>Gemini AI Configuration</span>
+                      <span>AI Configuration</span>
                     </div>
-                    {geminiApiKey && (
+                    {(geminiApiKey || !requiresApiKey) && (
                       <button onClick={() => setShowConfig(false)} className="p-1 hover:bg-neutral-100 dark:hover:bg-white/10 rounded-full transition-colors">
                         <X className="w-4 h-4 text-neutral-400" />
                       </button>
                     )}
                   </div>
 
+                  {/* Provider 切换 */}
+                  <div className="grid grid-cols-4 gap-1 p-1 bg-neutral-100 dark:bg-white/5 rounded-xl border border-neutral-200 dark:border-white/5">
+                    {(Object.keys(MODEL_CONFIGS) as AIModel[]).filter(m => m !== 'mirothinker').map((model) => (
+                      <button
+                        key={model}
+                        onClick={() => setAiModel(model)}
+                        className={`py-1.5 text-[10px] font-black uppercase tracking-wider rounded-lg transition-all truncate ${aiModel === model ? 'bg-white dark:bg-neutral-800 shadow-sm text-purple-600' : 'text-neutral-500 hover:text-neutral-700'}`}
+                      >
+                        {MODEL_CONFIGS[model].icon} {model === 'local' ? 'Local' : MODEL_CONFIGS[model].displayName}
+                      </button>
+                    ))}
+                  </div>
+
                   {/* 模式切换 */}
                   <div className="flex p-1 bg-neutral-100 dark:bg-white/5 rounded-xl border border-neutral-200 dark:border-white/5">
                     <button 
@@ -467,7 +684,7 @@ function HomeContent() {
                         <span className="text-lg">✨</span>
                         <div className="flex flex-col">
                           <span className="text-xs font-bold text-neutral-900 dark:text-white">
-                            {configMode === 'official' ? 'Gemini API Key' : 'Proxy API Key'}
+                            {configMode === 'official' ? `${MODEL_CONFIGS[aiModel].displayName} API Key` : 'Proxy API Key'}
                           </span>
                         </div>
                       </div>
@@ -501,7 +718,7 @@ function HomeContent() {
 
                   <button 
                     onClick={() => {
-                      if (!geminiApiKey.trim()) {
+                      if (requiresApiKey && !geminiApiKey.trim()) {
                         alert("Please enter an API Key");
                         return;
                       }
@@ -516,7 +733,7 @@ function HomeContent() {
                 </div>
               </div>
               
-              {!showConfig && geminiApiKey && (
+              {!showConfig && (geminiApiKey || !requiresApiKey) && (
                 <div className="flex justify-end mb-2">
                   <button 
                     onClick={() => setShowConfig(true)}
@@ -535,8 +752,16 @@ function HomeContent() {
                 <input 
                   type="text" 
                   value={searchQuery} 
-                  onChange={(e) => setSearchQuery(e.target.value)} 
-                  placeholder="Search market trends..." 
+                  onChange={(e) => { setSearchQuery(e.target.value); setShowSuggestions(true); }} 
+                  onFocus={() => setShowSuggestions(true)}
+                  onBlur={() => setShowSuggestions(false)}
+                  onKeyDown={handleSearchKeyDown}
+                  role="combobox"
+                  aria-expanded={showSuggestions && suggestions.length > 0}
+                  aria-controls="search-suggestions"
+                  aria-activedescendant={highlightedSuggestion >= 0 ? `search-suggestion-${highlightedSuggestion}` : undefined}
+                  autoComplete="off"
+                  placeholder="Search market trends... (e.g. bitcoin volume:>1m ends:<march)" 
                   className="relative w-full px-10 py-3 rounded-xl bg-white dark:bg-neutral-900 border-2 border-neutral-300 dark:border-neutral-800 focus:border-blue-500 outline-none text-base font-medium transition-all text-neutral-900 dark:text-white shadow-lg" 
                 />
                 <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-neutral-400" />
@@ -546,9 +771,86 @@ function HomeContent() {
                 >
                   Search
                 </button>
+                {showSuggestions && suggestions.length > 0 && (
+                  <ul id="search-suggestions" role="listbox" className="absolute left-0 right-0 top-full mt-2 z-30 py-1 bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-xl shadow-xl overflow-hidden">
+                    {suggestions.map((suggestion, i) => {
+                      const Icon = suggestion.type === 'query' ? History : suggestion.type === 'tag' ? TagIcon : CalendarClock;
+                      const countLabel = suggestion.type === 'query' ? `${suggestion.count} searches` : suggestion.type === 'tag' ? `${suggestion.count} events` : `${suggestion.count} markets`;
+                      return (
+                        <li
+                          key={`${suggestion.type}-${suggestion.id ?? suggestion.text}`}
+                          id={`search-suggestion-${i}`}
+                          role="option"
+                          aria-selected={i === highlightedSuggestion}
+                          // mousedown 先于 input 的 blur，阻止默认行为以免下拉框在点击前关闭
+                          onMouseDown={(e) => { e.preventDefault(); selectSuggestion(suggestion); }}
+                          onMouseEnter={() => setHighlightedSuggestion(i)}
+                          className={`flex items-center gap-2 px-3 py-2 cursor-pointer text-sm ${i === highlightedSuggestion ? 'bg-blue-50 dark:bg-blue-500/10' : ''}`}
+                        >
+                          <Icon className="w-3.5 h-3.5 shrink-0 text-neutral-400" />
+                          <span className="flex-1 truncate text-neutral-900 dark:text-white">{suggestion.text}</span>
+                          <span className="text-[10px] uppercase tracking-wide text-neutral-400">{suggestion.type}</span>
+                          <span className="text-[10px] text-neutral-400 w-20 text-right">{countLabel}</span>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
               </form>
             </div>
 
+            {queryFilterLabels.length > 0 && (
+              <div className="w-full max-w-2xl -mt-4 mb-6 flex flex-wrap gap-1.5">
+                {queryFilterLabels.map((label) => (
+                  <span key={label} className="px-2 py-0.5 rounded-full bg-blue-500/10 border border-blue-500/20 text-[10px] font-bold text-blue-600 dark:text-blue-400">
+                    {label}
+                  </span>
+                ))}
+              </div>
+            )}
+
+            {interpretation && (interpretation.source === 'llm' || interpretation.translatedQuery || interpretationLabels.length > 0) && (
+              <div className="w-full max-w-2xl -mt-4 mb-6 p-3 bg-white/60 dark:bg-neutral-900/60 border border-neutral-200 dark:border-white/10 rounded-xl flex items-start justify-between gap-3">
+                <div className="min-w-0 space-y-1.5">
+                  <p className="text-[11px] text-neutral-600 dark:text-neutral-400">
+                    Searching for <span className="font-bold text-neutral-900 dark:text-white">{interpretation.semanticQuery || "all markets"}</span>
+                    {interpretation.translatedQuery && <span> → <span className="font-bold text-neutral-900 dark:text-white">{interpretation.translatedQuery}</span></span>}
+                    {interpretation.explanation && <span> · {interpretation.explanation}</span>}
+                  </p>
+                  {interpretationLabels.length > 0 && (
+                    <div className="flex flex-wrap gap-1.5">
+                      {interpretationLabels.map((label) => (
+                        <span key={label} className="px-2 py-0.5 rounded-full bg-purple-500/10 border border-purple-500/20 text-[10px] font-bold text-purple-600 dark:text-purple-400">
+                          {label}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                {interpretation.language && interpretation.language !== 'en' && (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      const next = !translateResults;
+                      setTranslateResults(next);
+                      localStorage.setItem("poly_trend_translate_results", next ? "1" : "0");
+                    }}
+                    title="Applies to the next search"
+                    className="shrink-0 px-2 py-1 text-[10px] font-bold text-neutral-500 hover:bg-neutral-500/10 rounded-lg transition-colors"
+                  >
+                    Translate results: {translateResults ? "On" : "Off"}
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => setSearchQuery(formatSearchQuery(fromQueryInterpretation(interpretation)))}
+                  className="shrink-0 px-2 py-1 text-[10px] font-bold text-blue-600 dark:text-blue-400 hover:bg-blue-500/10 rounded-lg transition-colors"
+                >
+                  Edit
+                </button>
+              </div>
+            )}
+
             {error && (
               <div className="w-full max-w-2xl mb-4 p-3 bg-red-50 dark:bg-red-500/10 border border-red-100 dark:border-red-500/20 rounded-xl text-red-600 dark:text-red-400 text-xs font-bold text-center shadow-sm">
                 {error}
@@ -653,7 +955,10 @@ function HomeContent() {
         onClose={() => setShowAIAnalysis(false)}
         query={latestSearchData?.query || ""}
         analysis={aiAnalysis}
-        isLoading={isAnalyzing}
+        isLoading={isAnalyzing && !aiAnalysis?.answer}
+        isStreaming={isAnalyzing && !!aiAnalysis?.answer}
+        onCancel={handleCancelAnalysis}
+        modelName={MODEL_CONFIGS[aiModel].displayName}
       />
     </div>
   );
@@ -1,7 +1,7 @@
 "use client";
 
 import { motion, AnimatePresence } from "framer-motion";
-import { X, Brain, TrendingUp, Activity, Calendar } from "lucide-react";
+import { X, Brain, TrendingUp, Activity, Calendar, Square } from "lucide-react";
 import { MarkdownRenderer } from "./markdown-renderer";
 
 interface AIAnalysisModalProps {
@@ -25,6 +25,10 @@ interface AIAnalysisModalProps {
     timestamp?: string;
   } | null;
   isLoading: boolean;
+  modelName?: string;
+  // 流式输出中：报告逐步渲染，可取消
+  isStreaming?: boolean;
+  onCancel?: () => void;
 }
 
 export function AIAnalysisModal({
@@ -33,6 +37,9 @@ export function AIAnalysisModal({
   query,
   analysis,
   isLoading,
+  modelName = "Gemini",
+  isStreaming = false,
+  onCancel,
 }: AIAnalysisModalProps) {
   return (
     <AnimatePresence>
@@ -64,6 +71,15 @@ export function AIAnalysisModal({
               >
                 <X className="w-5 h-5 text-white" />
               </button>
+              {(isLoading || isStreaming) && onCancel && (
+                <button
+                  onClick={onCancel}
+                  className="absolute top-4 right-16 flex items-center gap-1.5 px-3 py-2 rounded-full bg-white/20 hover:bg-white/30 transition-colors text-white text-xs font-bold"
+                >
+                  <Square className="w-3 h-3 fill-current" />
+                  Stop
+                </button>
+              )}
               <div className="flex items-center gap-3 text-white">
                 <div className="p-3 bg-white/20 rounded-xl backdrop-blur-sm">
                   <Brain className="w-6 h-6" />
@@ -71,7 +87,7 @@ export function AIAnalysisModal({
                 <div>
                   <h2 className="text-2xl font-bold">AI Deep Analysis Report</h2>
                   <p className="text-white/80 text-sm mt-1">
-                    Deep market insights powered by Gemini AI
+                    Deep market insights powered by {modelName}
                   </p>
                 </div>
               </div>
@@ -102,7 +118,7 @@ export function AIAnalysisModal({
                     className="w-16 h-16 border-4 border-purple-500 border-t-transparent rounded-full"
                   />
                   <p className="mt-4 text-gray-600 dark:text-gray-400 text-center font-bold">
-                    Gemini is analyzing market data and sentiment...
+                    {modelName} is analyzing market data and sentiment...
                   </p>
                   <p className="mt-2 text-[10px] text-gray-500 dark:text-gray-500 text-center">
                     Integrating multi-dimensional data and generating a professional report, please wait
@@ -156,7 +172,7 @@ export function AIAnalysisModal({
                       </h3>
                     </div>
                     <div className="text-gray-700 dark:text-gray-300">
-                      <MarkdownRenderer content={analysis.answer} />
+                      <MarkdownRenderer content={analysis.answer} streaming={isStreaming} />
                     </div>
                   </div>
 
@@ -12,6 +12,8 @@ interface Node {
   vx: number;
   vy: number;
   eventId?: string;
+  // 分组：有聚类结果时为 cluster-<id>，否则为 eventId；未分组为 undefined
+  groupId?: string;
   market: MarketData;
   pinned: boolean;
   connectionCount: number;
@@ -24,6 +26,9 @@ interface Edge {
   relationType?: "intra-event" | "inter-event";
   strength: number;
   reason?: string;
+  // 有向边（source 领先 target），lagDays 为领先天数
+  directed?: boolean;
+  lagDays?: number;
 }
 
 interface InsightGraphProps {
@@ -32,8 +37,16 @@ interface InsightGraphProps {
     marketA: MarketData; 
     marketB: MarketData; 
     correlation: number; 
-    relationType?: "intra-event" | "inter-event" 
+    relationType?: "intra-event" | "inter-event";
+    leadLag?: { leader: "a" | "b" | null; lagDays: number } | null;
   }>;
+  // AI 因果解释，pair 为 highCorrelationPairs 中的序号
+  causalRelations?: Array<{ pair: number; reason: string; evidence: "supported" | "contradicted" | "unverified" }>;
+  // 市场聚类结果；提供时按簇着色与布局，否则按事件分组
+  clustering?: {
+    clusters: Array<{ id: number; label: string; size: number; avgCorrelation: number | null; eventCount: number }>;
+    assignments: Record<string, number>;
+  } | null;
 }
 
 // Physics constants
@@ -56,7 +69,16 @@ const EVENT_COLORS = [
   '#f97316', // orange
 ];
 
-export function InsightGraph({ markets, highCorrelationPairs }: InsightGraphProps) {
+// Palette first, then golden-angle hues so any number of clusters stays distinguishable
+export function groupColor(index: number): string {
+  if (index < EVENT_COLORS.length) return EVENT_COLORS[index];
+  return `hsl(${Math.round((index * 137.5) % 360)}, 65%, 55%)`;
+}
+
+// Stable default so the layout effect does not re-run on every render
+const NO_CAUSAL_RELATIONS: NonNullable<InsightGraphProps["causalRelations"]> = [];
+
+export function InsightGraph({ markets, highCorrelationPairs, causalRelations = NO_CAUSAL_RELATIONS, clustering }: InsightGraphProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const svgRef = useRef<SVGSVGElement>(null);
   const animationRef = useRef<number>();
@@ -69,25 +91,31 @@ export function InsightGraph({ markets, highCorrelationPairs }: InsightGraphProp
   const [isDragging, setIsDragging] = useState(false);
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
   
-  // Event grouping
-  const eventGroups = React.useMemo(() => {
+  // Cluster grouping when available, otherwise event grouping
+  const getGroupId = useCallback((m: MarketData): string | undefined => {
+    if (!clustering) return m.eventId;
+    const cluster = clustering.assignments[m.id];
+    return cluster === undefined ? undefined : `cluster-${cluster}`;
+  }, [clustering]);
+
+  const nodeGroups = React.useMemo(() => {
     const groups = new Map<string, MarketData[]>();
     markets.forEach(m => {
-      const key = m.eventId || 'uncategorized';
+      const key = getGroupId(m) || 'uncategorized';
       if (!groups.has(key)) groups.set(key, []);
       groups.get(key)!.push(m);
     });
     return groups;
-  }, [markets]);
+  }, [markets, getGroupId]);
 
-  const eventIds = Array.from(eventGroups.keys());
+  const groupIds = Array.from(nodeGroups.keys());
   
-  // Get color for event
-  const getEventColor = useCallback((eventId?: string) => {
-    if (!eventId) return '#6b7280'; // gray for uncategorized
-    const index = eventIds.indexOf(eventId);
-    return EVENT_COLORS[index % EVENT_COLORS.length];
-  }, [eventIds]);
+  // Get color for group (clusters keep their own id so the page can match colours)
+  const getGroupColor = useCallback((groupId?: string) => {
+    if (!groupId) return '#6b7280'; // gray for uncategorized
+    if (groupId.startsWith('cluster-')) return groupColor(Number(groupId.slice('cluster-'.length)));
+    return groupColor(groupIds.indexOf(groupId));
+  }, [groupIds]);
 
   // Get node size based on connections and probability - reduced for better visibility
   const getNodeSize = useCallback((node: Node) => {
@@ -109,28 +137,33 @@ export function InsightGraph({ markets, highCorrelationPairs }: InsightGraphProp
     const newEdges: Edge[] = [];
     const connectionCounts = new Map<string, number>();
 
-    // Add correlation edges only
-    highCorrelationPairs.forEach(p => {
+    // Correlation edges; pairs with a significant lead-lag become directed leader → follower edges
+    highCorrelationPairs.forEach((p, idx) => {
       if (p.marketA && p.marketB) {
+        const leader = p.leadLag?.leader;
+        const relation = causalRelations.find(r => r.pair === idx && r.evidence !== "contradicted");
         newEdges.push({
-          source: p.marketA.id,
-          target: p.marketB.id,
-          type: "correlation",
+          source: leader === "b" ? p.marketB.id : p.marketA.id,
+          target: leader === "b" ? p.marketA.id : p.marketB.id,
+          type: leader ? "causality" : "correlation",
           relationType: p.relationType,
-          strength: p.correlation
+          strength: p.correlation,
+          reason: relation?.reason,
+          directed: !!leader,
+          lagDays: leader ? p.leadLag?.lagDays : undefined
         });
         connectionCounts.set(p.marketA.id, (connectionCounts.get(p.marketA.id) || 0) + 1);
         connectionCounts.set(p.marketB.id, (connectionCounts.get(p.marketB.id) || 0) + 1);
       }
     });
 
-    // Initialize nodes with event-based clustering
+    // Initialize nodes around one anchor per group
     const newNodes: Node[] = [];
-    const groupCount = eventGroups.size;
+    const groupCount = nodeGroups.size;
     const groupRadius = Math.min(width, height) * 0.25;
 
     let groupIdx = 0;
-    eventGroups.forEach((groupMarkets, eventId) => {
+    nodeGroups.forEach((groupMarkets) => {
       const angle = (groupIdx / groupCount) * Math.PI * 2;
       const groupX = centerX + groupRadius * Math.cos(angle);
       const groupY = centerY + groupRadius * Math.sin(angle);
@@ -147,6 +180,7 @@ export function InsightGraph({ markets, highCorrelationPairs }: InsightGraphProp
           vx: 0,
           vy: 0,
           eventId: m.eventId,
+          groupId: getGroupId(m),
           market: m,
           pinned: false,
           connectionCount: connectionCounts.get(m.id) || 0
@@ -157,7 +191,7 @@ export function InsightGraph({ markets, highCorrelationPairs }: InsightGraphProp
 
     setNodes(newNodes);
     setEdges(newEdges);
-  }, [markets, highCorrelationPairs, eventGroups]);
+  }, [markets, highCorrelationPairs, causalRelations, nodeGroups, getGroupId]);
 
   // Physics simulation
   useEffect(() => {
@@ -205,9 +239,9 @@ export function InsightGraph({ markets, highCorrelationPairs }: InsightGraphProp
             }
           });
 
-          // Event clustering force
-          if (n1.eventId) {
-            const eventNodes = newNodes.filter(n => n.eventId === n1.eventId && n.id !== n1.id);
+          // Group clustering force
+          if (n1.groupId) {
+            const eventNodes = newNodes.filter(n => n.groupId === n1.groupId && n.id !== n1.id);
             if (eventNodes.length > 0) {
               let avgX = 0, avgY = 0;
               eventNodes.forEach(n => {
@@ -372,6 +406,23 @@ export function InsightGraph({ markets, highCorrelationPairs }: InsightGraphProp
           transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})`
         }}
       >
+        <defs>
+          {[["positive", "#10b981"], ["negative", "#ef4444"]].map(([id, color]) => (
+            <marker
+              key={id}
+              id={`insight-arrow-${id}`}
+              viewBox="0 0 10 10"
+              refX="9"
+              refY="5"
+              markerWidth="6"
+              markerHeight="6"
+              orient="auto-start-reverse"
+            >
+              <path d="M 0 0 L 10 5 L 0 10 z" fill={color} />
+            </marker>
+          ))}
+        </defs>
+
         {/* Render edges */}
         {edges.map((edge, i) => {
           const sourceNode = nodes.find(n => n.id === edge.source);
@@ -380,18 +431,31 @@ export function InsightGraph({ markets, highCorrelationPairs }: InsightGraphProp
 
           const isIntraEvent = edge.relationType === 'intra-event';
           const isHighlighted = highlightedNodes.has(edge.source) && highlightedNodes.has(edge.target);
+
+          // Stop directed edges at the target node's border so the arrowhead stays visible
+          let x2 = targetNode.x;
+          let y2 = targetNode.y;
+          if (edge.directed) {
+            const dx = targetNode.x - sourceNode.x;
+            const dy = targetNode.y - sourceNode.y;
+            const dist = Math.sqrt(dx * dx + dy * dy) || 1;
+            const offset = Math.min(dist / 2, getNodeSize(targetNode) + 4);
+            x2 -= (dx / dist) * offset;
+            y2 -= (dy / dist) * offset;
+          }
           
           return (
             <line
               key={`edge-${i}`}
               x1={sourceNode.x}
               y1={sourceNode.y}
-              x2={targetNode.x}
-              y2={targetNode.y}
+              x2={x2}
+              y2={y2}
               stroke={edge.strength > 0 ? "#10b981" : "#ef4444"}
-              strokeWidth={isIntraEvent ? 1 : (isHighlighted ? 2.5 : Math.abs(edge.strength) * 2)}
-              strokeOpacity={isHighlighted ? 0.7 : (isIntraEvent ? 0.15 : 0.3)}
-              strokeDasharray={isIntraEvent ? "2,2" : "4,4"}
+              strokeWidth={isIntraEvent ? 1 : (isHighlighted ? 2.5 : Math.max(Math.abs(edge.strength) * 2, edge.directed ? 1.5 : 0))}
+              strokeOpacity={isHighlighted ? 0.7 : edge.directed ? 0.6 : (isIntraEvent ? 0.15 : 0.3)}
+              strokeDasharray={edge.directed ? undefined : isIntraEvent ? "2,2" : "4,4"}
+              markerEnd={edge.directed ? `url(#insight-arrow-${edge.strength > 0 ? "positive" : "negative"})` : undefined}
             />
           );
         })}
@@ -436,8 +500,8 @@ export function InsightGraph({ markets, highCorrelationPairs }: InsightGraphProp
                 width: size * 2,
                 height: size * 2,
                 opacity: isHighlighted ? 1 : 0.3,
-                backgroundColor: getEventColor(node.eventId),
-                borderColor: isSelected ? '#ffffff' : getEventColor(node.eventId)
+                backgroundColor: getGroupColor(node.groupId),
+                borderColor: isSelected ? '#ffffff' : getGroupColor(node.groupId)
               }}
               className={`absolute -translate-x-1/2 -translate-y-1/2 rounded-2xl flex items-center justify-center cursor-pointer transition-all hover:scale-110 z-10 ${
                 isSelected 
@@ -473,7 +537,7 @@ export function InsightGraph({ markets, highCorrelationPairs }: InsightGraphProp
             <div className="flex items-start justify-between mb-3">
               <div 
                 className="w-3 h-3 rounded-full flex-shrink-0 mt-1"
-                style={{ backgroundColor: getEventColor(selectedNode.eventId) }}
+                style={{ backgroundColor: getGroupColor(selectedNode.groupId) }}
               />
               <button 
                 onClick={(e) => {
@@ -500,6 +564,21 @@ export function InsightGraph({ markets, highCorrelationPairs }: InsightGraphProp
               </div>
             )}
             
+            {(() => {
+              const cluster = clustering?.clusters.find(c => `cluster-${c.id}` === selectedNode.groupId);
+              if (!cluster) return null;
+              return (
+                <div className="mb-3 p-2 bg-neutral-100 dark:bg-neutral-800 rounded-lg">
+                  <span className="text-[8px] font-black text-neutral-400 uppercase block mb-1">所属聚类</span>
+                  <p className="text-[10px] font-bold leading-tight line-clamp-2">{cluster.label}</p>
+                  <p className="text-[9px] text-neutral-500 mt-1">
+                    {cluster.size} 个市场 · {cluster.eventCount} 个事件
+                    {cluster.avgCorrelation !== null && ` · 平均相关 ${cluster.avgCorrelation.toFixed(2)}`}
+                  </p>
+                </div>
+              );
+            })()}
+            
             <div className="grid grid-cols-2 gap-2 text-[10px] mb-3">
               <div>
                 <span className="text-neutral-400 uppercase font-bold block mb-1">交易量</span>
@@ -511,6 +590,26 @@ export function InsightGraph({ markets, highCorrelationPairs }: InsightGraphProp
               </div>
             </div>
             
+            {edges.some(e => e.directed && (e.source === selectedNode.id || e.target === selectedNode.id)) && (
+              <div className="mb-3 flex flex-col gap-1.5">
+                <span className="text-[8px] font-black text-neutral-400 uppercase">领先-滞后</span>
+                {edges
+                  .filter(e => e.directed && (e.source === selectedNode.id || e.target === selectedNode.id))
+                  .map((e, i) => {
+                    const leads = e.source === selectedNode.id;
+                    const other = nodes.find(n => n.id === (leads ? e.target : e.source));
+                    return (
+                      <div key={i} className="text-[10px] leading-tight" title={e.reason}>
+                        <span className={`font-black ${leads ? "text-blue-500" : "text-amber-500"}`}>
+                          {leads ? "领先" : "跟随"} {(e.lagDays ?? 0).toFixed(1)} 天
+                        </span>{" "}
+                        <span className="text-neutral-500 line-clamp-1">{other?.label}</span>
+                      </div>
+                    );
+                  })}
+              </div>
+            )}
+            
             <a
               href={`https://polymarket.com/event/${selectedNode.market.slug}`}
               target="_blank"
@@ -551,20 +650,45 @@ export function InsightGraph({ markets, highCorrelationPairs }: InsightGraphProp
             <div className="w-3 h-0.5 border-t border-neutral-400 border-dashed"></div>
             <span className="text-[10px] font-bold">同事件</span>
           </div>
+          <div className="flex items-center gap-2">
+            <span className="text-[10px] font-black text-neutral-500 leading-none">→</span>
+            <span className="text-[10px] font-bold">领先 → 跟随</span>
+          </div>
         </div>
         
-        {eventIds.length > 1 && eventIds.length <= 8 && (
+        {clustering && clustering.clusters.length > 0 && (
+          <>
+            <div className="border-t border-neutral-200 dark:border-neutral-800 my-2"></div>
+            <div className="text-[8px] font-black text-neutral-400 uppercase mb-2">市场聚类</div>
+            <div className="grid grid-cols-2 gap-x-4 gap-y-1 max-h-32 overflow-y-auto">
+              {clustering.clusters.map(cluster => (
+                <div key={cluster.id} className="flex items-center gap-2">
+                  <div 
+                    className="w-2 h-2 rounded-full flex-shrink-0"
+                    style={{ backgroundColor: groupColor(cluster.id) }}
+                  />
+                  <span className="text-[9px] font-medium truncate" title={cluster.label}>
+                    {cluster.label.length > 20 ? cluster.label.substring(0, 20) + '...' : cluster.label}
+                  </span>
+                  <span className="text-[9px] text-neutral-400 flex-shrink-0">{cluster.size}</span>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        {!clustering && groupIds.length > 1 && groupIds.length <= 8 && (
           <>
             <div className="border-t border-neutral-200 dark:border-neutral-800 my-2"></div>
             <div className="text-[8px] font-black text-neutral-400 uppercase mb-2">事件分组</div>
             <div className="grid grid-cols-2 gap-x-4 gap-y-1 max-h-32 overflow-y-auto">
-              {Array.from(eventGroups.entries()).slice(0, 8).map(([eventId, markets]) => {
+              {Array.from(nodeGroups.entries()).slice(0, 8).map(([eventId, markets]) => {
                 const eventTitle = markets[0]?.eventTitle || eventId;
                 return (
                   <div key={eventId} className="flex items-center gap-2">
                     <div 
                       className="w-2 h-2 rounded-full flex-shrink-0"
-                      style={{ backgroundColor: getEventColor(eventId) }}
+                      style={{ backgroundColor: getGroupColor(eventId) }}
                     />
                     <span className="text-[9px] font-medium truncate" title={eventTitle}>
                       {eventTitle.length > 20 ? eventTitle.substring(0, 20) + '...' : eventTitle}
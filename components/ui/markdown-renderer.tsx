@@ -3,8 +3,9 @@
 /**
  * 简单的 Markdown 渲染器
  * 支持基本的 Markdown 语法，无需外部依赖
+ * streaming 为 true 时内容仍在增量到达：末尾显示光标
  */
-export function MarkdownRenderer({ content }: { content: string }) {
+export function MarkdownRenderer({ content, streaming = false }: { content: string; streaming?: boolean }) {
   if (!content) return null;
 
   // 处理 Markdown 格式
@@ -171,5 +172,12 @@ export function MarkdownRenderer({ content }: { content: string }) {
   flushList();
   flushTable();
 
-  return <div className="markdown-content">{elements}</div>;
+  return (
+    <div className="markdown-content">
+      {elements}
+      {streaming && (
+        <span className="inline-block w-2 h-4 align-middle bg-purple-500 animate-pulse rounded-sm" />
+      )}
+    </div>
+  );
 }
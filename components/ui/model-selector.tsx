@@ -3,7 +3,7 @@
 import React, { useState, useEffect } from "react";
 import { Brain, Sparkles, X, Settings } from "lucide-react";
 
-export type AIModel = "gemini" | "claude" | "chatgpt" | "mirothinker";
+export type AIModel = "gemini" | "claude" | "chatgpt" | "local" | "mirothinker";
 
 interface ModelConfig {
   name: string;
@@ -13,7 +13,7 @@ interface ModelConfig {
   placeholder: string;
 }
 
-const MODEL_CONFIGS: Record<AIModel, ModelConfig> = {
+export const MODEL_CONFIGS: Record<AIModel, ModelConfig> = {
   gemini: {
     name: "gemini",
     displayName: "Gemini",
@@ -35,6 +35,13 @@ const MODEL_CONFIGS: Record<AIModel, ModelConfig> = {
     requiresApiKey: true,
     placeholder: "输入 OpenAI API Key",
   },
+  local: {
+    name: "local",
+    displayName: "Local LLM (Ollama/vLLM)",
+    icon: "🖥️",
+    requiresApiKey: false,
+    placeholder: "OpenAI 兼容的本地服务",
+  },
   mirothinker: {
     name: "mirothinker",
     displayName: "MiroThinker (本地)",
@@ -1,35 +1,101 @@
 "use client";
 
-import React, { useMemo, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import { motion } from "framer-motion";
 
 interface MultiPriceChartProps {
   groups: Array<{
-    marketA: { title: string; chartData: any[] };
-    marketB: { title: string; chartData: any[] };
+    marketA: { title: string; chartData: any[]; clobTokenId?: string };
+    marketB: { title: string; chartData: any[]; clobTokenId?: string };
     correlation: number;
   }>;
+  // 滚动相关叠加层使用的历史窗口与相关性计算方式
+  interval?: string;
+  method?: string;
 }
 
-export function MultiPriceChart({ groups }: MultiPriceChartProps) {
+interface RollingOverlay {
+  points: Array<{ time: string; correlation: number | null }>;
+  changePoints: Array<{ time: string; type: string; before: number; after: number; pValue: number }>;
+  window: number;
+}
+
+const REGIME_LABELS: Record<string, { label: string; color: string }> = {
+  emerged: { label: "关系出现", color: "#10b981" },
+  broke: { label: "关系消失", color: "#ef4444" },
+  reversed: { label: "方向反转", color: "#f59e0b" },
+  shifted: { label: "强度变化", color: "#6b7280" },
+};
+
+export function MultiPriceChart({ groups, interval = "max", method = "log-odds-change" }: MultiPriceChartProps) {
   const [activeIndex, setActiveSetIndex] = useState(0);
+  const [showRolling, setShowRolling] = useState(true);
+  const [rolling, setRolling] = useState<RollingOverlay | null>(null);
+  const [isRollingLoading, setIsRollingLoading] = useState(false);
+  const rollingCache = useRef(new Map<string, RollingOverlay | null>());
   const currentGroup = groups[activeIndex];
 
+  // 切换市场对时拉取滚动相关与变点（按 token / 窗口 / 方式缓存）
+  useEffect(() => {
+    const tokenA = currentGroup?.marketA.clobTokenId;
+    const tokenB = currentGroup?.marketB.clobTokenId;
+    if (!showRolling || !tokenA || !tokenB) {
+      setRolling(null);
+      setIsRollingLoading(false);
+      return;
+    }
+    const key = `${tokenA}:${tokenB}:${interval}:${method}`;
+    if (rollingCache.current.has(key)) {
+      setRolling(rollingCache.current.get(key) ?? null);
+      setIsRollingLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsRollingLoading(true);
+    const params = new URLSearchParams({ tokenA, tokenB, interval, method });
+    fetch(`/api/polymarket/insights/rolling?${params.toString()}`)
+      .then((res) => res.json())
+      .then((result) => {
+        if (!result.success) throw new Error(result.error || "Failed to load rolling correlation");
+        rollingCache.current.set(key, result.rolling);
+        if (!cancelled) setRolling(result.rolling);
+      })
+      .catch((error) => {
+        console.error("Failed to load rolling correlation:", error);
+        if (!cancelled) setRolling(null);
+      })
+      .finally(() => {
+        if (!cancelled) setIsRollingLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [currentGroup, interval, method, showRolling]);
+
   const height = 200;
   const width = 1000;
 
+  // 两条序列的粒度可能不同（如 1 小时 vs 1 天），横轴按时间而不是下标对齐
+  const timeRange = useMemo(() => {
+    if (!currentGroup) return null;
+    const times = [...(currentGroup.marketA.chartData || []), ...(currentGroup.marketB.chartData || [])]
+      .map((d) => new Date(d.date).getTime())
+      .filter((t) => Number.isFinite(t));
+    if (times.length < 2) return null;
+    return { min: Math.min(...times), max: Math.max(...times) };
+  }, [currentGroup]);
+
   const renderPath = (data: any[], color: string) => {
     if (!data || data.length < 2) return null;
 
-    const minPrice = 0;
-    const maxPrice = 1; // 概率 0-1
-    const range = 1;
-
+    const range = 1; // 概率 0-1
+    const span = timeRange ? timeRange.max - timeRange.min || 1 : 0;
     const xStep = width / (data.length - 1);
 
     const points = data
       .map((d, i) => {
-        const x = i * xStep;
+        const x = timeRange ? ((new Date(d.date).getTime() - timeRange.min) / span) * width : i * xStep;
         const y = height - (d.price / range) * height;
         return `${x},${y}`;
       })
@@ -50,6 +116,56 @@ export function MultiPriceChart({ groups }: MultiPriceChartProps) {
     );
   };
 
+  const timeToX = (time: string) => {
+    if (!timeRange) return null;
+    const t = new Date(time).getTime();
+    return ((t - timeRange.min) / (timeRange.max - timeRange.min || 1)) * width;
+  };
+
+  // 滚动相关系数 [-1, 1] 映射到图表高度，窗口数据不足（null）处断开
+  const renderRollingOverlay = () => {
+    if (!rolling || !timeRange) return null;
+    const runs: string[][] = [[]];
+    rolling.points.forEach((point) => {
+      const x = timeToX(point.time);
+      if (point.correlation === null || x === null) {
+        if (runs[runs.length - 1].length > 0) runs.push([]);
+        return;
+      }
+      runs[runs.length - 1].push(`${x},${((1 - point.correlation) / 2) * height}`);
+    });
+
+    return (
+      <>
+        <line x1="0" y1={height / 2} x2={width} y2={height / 2} stroke="#f59e0b" strokeOpacity="0.3" strokeDasharray="6,6" />
+        {runs.filter((run) => run.length > 1).map((run, i) => (
+          <polyline
+            key={`rolling-${i}`}
+            fill="none"
+            stroke="#f59e0b"
+            strokeWidth="2"
+            strokeDasharray="8,4"
+            strokeLinejoin="round"
+            points={run.join(" ")}
+          />
+        ))}
+        {rolling.changePoints.map((change, i) => {
+          const x = timeToX(change.time);
+          if (x === null) return null;
+          return (
+            <line
+              key={`change-${i}`}
+              x1={x} y1="0" x2={x} y2={height}
+              stroke={REGIME_LABELS[change.type]?.color ?? "#6b7280"}
+              strokeWidth="2"
+              strokeOpacity="0.8"
+            />
+          );
+        })}
+      </>
+    );
+  };
+
   if (!groups || groups.length === 0) return null;
 
   return (
@@ -89,8 +205,21 @@ export function MultiPriceChart({ groups }: MultiPriceChartProps) {
                 <div className="w-3 h-3 rounded-full bg-purple-500"></div>
                 <span className="text-[10px] font-bold">市场 B</span>
               </div>
+              {showRolling && rolling && (
+                <div className="flex items-center gap-2">
+                  <div className="w-3 h-0.5 border-t-2 border-amber-500 border-dashed"></div>
+                  <span className="text-[10px] font-bold">滚动相关（{rolling.window} 期窗口）</span>
+                </div>
+              )}
             </div>
-            <span className="text-[10px] text-neutral-400 font-medium italic">叠加趋势分析</span>
+            <button
+              onClick={() => setShowRolling((v) => !v)}
+              className={`text-[10px] font-bold px-2 py-1 rounded-lg transition-colors ${
+                showRolling ? "bg-amber-500/10 text-amber-600" : "text-neutral-400 hover:text-neutral-600"
+              }`}
+            >
+              {isRollingLoading ? "计算中..." : showRolling ? "隐藏滚动相关" : "显示滚动相关"}
+            </button>
           </div>
 
           <div className="relative w-full h-[200px] bg-neutral-50 dark:bg-neutral-950/50 rounded-2xl border border-neutral-100 dark:border-neutral-800 p-4">
@@ -110,6 +239,7 @@ export function MultiPriceChart({ groups }: MultiPriceChartProps) {
                 <>
                   {renderPath(currentGroup.marketA.chartData, "#3b82f6")}
                   {renderPath(currentGroup.marketB.chartData, "#a855f7")}
+                  {showRolling && renderRollingOverlay()}
                 </>
               )}
             </svg>
@@ -120,7 +250,32 @@ export function MultiPriceChart({ groups }: MultiPriceChartProps) {
               <span>50%</span>
               <span>0%</span>
             </div>
+            {showRolling && rolling && (
+              <div className="absolute right-2 top-2 bottom-2 flex flex-col justify-between text-[8px] text-amber-500 font-bold pointer-events-none">
+                <span>+1</span>
+                <span>0</span>
+                <span>-1</span>
+              </div>
+            )}
           </div>
+
+          {showRolling && rolling && rolling.changePoints.length > 0 && (
+            <div className="mt-3 flex flex-col gap-1">
+              {rolling.changePoints.map((change, i) => {
+                const regime = REGIME_LABELS[change.type] ?? REGIME_LABELS.shifted;
+                return (
+                  <div key={i} className="flex items-center gap-2 text-[10px]">
+                    <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: regime.color }} />
+                    <span className="font-bold text-neutral-500">{new Date(change.time).toLocaleDateString()}</span>
+                    <span className="font-black" style={{ color: regime.color }}>{regime.label}</span>
+                    <span className="text-neutral-400">
+                      r {change.before.toFixed(2)} → {change.after.toFixed(2)}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
           
           <div className="mt-4 p-4 bg-amber-50 dark:bg-amber-900/10 rounded-xl border border-amber-100 dark:border-amber-900/30">
             <p className="text-[10px] text-amber-700 dark:text-amber-400 leading-relaxed italic">
@@ -0,0 +1,37 @@
+/**
+ * Admin Auth
+ * 管理接口鉴权：设置 ADMIN_TOKEN 时要求 Authorization: Bearer <token>（或 x-admin-token 头）；
+ * 未设置时仅在非生产环境开放，避免部署后任何人都能修改搜索配置
+ */
+
+import { timingSafeEqual } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * 校验管理请求，未通过时返回应直接响应的错误，通过时返回 null
+ */
+export function checkAdminRequest(request: NextRequest): NextResponse | null {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token) {
+    if (process.env.NODE_ENV !== "production") return null;
+    return NextResponse.json(
+      { success: false, error: "Admin API is disabled. Set ADMIN_TOKEN to enable it." },
+      { status: 403 }
+    );
+  }
+
+  const header = request.headers.get("authorization");
+  const provided = header?.startsWith("Bearer ")
+    ? header.slice("Bearer ".length).trim()
+    : request.headers.get("x-admin-token") ?? "";
+  if (!safeEqual(provided, token)) {
+    return NextResponse.json({ success: false, error: "Invalid admin token" }, { status: 401 });
+  }
+  return null;
+}
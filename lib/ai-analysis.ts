@@ -0,0 +1,109 @@
+/**
+ * AI 深度分析报告
+ * 统计计算与 Prompt 构建，由 /api/ai/analyze 与其流式版本共用
+ */
+
+import type { ChatOptions } from './llm-provider';
+import { describeOrderBook } from './order-book';
+import type { OutcomePrice } from '@/types/polymarket';
+
+export interface AnalysisStatistics {
+  totalVolume: number;
+  averageProbability: number;
+  highConfidenceMarkets: number;
+}
+
+export const ANALYSIS_CHAT_OPTIONS: ChatOptions = {
+  system: "You are a professional market analyst, skilled in analyzing prediction market data and providing investment advice.",
+  maxTokens: 4096,
+};
+
+// 解析 volume 字符串，例如 "$1.2M", "$500K", "$100"
+function parseVolume(volume: unknown): number {
+  if (typeof volume === 'number') return volume;
+  if (typeof volume !== 'string') return 0;
+  const clean = volume.replace('$', '').replace(/,/g, '');
+  if (clean.endsWith('M')) return parseFloat(clean) * 1000000;
+  if (clean.endsWith('K')) return parseFloat(clean) * 1000;
+  return parseFloat(clean) || 0;
+}
+
+/**
+ * 计算市场统计信息（前端未传递时使用）
+ */
+export function calculateAnalysisStatistics(markets: any[]): AnalysisStatistics {
+  const totalVolume = markets.reduce((sum: number, m: any) => sum + parseVolume(m.volume), 0);
+
+  const averageProbability = markets.length > 0
+    ? markets.reduce((sum: number, m: any) => sum + (m.probability || 0), 0) / markets.length / 100
+    : 0;
+
+  const highConfidenceMarkets = markets.filter((m: any) => (m.probability || 0) > 80 || (m.probability || 0) < 20).length;
+
+  return { totalVolume, averageProbability, highConfidenceMarkets };
+}
+
+export function logAnalysisPayload(query: string, model: string, markets: any[], statistics: AnalysisStatistics): void {
+  console.log("📦 [PACKAGED DATA FOR AI ANALYSIS]");
+  console.log(JSON.stringify({
+    query,
+    model,
+    marketCount: markets.length,
+    statistics,
+    markets: markets.map((m: any) => ({
+      title: m.title,
+      probability: m.probability,
+      outcome: m.outcome,
+      volume: m.volume,
+      outcomes: m.outcomes,
+      outcomePrices: m.outcomePrices,
+      orderBook: m.orderBook
+    }))
+  }, null, 2));
+}
+
+// 每个 outcome 的价格与买卖价，如 "Yes: 62.5% (bid 62.0% / ask 63.0%)"
+function formatOutcomePrices(m: any): string[] | undefined {
+  if (!Array.isArray(m.outcomePrices) || m.outcomePrices.length === 0) return undefined;
+  return m.outcomePrices.map((o: OutcomePrice) => {
+    if (o.price === null) return `${o.outcome}: no quote`;
+    const spread = o.bid !== null && o.ask !== null ? ` (bid ${o.bid.toFixed(1)}% / ask ${o.ask.toFixed(1)}%)` : "";
+    return `${o.outcome}: ${o.price.toFixed(1)}%${spread}`;
+  });
+}
+
+/**
+ * 构建分析 Prompt（所有 Provider 共用）
+ */
+export function buildAnalysisPrompt(query: string, markets: any[], statistics: AnalysisStatistics): string {
+  return `You are a professional market analyst. Please analyze the following Polymarket prediction market data.
+The data includes direct results from the search query (Hard Match) and selected markets from multiple related fields (Tag Selection).
+Each market lists the price of every outcome; "probability" is the price of the first outcome.
+"liquidity" summarizes the order book of the first outcome: treat prices of thin or empty books as weak signals.
+
+Query: ${query}
+Total Markets Analyzed: ${markets.length}
+Total Volume: $${statistics.totalVolume.toLocaleString()}
+Average Probability: ${(statistics.averageProbability * 100).toFixed(1)}%
+High Confidence Markets: ${statistics.highConfidenceMarkets}
+
+Here is the integrated prediction market data (JSON format):
+${JSON.stringify(markets.map((m: any) => ({
+  title: m.title,
+  probability: `${(m.probability).toFixed(1)}%`,
+  outcomes: formatOutcomePrices(m),
+  liquidity: m.orderBook ? describeOrderBook(m.orderBook) : undefined,
+  volume: m.volume,
+  category_context: m.reasoning || "Direct Search"
+})), null, 2)}
+
+Please provide a deep analysis report based on this multi-dimensional data:
+1. **Macro Market Sentiment**: Analyze the overall trend by combining hard match and multi-dimensional tag data.
+2. **Multi-dimensional Findings**:
+   - Identify connections between different tag areas (e.g., Crypto, Politics, Tech, etc.).
+   - Highlight 3-5 most representative or unusual markets.
+3. **Risks and Uncertainties**: Evaluate the credibility of the current data and potential volatility risks.
+4. **Decision/Strategic Recommendations**: Integrated strategy recommendations based on the data.
+
+Please answer in English, using professional Markdown format.`;
+}
@@ -0,0 +1,268 @@
+/**
+ * BM25 Lexical Index
+ * 进程内倒排索引：多字段加权 BM25 打分，支持 "精确短语" 与前缀（term*）查询，中文按双字切分
+ */
+
+import { cjkBigrams, isStopWord, splitText, stemWord, tokenize } from "./text-tokenizer";
+
+export interface Bm25Options {
+  // 字段名 → 权重，如 { question: 2, eventTitle: 1 }
+  fields: Record<string, number>;
+  k1?: number;
+  b?: number;
+}
+
+export interface Bm25SearchOptions {
+  limit?: number;
+  // 最后一个词按前缀匹配（边输入边搜索）
+  prefixLastTerm?: boolean;
+}
+
+export interface Bm25Hit {
+  id: string;
+  score: number;
+  // 命中的索引词项（前缀查询展开后的实际词项）
+  matchedTerms: string[];
+}
+
+interface QueryTerm {
+  exact?: string;
+  prefix?: string;
+}
+
+export interface ParsedQuery {
+  terms: QueryTerm[];
+  phrases: string[][];
+}
+
+interface Posting {
+  doc: number;
+  field: number;
+  positions: number[];
+}
+
+// 前缀查询最多展开的词项数
+const MAX_PREFIX_EXPANSIONS = 50;
+const PHRASE_PATTERN = /["“”]([^"“”]+)["“”]/g;
+
+/**
+ * 解析查询：引号内为短语（必须连续出现），以 * 结尾的词为前缀，其余为普通词项
+ */
+export function parseQuery(query: string, prefixLastTerm: boolean = false): ParsedQuery {
+  const phrases: string[][] = [];
+  const terms: QueryTerm[] = [];
+
+  const rest = query.replace(PHRASE_PATTERN, (_, phrase: string) => {
+    const tokens = tokenize(phrase);
+    if (tokens.length > 0) {
+      phrases.push(tokens);
+      tokens.forEach((token) => terms.push({ exact: token }));
+    }
+    return " ";
+  });
+
+  const rawWords = rest.split(/\s+/).filter(Boolean);
+  rawWords.forEach((raw, i) => {
+    const isPrefix = raw.endsWith("*");
+    const segments = splitText(isPrefix ? raw.slice(0, -1) : raw);
+    segments.forEach((segment, j) => {
+      if (segment.type === "cjk") {
+        cjkBigrams(segment.value).forEach((token) => terms.push({ exact: token }));
+        return;
+      }
+      const lastSegment = i === rawWords.length - 1 && j === segments.length - 1;
+      if (isPrefix && j === segments.length - 1) {
+        terms.push({ prefix: segment.value });
+      } else if (prefixLastTerm && lastSegment) {
+        // 输入中的最后一个词可能不完整：既按完整词匹配，也按前缀匹配（停用词同样可能是前缀）
+        terms.push({ exact: isStopWord(segment.value) ? undefined : stemWord(segment.value), prefix: segment.value });
+      } else if (!isStopWord(segment.value)) {
+        terms.push({ exact: stemWord(segment.value) });
+      }
+    });
+  });
+
+  return { terms, phrases };
+}
+
+export class Bm25Index {
+  private readonly fieldNames: string[];
+  private readonly fieldWeights: number[];
+  private readonly k1: number;
+  private readonly b: number;
+
+  private ids: string[] = [];
+  private lengths: number[][] = []; // doc → 各字段词项数
+  private totalLengths: number[];
+  private postings = new Map<string, Posting[]>();
+  private docFrequency = new Map<string, number>();
+  private vocabulary: string[] | null = null; // 排序后的词表（前缀查询时惰性构建）
+
+  constructor(options: Bm25Options) {
+    this.fieldNames = Object.keys(options.fields);
+    this.fieldWeights = this.fieldNames.map((name) => options.fields[name]);
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+    this.totalLengths = this.fieldNames.map(() => 0);
+  }
+
+  get size(): number {
+    return this.ids.length;
+  }
+
+  /**
+   * 添加文档（字段缺失视为空）
+   */
+  add(id: string, fields: Record<string, string | undefined>): void {
+    const doc = this.ids.length;
+    this.ids.push(id);
+    this.vocabulary = null;
+
+    const seen = new Set<string>();
+    const lengths = this.fieldNames.map((name, field) => {
+      const tokens = tokenize(fields[name] || "");
+      const positions = new Map<string, number[]>();
+      tokens.forEach((token, position) => {
+        const list = positions.get(token);
+        if (list) list.push(position);
+        else positions.set(token, [position]);
+      });
+      positions.forEach((list, token) => {
+        let termPostings = this.postings.get(token);
+        if (!termPostings) {
+          termPostings = [];
+          this.postings.set(token, termPostings);
+        }
+        termPostings.push({ doc, field, positions: list });
+        if (!seen.has(token)) {
+          seen.add(token);
+          this.docFrequency.set(token, (this.docFrequency.get(token) || 0) + 1);
+        }
+      });
+      this.totalLengths[field] += tokens.length;
+      return tokens.length;
+    });
+    this.lengths.push(lengths);
+  }
+
+  private idf(term: string): number {
+    const n = this.ids.length;
+    const df = this.docFrequency.get(term) || 0;
+    return Math.log(1 + (n - df + 0.5) / (df + 0.5));
+  }
+
+  // 词表中以 prefix 开头的词项（二分查找起点）
+  private expandPrefix(prefix: string): string[] {
+    if (!this.vocabulary) {
+      this.vocabulary = Array.from(this.postings.keys()).sort();
+    }
+    const vocabulary = this.vocabulary;
+    let lo = 0;
+    let hi = vocabulary.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (vocabulary[mid] < prefix) lo = mid + 1;
+      else hi = mid;
+    }
+    const matches: string[] = [];
+    for (let i = lo; i < vocabulary.length && vocabulary[i].startsWith(prefix); i++) {
+      matches.push(vocabulary[i]);
+    }
+    // 词项过多时优先保留高频词，避免 "a*" 之类的前缀拖慢查询
+    return matches
+      .sort((x, y) => (this.docFrequency.get(y) || 0) - (this.docFrequency.get(x) || 0))
+      .slice(0, MAX_PREFIX_EXPANSIONS);
+  }
+
+  // 单个词项对各文档的 BM25 得分（多字段加权求和）
+  private scoreTerm(term: string): Map<number, number> {
+    const scores = new Map<number, number>();
+    const postings = this.postings.get(term);
+    if (!postings) return scores;
+    const idf = this.idf(term);
+    const n = this.ids.length;
+    for (const { doc, field, positions } of postings) {
+      const tf = positions.length;
+      const avgLength = this.totalLengths[field] / n || 1;
+      const norm = 1 - this.b + (this.b * this.lengths[doc][field]) / avgLength;
+      const score = this.fieldWeights[field] * idf * ((tf * (this.k1 + 1)) / (tf + this.k1 * norm));
+      scores.set(doc, (scores.get(doc) || 0) + score);
+    }
+    return scores;
+  }
+
+  // 短语各词项的位置表：doc → field → positions
+  private phrasePositions(phrase: string[]): Array<Map<number, Map<number, Set<number>>>> {
+    return phrase.map((token) => {
+      const byDoc = new Map<number, Map<number, Set<number>>>();
+      for (const { doc, field, positions } of this.postings.get(token) || []) {
+        let byField = byDoc.get(doc);
+        if (!byField) {
+          byField = new Map();
+          byDoc.set(doc, byField);
+        }
+        byField.set(field, new Set(positions));
+      }
+      return byDoc;
+    });
+  }
+
+  // 文档是否在某个字段中连续包含短语
+  private matchesPhrase(doc: number, positions: Array<Map<number, Map<number, Set<number>>>>): boolean {
+    const first = positions[0].get(doc);
+    if (!first) return false;
+    for (const [field, starts] of Array.from(first.entries())) {
+      for (const start of Array.from(starts)) {
+        if (positions.every((byDoc, offset) => byDoc.get(doc)?.get(field)?.has(start + offset))) {
+          return true;
+        }
+      }
+    }
+    return false;
+  }
+
+  search(query: string, options: Bm25SearchOptions = {}): Bm25Hit[] {
+    const { limit = 50, prefixLastTerm = false } = options;
+    const { terms, phrases } = parseQuery(query, prefixLastTerm);
+    if (terms.length === 0 || this.ids.length === 0) return [];
+
+    const totals = new Map<number, number>();
+    const matched = new Map<number, Set<string>>();
+
+    for (const term of terms) {
+      // 同一查询词的多个展开取最高分，避免前缀展开越多得分越高
+      const candidates = new Set<string>();
+      if (term.exact) candidates.add(term.exact);
+      if (term.prefix) this.expandPrefix(term.prefix).forEach((expanded) => candidates.add(expanded));
+
+      const best = new Map<number, { score: number; term: string }>();
+      candidates.forEach((candidate) => {
+        this.scoreTerm(candidate).forEach((score, doc) => {
+          const current = best.get(doc);
+          if (!current || score > current.score) best.set(doc, { score, term: candidate });
+        });
+      });
+
+      best.forEach(({ score, term: matchedTerm }, doc) => {
+        totals.set(doc, (totals.get(doc) || 0) + score);
+        let docTerms = matched.get(doc);
+        if (!docTerms) {
+          docTerms = new Set();
+          matched.set(doc, docTerms);
+        }
+        docTerms.add(matchedTerm);
+      });
+    }
+
+    const phraseTables = phrases.map((phrase) => this.phrasePositions(phrase));
+    return Array.from(totals.entries())
+      .filter(([doc]) => phraseTables.every((table) => this.matchesPhrase(doc, table)))
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([doc, score]) => ({
+        id: this.ids[doc],
+        score: Math.round(score * 1000) / 1000,
+        matchedTerms: Array.from(matched.get(doc) || []),
+      }));
+  }
+}
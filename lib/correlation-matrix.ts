@@ -0,0 +1,359 @@
+/**
+ * Correlation Matrix
+ * 数百个市场的两两相关矩阵：序列按采样间隔分档，每档对齐到一个时间网格，变化值与有效掩码放进连续的 Float64Array，
+ * 一次遍历累加每对市场的充分统计量（等价于 Z·Zᵀ、Z·Mᵀ、M·Mᵀ 等矩阵乘积）
+ * 每对市场在两者中较粗的那一档网格上计算，与逐对的 correlateSeries 对齐方式一致
+ * 结果以紧凑的 Int8 上三角矩阵（base64）加 Top-K 边列表返回，供关联图谱展示整个搜索结果集；
+ * 显著的边再由 findMarketPairs 补充领先-滞后分析，作为详细市场对
+ */
+
+import type { MarketData, SparklineDataPoint } from "@/types/polymarket";
+import {
+  DEFAULT_PAIR_THRESHOLD,
+  MIN_OVERLAP_POINTS,
+  analyzeLeadLag,
+  logOdds,
+  medianSpacing,
+  type CorrelationMethod,
+  type MarketPair,
+} from "./market-analytics";
+import { correlationConfidenceInterval, correlationPValue } from "./statistics";
+
+export interface CorrelationEdge {
+  a: number; // ids 中的序号
+  b: number;
+  correlation: number;
+  pValue: number;
+  observations: number;
+  start: string; // 双方都有效的首个 / 最后一个时间桶
+  end: string;
+}
+
+export interface CompactCorrelationMatrix {
+  ids: string[];
+  method: CorrelationMethod;
+  // 多数序列所在档位的分桶时长（采样更粗的市场对使用更粗的网格）
+  bucketHours: number;
+  // 上三角（不含对角线）按行展开：round(r × 100) 存为 Int8，MISSING_VALUE 表示数据不足；base64 编码
+  values: string;
+  // |r| 达到阈值且显著的市场对，按 |r| 降序取前 K 个；pinned 的市场对只要数据足够就追加在后
+  edges: CorrelationEdge[];
+}
+
+export interface CorrelationMatrixOptions {
+  method?: CorrelationMethod;
+  minOverlap?: number;
+  minMoves?: number;
+  threshold?: number;
+  alpha?: number;
+  topK?: number;
+  // 不受阈值与显著性限制、始终列入 edges 的市场对（如同事件市场）
+  pinned?: (a: number, b: number) => boolean;
+}
+
+export interface MarketPairOptions {
+  method?: CorrelationMethod;
+  alpha?: number;
+  minOverlap?: number;
+  // 详细市场对的上限（按 |r| 降序，pinned 的市场对不计入）
+  maxPairs?: number;
+  pinned?: (a: number, b: number) => boolean;
+}
+
+type TimedSeries = Array<{ time: number; price: number }>;
+
+interface ChangeGrid {
+  bucketMs: number;
+  rows: number[]; // 网格行 → 原序列序号
+  columns: number;
+  columnBuckets: number[];
+  changes: Float64Array;
+  mask: Float64Array;
+  moved: Float64Array;
+}
+
+export const MISSING_VALUE = -128;
+const DEFAULT_TOP_K = 200;
+const DEFAULT_MIN_MOVES = 5;
+const DEFAULT_MAX_PAIRS = 40;
+// 采样间隔相差不超过 10% 的序列归入同一档
+const SPACING_TOLERANCE = 1.1;
+
+// 上三角（i < j）在按行展开数组中的位置
+export function upperTriangleIndex(i: number, j: number, size: number): number {
+  const [row, col] = i < j ? [i, j] : [j, i];
+  return row * size - (row * (row + 1)) / 2 + (col - row - 1);
+}
+
+function encodeInt8(values: Int8Array): string {
+  const bytes = new Uint8Array(values.buffer, values.byteOffset, values.byteLength);
+  let binary = "";
+  const CHUNK = 0x8000;
+  for (let i = 0; i < bytes.length; i += CHUNK) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + CHUNK)));
+  }
+  return btoa(binary);
+}
+
+/**
+ * 解码紧凑矩阵，返回按 (i, j) 取相关系数的函数（对角线为 1，数据不足为 null）
+ */
+export function decodeCorrelationMatrix(matrix: Pick<CompactCorrelationMatrix, "ids" | "values">): (i: number, j: number) => number | null {
+  const binary = atob(matrix.values);
+  const values = new Int8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) values[i] = binary.charCodeAt(i) << 24 >> 24;
+  const size = matrix.ids.length;
+  return (i, j) => {
+    if (i === j) return 1;
+    const value = values[upperTriangleIndex(i, j, size)];
+    return value === MISSING_VALUE ? null : value / 100;
+  };
+}
+
+function toTimedSeries(points: SparklineDataPoint[]): TimedSeries {
+  return points
+    .map((point) => ({ time: Date.parse(point.date), price: point.price }))
+    .filter((point) => Number.isFinite(point.time) && Number.isFinite(point.price))
+    .sort((x, y) => x.time - y.time);
+}
+
+/**
+ * 按采样间隔（相邻点间隔的中位数）给序列分档，返回各档的分桶时长（档内最大间隔）与每个序列所在的档
+ * 点数不足以估计间隔的序列不参与任何档（tier 为 -1）
+ */
+function spacingTiers(series: TimedSeries[]): { tierBuckets: number[]; tierOf: number[] } {
+  const spacings = series.map((points) => (points.length >= 2 ? Math.max(medianSpacing(points.map((p) => p.time)), 1000) : 0));
+  const sorted = Array.from(new Set(spacings.filter((s) => s > 0))).sort((x, y) => x - y);
+  const tierBuckets: number[] = [];
+  let tierStart = 0;
+  sorted.forEach((spacing) => {
+    if (tierBuckets.length === 0 || spacing > tierStart * SPACING_TOLERANCE) {
+      tierStart = spacing;
+      tierBuckets.push(spacing);
+    } else {
+      tierBuckets[tierBuckets.length - 1] = spacing;
+    }
+  });
+  const tierOf = spacings.map((spacing) => (spacing > 0 ? tierBuckets.findIndex((bucket) => spacing <= bucket) : -1));
+  return { tierBuckets, tierOf };
+}
+
+/**
+ * 把给定序列的变化对齐到同一时间网格（每桶取最后一个价格）
+ * 只有相邻两桶都有价格时该期变化才有效；没有任何两个市场同时有效的时间列会被剔除
+ */
+function buildChangeGrid(
+  series: TimedSeries[],
+  rows: number[],
+  bucketMs: number,
+  method: CorrelationMethod
+): ChangeGrid {
+  const transform = method === "log-odds-change" ? logOdds : (price: number) => price;
+
+  // 每个序列：bucket → 桶内最后一个价格
+  const bucketed = rows.map((row) => {
+    const buckets = new Map<number, number>();
+    series[row].forEach((point) => buckets.set(Math.floor(point.time / bucketMs), point.price));
+    return buckets;
+  });
+  // 每个时间桶有几个市场存在有效变化
+  const coverage = new Map<number, number>();
+  bucketed.forEach((buckets) =>
+    buckets.forEach((_, bucket) => {
+      if (buckets.has(bucket - 1)) coverage.set(bucket, (coverage.get(bucket) ?? 0) + 1);
+    })
+  );
+  const columnBuckets = Array.from(coverage.entries())
+    .filter(([, count]) => count >= 2)
+    .map(([bucket]) => bucket)
+    .sort((x, y) => x - y);
+  const columnIndex = new Map(columnBuckets.map((bucket, c) => [bucket, c]));
+
+  const columns = columnBuckets.length;
+  const changes = new Float64Array(rows.length * columns);
+  const mask = new Float64Array(rows.length * columns);
+  const moved = new Float64Array(rows.length * columns);
+  bucketed.forEach((buckets, r) => {
+    buckets.forEach((price, bucket) => {
+      const previous = buckets.get(bucket - 1);
+      const c = columnIndex.get(bucket);
+      if (previous === undefined || c === undefined) return;
+      const change = transform(price) - transform(previous);
+      const cell = r * columns + c;
+      changes[cell] = change;
+      mask[cell] = 1;
+      moved[cell] = Math.abs(change) > 1e-9 ? 1 : 0;
+    });
+  });
+  return { bucketMs, rows, columns, columnBuckets, changes, mask, moved };
+}
+
+// 双方都有效的首个与最后一个时间桶（只为入选的边计算）
+function overlapRange(grid: ChangeGrid, rowA: number, rowB: number): { start: string; end: string } {
+  let first = -1;
+  let last = -1;
+  for (let c = 0; c < grid.columns; c++) {
+    if (grid.mask[rowA * grid.columns + c] * grid.mask[rowB * grid.columns + c] === 0) continue;
+    if (first === -1) first = c;
+    last = c;
+  }
+  const toIso = (c: number) => new Date(grid.columnBuckets[Math.max(c, 0)] * grid.bucketMs).toISOString();
+  return { start: toIso(first), end: toIso(last) };
+}
+
+/**
+ * 计算两两相关矩阵：每对市场在两者中较粗的档位网格上、只在双方都有效的时间列上求皮尔逊相关
+ * 重叠不足 minOverlap 或任一方非零变化少于 minMoves 时记为数据不足
+ */
+export function buildCorrelationMatrix(
+  markets: Array<{ id: string; chartData?: SparklineDataPoint[] }>,
+  options: CorrelationMatrixOptions = {}
+): CompactCorrelationMatrix {
+  const {
+    method = "log-odds-change",
+    minOverlap = MIN_OVERLAP_POINTS,
+    minMoves = DEFAULT_MIN_MOVES,
+    threshold = DEFAULT_PAIR_THRESHOLD,
+    alpha = 0.05,
+    topK = DEFAULT_TOP_K,
+    pinned,
+  } = options;
+
+  const size = markets.length;
+  const series = markets.map((m) => toTimedSeries(m.chartData || []));
+  const { tierBuckets, tierOf } = spacingTiers(series);
+  const values = new Int8Array((size * (size - 1)) / 2).fill(MISSING_VALUE);
+  type Candidate = { a: number; b: number; correlation: number; observations: number; grid: ChangeGrid; rowA: number; rowB: number };
+  const candidates: Candidate[] = [];
+  const pinnedCandidates: Candidate[] = [];
+
+  tierBuckets.forEach((bucketMs, tier) => {
+    // 该档网格包含所有采样不粗于该档的序列，但只计算较粗一方恰好在该档的市场对
+    const rows = tierOf.map((t, i) => (t !== -1 && t <= tier ? i : -1)).filter((i) => i !== -1);
+    if (!rows.some((i) => tierOf[i] === tier) || rows.length < 2) return;
+    const grid = buildChangeGrid(series, rows, bucketMs, method);
+    const { changes, mask, moved, columns } = grid;
+    const squares = changes.map((x) => x * x);
+
+    for (let x = 0; x < rows.length; x++) {
+      const rowI = x * columns;
+      for (let y = x + 1; y < rows.length; y++) {
+        const i = rows[x];
+        const j = rows[y];
+        if (tierOf[i] !== tier && tierOf[j] !== tier) continue;
+        const rowJ = y * columns;
+        let n = 0, sx = 0, sy = 0, sxx = 0, syy = 0, sxy = 0, movesX = 0, movesY = 0;
+        for (let c = 0; c < columns; c++) {
+          const mi = mask[rowI + c];
+          const mj = mask[rowJ + c];
+          n += mi * mj;
+          sx += changes[rowI + c] * mj;
+          sy += changes[rowJ + c] * mi;
+          sxx += squares[rowI + c] * mj;
+          syy += squares[rowJ + c] * mi;
+          sxy += changes[rowI + c] * changes[rowJ + c];
+          movesX += moved[rowI + c] * mj;
+          movesY += moved[rowJ + c] * mi;
+        }
+        if (n < minOverlap || movesX < minMoves || movesY < minMoves) continue;
+
+        const varX = sxx - (sx * sx) / n;
+        const varY = syy - (sy * sy) / n;
+        if (varX <= 1e-15 || varY <= 1e-15) continue;
+        const correlation = Math.max(-1, Math.min(1, (sxy - (sx * sy) / n) / Math.sqrt(varX * varY)));
+        values[upperTriangleIndex(i, j, size)] = Math.round(correlation * 100);
+        const candidate = { a: i, b: j, correlation, observations: n, grid, rowA: x, rowB: y };
+        if (pinned?.(i, j)) pinnedCandidates.push(candidate);
+        else if (Math.abs(correlation) >= threshold) candidates.push(candidate);
+      }
+    }
+  });
+
+  const toEdge = ({ a, b, correlation, observations, grid, rowA, rowB }: Candidate): CorrelationEdge => ({
+    a,
+    b,
+    correlation,
+    pValue: correlationPValue(correlation, observations),
+    observations,
+    ...overlapRange(grid, rowA, rowB),
+  });
+  const edges = [
+    ...candidates
+      .sort((x, y) => Math.abs(y.correlation) - Math.abs(x.correlation))
+      .map(toEdge)
+      .filter((edge) => edge.pValue < alpha)
+      .slice(0, topK),
+    ...pinnedCandidates.map(toEdge),
+  ];
+
+  const populated = tierOf.filter((t) => t !== -1).sort((x, y) => x - y);
+  const typicalBucket = populated.length > 0 ? tierBuckets[populated[Math.floor(populated.length / 2)]] : 0;
+  return {
+    ids: markets.map((m) => m.id),
+    method,
+    bucketHours: typicalBucket / (1000 * 60 * 60),
+    values: encodeInt8(values),
+    edges,
+  };
+}
+
+/**
+ * 由相关矩阵得到详细市场对：显著的边（按 |r| 取前 maxPairs 个）加上 pinned 的市场对，逐对补充领先-滞后分析
+ * pinned 但数据不足的市场对也会列出（correlation 为 0，stats 为 null）；a / b 为 markets 中的序号
+ */
+export function findMarketPairs(
+  markets: MarketData[],
+  matrix: CompactCorrelationMatrix,
+  options: MarketPairOptions = {}
+): MarketPair[] {
+  const { method = matrix.method, alpha = 0.05, minOverlap, maxPairs = DEFAULT_MAX_PAIRS, pinned } = options;
+  const position = new Map(markets.map((m, i) => [m.id, i]));
+  const pairs: MarketPair[] = [];
+  const seen = new Set<string>();
+  const relationOf = (a: MarketData, b: MarketData): MarketPair["relationType"] =>
+    a.eventId && a.eventId === b.eventId ? "intra-event" : "inter-event";
+
+  const edges = [
+    ...matrix.edges.filter((edge) => !pinned?.(edge.a, edge.b)).slice(0, maxPairs),
+    ...matrix.edges.filter((edge) => pinned?.(edge.a, edge.b)),
+  ];
+  edges.forEach((edge) => {
+    const a = position.get(matrix.ids[edge.a]);
+    const b = position.get(matrix.ids[edge.b]);
+    if (a === undefined || b === undefined) return;
+    const marketA = markets[a];
+    const marketB = markets[b];
+    seen.add(`${edge.a}|${edge.b}`);
+    pairs.push({
+      a,
+      b,
+      correlation: edge.correlation,
+      relationType: relationOf(marketA, marketB),
+      stats: {
+        correlation: edge.correlation,
+        pValue: edge.pValue,
+        confidenceInterval: correlationConfidenceInterval(edge.correlation, edge.observations),
+        overlap: edge.observations,
+        observations: edge.observations,
+        method: matrix.method,
+        start: edge.start,
+        end: edge.end,
+      },
+      leadLag: analyzeLeadLag(marketA.chartData || [], marketB.chartData || [], { method, alpha, minOverlap }),
+    });
+  });
+
+  // pinned 但没有足够数据的市场对
+  if (pinned) {
+    for (let i = 0; i < matrix.ids.length; i++) {
+      for (let j = i + 1; j < matrix.ids.length; j++) {
+        if (seen.has(`${i}|${j}`) || !pinned(i, j)) continue;
+        const a = position.get(matrix.ids[i]);
+        const b = position.get(matrix.ids[j]);
+        if (a === undefined || b === undefined) continue;
+        pairs.push({ a, b, correlation: 0, relationType: relationOf(markets[a], markets[b]), stats: null, leadLag: null });
+      }
+    }
+  }
+  return pairs;
+}
@@ -1,19 +1,61 @@
 import fs from 'fs';
 import path from 'path';
+import { getStorage } from './storage';
 
-const DEAD_TAGS_FILE = path.join(process.cwd(), 'data', 'dead-tags.json');
+// 旧版本写入的失效标签列表，只读取用于迁移
+const LEGACY_DEAD_TAGS_FILE = path.join(process.cwd(), 'data', 'dead-tags.json');
+
+// 标签可能重新出现活跃市场，失效标记 7 天后过期重新检测
+const DEAD_TAG_TTL = 1000 * 60 * 60 * 24 * 7;
+
+// 记录旧列表已导入，避免失效标记过期后每次重启又被旧文件重新标记
+const LEGACY_IMPORT_MARKER = 'legacy-dead-tags-imported';
+
+interface DeadTagRecord {
+  markedAt: number;
+}
+
+let legacyImported: Promise<void> | null = null;
+
+/**
+ * 将 data/dead-tags.json 中的标签导入存储（只导入一次，完成后在 search-config 中写入标记）
+ */
+function importLegacyDeadTags(): Promise<void> {
+  if (!legacyImported) {
+    legacyImported = (async () => {
+      try {
+        if (!fs.existsSync(LEGACY_DEAD_TAGS_FILE)) return;
+        const storage = getStorage();
+        if (await storage.get('search-config', LEGACY_IMPORT_MARKER)) return;
+
+        const legacy: unknown = JSON.parse(fs.readFileSync(LEGACY_DEAD_TAGS_FILE, 'utf-8'));
+        if (!Array.isArray(legacy) || legacy.length === 0) return;
+
+        const existing = new Set((await storage.list<DeadTagRecord>('dead-tags')).map((entry) => entry.key));
+        const missing = legacy.map(String).filter((tagId) => !existing.has(tagId));
+        await Promise.all(
+          missing.map((tagId) => storage.set<DeadTagRecord>('dead-tags', tagId, { markedAt: Date.now() }, DEAD_TAG_TTL))
+        );
+        await storage.set('search-config', LEGACY_IMPORT_MARKER, { importedAt: Date.now() });
+        if (missing.length > 0) {
+          console.log(`💀 Imported ${missing.length} dead tags from ${LEGACY_DEAD_TAGS_FILE}`);
+        }
+      } catch (error) {
+        console.error("Failed to import legacy dead tags:", error);
+      }
+    })();
+  }
+  return legacyImported;
+}
 
 /**
  * 获取不活跃标签列表
  */
-export function getDeadTags(): string[] {
+export async function getDeadTags(): Promise<string[]> {
   try {
-    if (!fs.existsSync(DEAD_TAGS_FILE)) {
-      // Vercel 环境下不尝试创建文件
-      return [];
-    }
-    const content = fs.readFileSync(DEAD_TAGS_FILE, 'utf-8');
-    return JSON.parse(content);
+    await importLegacyDeadTags();
+    const entries = await getStorage().list<DeadTagRecord>('dead-tags');
+    return entries.map((entry) => entry.key);
   } catch (error) {
     console.error("Failed to read dead tags:", error);
     return [];
@@ -23,25 +65,10 @@ export function getDeadTags(): string[] {
 /**
  * 记录不活跃标签
  */
-export function markTagAsDead(tagId: string): void {
+export async function markTagAsDead(tagId: string): Promise<void> {
   try {
-    const deadTags = getDeadTags();
-    if (!deadTags.includes(tagId)) {
-      deadTags.push(tagId);
-      
-      // Vercel 环境下文件系统是只读的，除了 /tmp
-      // 我们尝试写入，但如果失败（如 EROFS）则优雅跳过
-      try {
-        fs.writeFileSync(DEAD_TAGS_FILE, JSON.stringify(deadTags, null, 2));
-        console.log(`💀 Tag ${tagId} marked as dead (no active markets)`);
-      } catch (writeError: any) {
-        if (writeError.code === 'EROFS') {
-          console.warn(`⚠️ Cannot write to filesystem on Vercel (EROFS). Tag ${tagId} marked as dead in-memory only.`);
-        } else {
-          throw writeError;
-        }
-      }
-    }
+    await getStorage().set<DeadTagRecord>('dead-tags', tagId, { markedAt: Date.now() }, DEAD_TAG_TTL);
+    console.log(`💀 Tag ${tagId} marked as dead (no active markets)`);
   } catch (error) {
     console.error("Failed to mark tag as dead:", error);
   }
@@ -50,11 +77,11 @@ export function markTagAsDead(tagId: string): void {
 /**
  * 从标签列表中过滤掉不活跃标签
  */
-export function filterDeadTags<T extends { id: string }>(tags: T[]): T[] {
-  const deadTags = getDeadTags();
-  if (deadTags.length === 0) return tags;
-  
-  const filtered = tags.filter(tag => !deadTags.includes(tag.id));
+export async function filterDeadTags<T extends { id: string }>(tags: T[]): Promise<T[]> {
+  const deadTags = new Set(await getDeadTags());
+  if (deadTags.size === 0) return tags;
+
+  const filtered = tags.filter(tag => !deadTags.has(tag.id));
   if (filtered.length < tags.length) {
     console.log(`✂️  Filtered out ${tags.length - filtered.length} dead tags`);
   }
@@ -0,0 +1,198 @@
+/**
+ * Embedding Provider
+ * 远程 Embedding（Gemini / OpenAI / OpenAI-compatible）与本地 CPU 哈希 TF-IDF 向量化器的统一入口
+ * 没有可用的 Embedding 凭据时自动回退到本地模型，语义搜索无需任何网络 AI 访问
+ */
+
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import { getLLMProvider, hasAICredentials, supportsEmbeddings, type AIContext } from "./llm-provider";
+import { cjkBigrams, isStopWord, splitText, stemWord } from "./text-tokenizer";
+
+export interface EmbeddingProvider {
+  // 向量空间标识：不同 id 的向量互不兼容，向量索引按 id 分别持久化
+  readonly id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export type EmbeddingProviderMode = "auto" | "remote" | "local";
+
+const LOCAL_DIMENSIONS = 512;
+// 分词或加权规则变化时递增，使旧的本地向量失效
+const LOCAL_VERSION = 1;
+
+// 各类特征的权重：整词 > 词组 > 字符 n-gram
+const FEATURE_WEIGHTS = {
+  word: 1,
+  bigram: 0.6,
+  cjk: 1,
+  trigram: 0.25,
+};
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * 提取文本特征：英文整词、相邻词组、词内字符三元组；中日韩文本按单字与双字切分
+ */
+export function extractFeatures(text: string): Array<{ feature: string; weight: number }> {
+  const features: Array<{ feature: string; weight: number }> = [];
+  const words: string[] = [];
+
+  for (const segment of splitText(text)) {
+    if (segment.type === "cjk") {
+      const chars = Array.from(segment.value);
+      chars.forEach((char) => features.push({ feature: `c:${char}`, weight: FEATURE_WEIGHTS.cjk }));
+      if (chars.length > 1) {
+        cjkBigrams(segment.value).forEach((bigram) => features.push({ feature: `c:${bigram}`, weight: FEATURE_WEIGHTS.cjk }));
+      }
+    } else if (!isStopWord(segment.value)) {
+      words.push(stemWord(segment.value));
+    }
+  }
+
+  words.forEach((word, i) => {
+    features.push({ feature: `w:${word}`, weight: FEATURE_WEIGHTS.word });
+    if (i + 1 < words.length) {
+      features.push({ feature: `b:${word} ${words[i + 1]}`, weight: FEATURE_WEIGHTS.bigram });
+    }
+    // 字符三元组兼容拼写差异与词形变化（如 "fed" / "federal"）
+    const padded = `#${word}#`;
+    if (padded.length > 4) {
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        features.push({ feature: `t:${padded.slice(j, j + 3)}`, weight: FEATURE_WEIGHTS.trigram });
+      }
+    }
+  });
+
+  return features;
+}
+
+interface IdfTable {
+  fingerprint: string;
+  documents: number;
+  df: Map<string, number>;
+}
+
+let idfTable: IdfTable | null = null;
+
+/**
+ * 基于随仓库分发的 data/categorized-events.json 标题统计文档频率
+ * 语料固定，向量可复现；语料变化时 fingerprint 随之变化，旧向量自动失效
+ */
+function getIdfTable(): IdfTable {
+  if (!idfTable) {
+    const df = new Map<string, number>();
+    let documents = 0;
+    let fingerprint = "none";
+    try {
+      const dataPath = path.join(process.cwd(), "data", "categorized-events.json");
+      if (fs.existsSync(dataPath)) {
+        const raw = fs.readFileSync(dataPath, "utf-8");
+        fingerprint = createHash("sha256").update(raw).digest("hex").slice(0, 8);
+        const events: Array<{ title?: string }> = JSON.parse(raw);
+        for (const event of events) {
+          if (!event.title) continue;
+          documents++;
+          new Set(extractFeatures(event.title).map((f) => f.feature)).forEach((feature) => {
+            df.set(feature, (df.get(feature) || 0) + 1);
+          });
+        }
+      }
+    } catch (error) {
+      console.warn("Failed to build local embedding IDF table:", error);
+    }
+    idfTable = { fingerprint, documents, df };
+  }
+  return idfTable;
+}
+
+/**
+ * 本地哈希 TF-IDF 向量化器：特征哈希到固定维度（带符号哈希抵消碰撞），次线性 TF × 平滑 IDF，L2 归一化
+ * 纯 CPU、无模型文件、结果确定
+ */
+export class LocalHashingEmbedder implements EmbeddingProvider {
+  readonly id: string;
+  private readonly dimensions: number;
+
+  constructor(dimensions: number = LOCAL_DIMENSIONS) {
+    this.dimensions = dimensions;
+    this.id = `local:hash-tfidf-v${LOCAL_VERSION}-${dimensions}-${getIdfTable().fingerprint}`;
+  }
+
+  private idf(feature: string): number {
+    const { documents, df } = getIdfTable();
+    return Math.log((documents + 1) / ((df.get(feature) || 0) + 1)) + 1;
+  }
+
+  embedOne(text: string): number[] {
+    const counts = new Map<string, number>();
+    for (const { feature, weight } of extractFeatures(text)) {
+      counts.set(feature, (counts.get(feature) || 0) + weight);
+    }
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    counts.forEach((count, feature) => {
+      const hash = fnv1a(feature);
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % this.dimensions] += sign * (1 + Math.log(count)) * this.idf(feature);
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+    return norm === 0 ? vector : vector.map((x) => x / norm);
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+}
+
+/**
+ * 远程 Embedding：沿用 AIContext 选定的 Provider 与 Embedding 模型
+ */
+class RemoteEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+
+  constructor(private readonly ctx: AIContext) {
+    this.id = `${ctx.provider}:${ctx.embeddingModel || "default"}`;
+  }
+
+  embed(texts: string[]): Promise<number[][]> {
+    return getLLMProvider(this.ctx).embed(texts);
+  }
+}
+
+let localEmbedder: LocalHashingEmbedder | null = null;
+
+export function getLocalEmbedder(): LocalHashingEmbedder {
+  if (!localEmbedder) localEmbedder = new LocalHashingEmbedder();
+  return localEmbedder;
+}
+
+function getEmbeddingMode(): EmbeddingProviderMode {
+  const mode = process.env.EMBEDDING_PROVIDER?.trim().toLowerCase();
+  return mode === "remote" || mode === "local" ? mode : "auto";
+}
+
+/**
+ * 按配置选择 Embedding Provider
+ * - EMBEDDING_PROVIDER=local：始终使用本地向量化器
+ * - EMBEDDING_PROVIDER=remote：始终使用 AIContext 的 Provider（缺少凭据时报错）
+ * - auto（默认）：Provider 支持 Embedding 且凭据齐全时走远程，否则回退本地
+ * 选择只取决于配置而非单次请求成败，避免同一索引混入不同向量空间
+ */
+export function getEmbeddingProvider(ctx: AIContext): EmbeddingProvider {
+  const mode = getEmbeddingMode();
+  if (mode === "local") return getLocalEmbedder();
+  if (mode === "remote" || (hasAICredentials(ctx) && supportsEmbeddings(ctx))) {
+    return new RemoteEmbeddingProvider(ctx);
+  }
+  return getLocalEmbedder();
+}
@@ -3,55 +3,51 @@
  * 缓存所有事件标题，用于语义匹配
  */
 
-import type { GammaEvent } from "@/types/polymarket";
+import type { PolymarketEvent } from "@/types/polymarket";
 import { getAllActiveEvents } from "./polymarket";
+import { getStorage } from "./storage";
 
 interface EventCache {
-  events: GammaEvent[];
+  events: PolymarketEvent[];
   titles: string[];
-  lastUpdated: number;
+  // 拉取时间，作为缓存内容的版本号（下游索引据此判断是否需要重建）
+  fetchedAt: number;
 }
 
 const CACHE_DURATION = 1000 * 60 * 10; // 10分钟缓存
-let cache: EventCache | null = null;
+const CACHE_KEY = "active";
 
 /**
  * 获取所有事件并缓存
  */
-export async function getCachedEvents(): Promise<{
-  events: GammaEvent[];
-  titles: string[];
-}> {
-  const now = Date.now();
-
-  if (cache && now - cache.lastUpdated < CACHE_DURATION) {
-    return {
-      events: cache.events,
-      titles: cache.titles,
-    };
+export async function getCachedEvents(): Promise<EventCache> {
+  const storage = getStorage();
+
+  const cached = await storage.get<EventCache>("events", CACHE_KEY);
+  if (cached) {
+    // 旧版本缓存没有 fetchedAt，以写入时间代替
+    return { ...cached.value, fetchedAt: cached.value.fetchedAt ?? cached.updatedAt };
   }
 
   console.log("Fetching all active events for cache...");
   const events = await getAllActiveEvents();
   const titles = events.map((event) => event.title);
+  const fetchedAt = Date.now();
 
-  cache = {
-    events,
-    titles,
-    lastUpdated: now,
-  };
+  await storage.set<EventCache>("events", CACHE_KEY, { events, titles, fetchedAt }, CACHE_DURATION);
 
   console.log(`Cached ${events.length} active events`);
 
   return {
     events,
     titles,
+    fetchedAt,
   };
 }
 
 /**
  * 清除缓存
  */
-export function clearEventCache(): void {
-  cache = null;
+export async function clearEventCache(): Promise<void> {
+  await getStorage().delete("events", CACHE_KEY);
 }
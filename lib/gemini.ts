@@ -1,103 +1,41 @@
 /**
  * Gemini AI Service
- * Semantic search and matching using Gemini API
+ * Semantic search and matching helpers; the backing LLM is chosen by the request's AIContext
  */
 
-import https from 'https';
+import {
+  assertAIContext,
+  getLLMProvider,
+  type AIContext,
+} from './llm-provider';
+import { getEmbeddingProvider } from './embedding-provider';
+import { parseFilterObject, type SearchFilters, type SearchSort } from './query-filters';
+import type { LeadLagResult } from './market-analytics';
+
+export { createAIContext, type AIContext } from './llm-provider';
 
 /**
- * Call Gemini API directly (using https module to support proxies)
+ * Send a plain-text prompt to the provider selected by the context
  */
-export async function callGeminiAPI(prompt: string): Promise<string> {
-  const currentKey = process.env.GEMINI_API_KEY;
-  const baseUrl = (process.env.GEMINI_BASE_URL || "https://generativelanguage.googleapis.com").replace(/\/$/, "");
-  const model = "gemini-2.0-flash"; // Fixed to gemini-2.0-flash as per user requirement
-  
-  if (!currentKey) {
-    throw new Error("Gemini API key is not configured. Please set it in the UI.");
-  }
-
-  const requestBody = JSON.stringify({
-    contents: [{
-      parts: [{
-        text: prompt
-      }]
-    }],
-    generationConfig: {
-      temperature: 0.7,
-      maxOutputTokens: 2048
-    }
-  });
-
-  return new Promise((resolve, reject) => {
-    // Follow user script: key no longer in URL, passed only via Header
-    const endpoint = `${baseUrl}/v1beta/models/${model}:generateContent`;
-    const url = new URL(endpoint);
-    
-    const options = {
-      hostname: url.hostname,
-      port: url.port || (url.protocol === 'https:' ? 443 : 80),
-      path: url.pathname,
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Content-Length': Buffer.byteLength(requestBody),
-        'x-goog-api-key': currentKey // Core: use specified Header for authentication
-      },
-      timeout: 30000 
-    };
-
-    const req = https.request(options, (res) => {
-      let data = '';
-      
-      res.on('data', (chunk) => {
-        data += chunk;
-      });
-      
-      res.on('end', () => {
-        if (res.statusCode === 200) {
-          try {
-            const response = JSON.parse(data);
-            const text = response.candidates?.[0]?.content?.parts?.[0]?.text || '';
-            resolve(text);
-          } catch (e) {
-            reject(new Error(`Failed to parse Gemini response: ${e}`));
-          }
-        } else {
-          reject(new Error(`Gemini API returned ${res.statusCode}: ${data}`));
-        }
-      });
-    });
-
-    req.on('error', (e) => {
-      reject(new Error(`Gemini API request failed: ${e.message}`));
-    });
-
-    req.on('timeout', () => {
-      req.destroy();
-      reject(new Error('Gemini API request timeout'));
-    });
-
-    req.write(requestBody);
-    req.end();
-  });
+export async function callLLM(ctx: AIContext, prompt: string): Promise<string> {
+  return getLLMProvider(ctx).chat(prompt);
 }
 
 /**
- * Match relevant tags using Gemini
+ * Match relevant tags using the configured LLM provider
+ * @param ctx Request-scoped AI credentials
  * @param userQuery User's search query
  * @param tags Array of tags, each containing label and slug
  * @param topN Number of most relevant tags to return, defaults to 5
  * @returns Array of matched tag indices (sorted by relevance)
  */
 export async function findRelevantTags(
+  ctx: AIContext,
   userQuery: string,
   tags: Array<{ label: string; slug?: string }>,
   topN: number = 5
 ): Promise<number[]> {
-  if (!process.env.GEMINI_API_KEY) {
-    throw new Error("Gemini API key is not configured");
-  }
+  assertAIContext(ctx);
 
   if (tags.length === 0) {
     return [];
@@ -129,10 +67,10 @@ Requirements:
 Output Format Example (${topN} indices):
 0,3,5,12,15`;
 
-    // Call Gemini API
-    console.log(`Calling Gemini API for tag matching (top ${topN})...`);
-    const responseText = await callGeminiAPI(prompt);
-    console.log("Gemini tag response:", responseText.substring(0, 200));
+    // Call LLM
+    console.log(`Calling LLM for tag matching (top ${topN})...`);
+    const responseText = await callLLM(ctx, prompt);
+    console.log("LLM tag response:", responseText.substring(0, 200));
 
     // Parse returned indices
     const indices = responseText
@@ -146,26 +84,26 @@ Output Format Example (${topN} indices):
 
     return indices;
   } catch (error) {
-    console.error("Error calling Gemini API for tags:", error);
+    console.error("Error calling LLM for tags:", error);
     throw new Error("Failed to find relevant tags using AI");
   }
 }
 
 /**
- * Match relevant event titles using Gemini
+ * Match relevant event titles using the configured LLM provider
+ * @param ctx Request-scoped AI credentials
  * @param userQuery User's search query
  * @param eventTitles Array of event titles
  * @param topN Number of most relevant events to return, defaults to 20
  * @returns Array of matched event indices (sorted by relevance)
  */
 export async function findRelevantEvents(
+  ctx: AIContext,
   userQuery: string,
   eventTitles: string[],
   topN: number = 20
 ): Promise<number[]> {
-  if (!process.env.GEMINI_API_KEY) {
-    throw new Error("Gemini API key is not configured");
-  }
+  assertAIContext(ctx);
 
   if (eventTitles.length === 0) {
     return [];
@@ -194,10 +132,10 @@ Requirements:
 Output Format Example (${topN} indices):
 0,2,5,8,12,15,18,22,25,28,30,33,35,38,40,42,45,48,50,52`;
 
-    // Call Gemini API
-    console.log(`Calling Gemini API for event matching (top ${topN})...`);
-    const responseText = await callGeminiAPI(prompt);
-    console.log("Gemini event response:", responseText.substring(0, 200));
+    // Call LLM
+    console.log(`Calling LLM for event matching (top ${topN})...`);
+    const responseText = await callLLM(ctx, prompt);
+    console.log("LLM event response:", responseText.substring(0, 200));
 
     // Parse returned indices
     const indices = responseText
@@ -211,24 +149,24 @@ Output Format Example (${topN} indices):
 
     return indices;
   } catch (error) {
-    console.error("Error calling Gemini API for events:", error);
+    console.error("Error calling LLM for events:", error);
     throw new Error("Failed to find relevant events using AI");
   }
 }
 
 /**
- * Match relevant market titles using Gemini
+ * Match relevant market titles using the configured LLM provider
+ * @param ctx Request-scoped AI credentials
  * @param userQuery User's search query
  * @param marketTitles Array of all market titles
  * @returns Array of matched market indices (sorted by relevance)
  */
 export async function findRelevantMarkets(
+  ctx: AIContext,
   userQuery: string,
   marketTitles: string[]
 ): Promise<number[]> {
-  if (!process.env.GEMINI_API_KEY) {
-    throw new Error("Gemini API key is not configured");
-  }
+  assertAIContext(ctx);
 
   if (marketTitles.length === 0) {
     return [];
@@ -259,10 +197,10 @@ Requirements:
 Output Format Example (50 indices):
 0,1,2,3,5,7,10,12,15,18,20,22,25,28,30,33,35,38,40,42,45,48,50,52,55,58,60,63,65,68,70,72,75,78,80,82,85,88,90,92,95,98,100,102,105,108,110,112,115,118`;
 
-    // Call Gemini API
-    console.log("Calling Gemini API for market matching...");
-    const responseText = await callGeminiAPI(prompt);
-    console.log("Gemini API response:", responseText.substring(0, 200));
+    // Call LLM
+    console.log("Calling LLM for market matching...");
+    const responseText = await callLLM(ctx, prompt);
+    console.log("LLM response:", responseText.substring(0, 200));
 
     // Parse returned indices
     const indices = responseText
@@ -276,134 +214,26 @@ Output Format Example (50 indices):
 
     return indices;
   } catch (error) {
-    console.error("Error calling Gemini API:", error);
+    console.error("Error calling LLM:", error);
     throw new Error("Failed to find relevant markets using AI");
   }
 }
 
 /**
  * Generate Embedding for a single text
+ * Uses the remote embedding model when available, otherwise the local hashing vectorizer
  */
-export async function embedText(text: string): Promise<number[]> {
-  if (!process.env.GEMINI_API_KEY) {
-    throw new Error("Gemini API key is not configured");
-  }
-
-  const requestBody = JSON.stringify({
-    model: "models/text-embedding-004",
-    content: {
-      parts: [{ text }]
-    }
-  });
-
-  const baseUrl = (process.env.GEMINI_BASE_URL || "https://generativelanguage.googleapis.com").replace(/\/$/, "");
-  const endpoint = `${baseUrl}/v1beta/models/text-embedding-004:embedContent`;
-  const url = new URL(endpoint);
-
-  return new Promise((resolve, reject) => {
-    const options = {
-      hostname: url.hostname,
-      port: url.port || (url.protocol === 'https:' ? 443 : 80),
-      path: url.pathname,
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Content-Length': Buffer.byteLength(requestBody),
-        'x-goog-api-key': process.env.GEMINI_API_KEY as string
-      },
-      timeout: 10000
-    };
-
-    const req = https.request(options, (res) => {
-      let data = '';
-      res.on('data', (chunk) => data += chunk);
-      res.on('end', () => {
-        if (res.statusCode === 200) {
-          try {
-            const response = JSON.parse(data);
-            resolve(response.embedding.values);
-          } catch (e) {
-            reject(new Error(`Failed to parse embedding response: ${e}`));
-          }
-        } else {
-          reject(new Error(`Embedding API returned ${res.statusCode}: ${data}`));
-        }
-      });
-    });
-
-    req.on('error', (e) => reject(e));
-    req.write(requestBody);
-    req.end();
-  });
+export async function embedText(ctx: AIContext, text: string): Promise<number[]> {
+  const [vector] = await getEmbeddingProvider(ctx).embed([text]);
+  return vector;
 }
 
 /**
  * Generate Embeddings for multiple texts in batch
  */
-export async function batchEmbedText(texts: string[]): Promise<number[][]> {
-  if (!process.env.GEMINI_API_KEY) {
-    throw new Error("Gemini API key is not configured");
-  }
-
+export async function batchEmbedText(ctx: AIContext, texts: string[]): Promise<number[][]> {
   if (texts.length === 0) return [];
-
-  // Gemini batchEmbedContents limited to 100 at a time
-  const BATCH_SIZE = 100;
-  const results: number[][] = [];
-
-  for (let i = 0; i < texts.length; i += BATCH_SIZE) {
-    const batch = texts.slice(i, i + BATCH_SIZE);
-    const requestBody = JSON.stringify({
-      requests: batch.map(text => ({
-        model: "models/text-embedding-004",
-        content: { parts: [{ text }] }
-      }))
-    });
-
-    const batchResults = await new Promise<number[][]>((resolve, reject) => {
-      const baseUrl = (process.env.GEMINI_BASE_URL || "https://generativelanguage.googleapis.com").replace(/\/$/, "");
-      const endpoint = `${baseUrl}/v1beta/models/text-embedding-004:batchEmbedContents`;
-      const url = new URL(endpoint);
-      
-      const options = {
-        hostname: url.hostname,
-        port: url.port || (url.protocol === 'https:' ? 443 : 80),
-        path: url.pathname,
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Content-Length': Buffer.byteLength(requestBody),
-          'x-goog-api-key': process.env.GEMINI_API_KEY as string
-        },
-        timeout: 30000
-      };
-
-      const req = https.request(options, (res) => {
-        let data = '';
-        res.on('data', (chunk) => data += chunk);
-        res.on('end', () => {
-          if (res.statusCode === 200) {
-            try {
-              const response = JSON.parse(data);
-              resolve(response.embeddings.map((e: any) => e.values));
-            } catch (e) {
-              reject(new Error(`Failed to parse batch embedding response: ${e}`));
-            }
-          } else {
-            reject(new Error(`Batch Embedding API returned ${res.statusCode}: ${data}`));
-          }
-        });
-      });
-
-      req.on('error', (e) => reject(e));
-      req.write(requestBody);
-      req.end();
-    });
-
-    results.push(...batchResults);
-  }
-
-  return results;
+  return getEmbeddingProvider(ctx).embed(texts);
 }
 
 export interface MarketGroupResult {
@@ -411,37 +241,17 @@ export interface MarketGroupResult {
   indices: number[];
 }
 
-function extractJsonFromText(text: string): string | null {
-  const trimmed = text.trim();
-  const fenced = trimmed.match(/```json([\s\S]*?)```/i);
-  if (fenced?.[1]) {
-    return fenced[1].trim();
-  }
-  const firstBrace = trimmed.indexOf("{");
-  const lastBrace = trimmed.lastIndexOf("}");
-  if (firstBrace !== -1 && lastBrace !== -1 && lastBrace > firstBrace) {
-    return trimmed.slice(firstBrace, lastBrace + 1);
-  }
-  const firstBracket = trimmed.indexOf("[");
-  const lastBracket = trimmed.lastIndexOf("]");
-  if (firstBracket !== -1 && lastBracket !== -1 && lastBracket > firstBracket) {
-    return trimmed.slice(firstBracket, lastBracket + 1);
-  }
-  return null;
-}
-
 /**
- * Use Gemini to group market candidates into 5 semantic dimensions
+ * Use the configured LLM provider to group market candidates into 5 semantic dimensions
  */
 export async function findMarketGroups(
+  ctx: AIContext,
   userQuery: string,
   marketCandidates: Array<{ title: string; eventTitle?: string }>,
   groupCount: number = 5,
   total: number = 50
 ): Promise<MarketGroupResult[]> {
-  if (!process.env.GEMINI_API_KEY) {
-    throw new Error("Gemini API key is not configured");
-  }
+  assertAIContext(ctx);
 
   if (marketCandidates.length === 0) {
     return [];
@@ -455,15 +265,8 @@ export async function findMarketGroups(
   const prompt = `You are a professional market analysis assistant. A user has entered a query, and you need to group related markets into 5 different semantic dimensions.\n\nUser Query: ${userQuery}\n\nCandidate Market List (Format: Index: Market Question (Optional Event)):\n${formattedCandidates.join("\n")}\n\nTask Requirements:\n1. You need to generate 5 unique semantic dimensions and select related markets for each dimension\n2. Select approximately ${total} markets in total, distributed across groups as you see fit\n3. No duplicate market indices\n4. Return JSON in the following format:\n{\n  \"groups\": [\n    { \"dimension\": \"Dimension Name 1\", \"indices\": [0,2,5] },\n    { \"dimension\": \"Dimension Name 2\", \"indices\": [1,3,7] },\n    ... 5 groups total\n  ]\n}\n5. Return ONLY JSON, no other text or explanation\n`;
 
   try {
-    console.log("Calling Gemini API for grouped market selection...");
-    const responseText = await callGeminiAPI(prompt);
-
-    const jsonText = extractJsonFromText(responseText);
-    if (!jsonText) {
-      throw new Error("Gemini response does not contain JSON");
-    }
-
-    const parsed = JSON.parse(jsonText);
+    console.log("Calling LLM for grouped market selection...");
+    const parsed = await getLLMProvider(ctx).chatJson(prompt);
     const groups = Array.isArray(parsed?.groups) ? parsed.groups : [];
 
     const normalized: MarketGroupResult[] = groups
@@ -490,7 +293,7 @@ export async function findMarketGroups(
 
     return normalized;
   } catch (error) {
-    console.error("Error calling Gemini API for grouped markets:", error);
+    console.error("Error calling LLM for grouped markets:", error);
 
     // Fallback: split top total candidates equally
     const safeTotal = Math.min(total, marketCandidates.length);
@@ -508,15 +311,16 @@ export async function findMarketGroups(
 }
 
 /**
- * Use Gemini to pick the most relevant Events from a category pool
+ * Use the configured LLM provider to pick the most relevant Events from a category pool
  */
 export async function pickRelevantEvents(
+  ctx: AIContext,
   userQuery: string,
   eventPool: Array<{ id: string; title: string }>,
   count: number = 30,
   dimension?: string
 ): Promise<Array<{ id: string; reasoning: string }>> {
-  if (!process.env.GEMINI_API_KEY) throw new Error("Gemini API key is not configured");
+  assertAIContext(ctx);
   if (eventPool.length === 0) return [];
 
   const titles = eventPool.map((e, idx) => `${idx}: ${e.title}`);
@@ -544,12 +348,7 @@ Event List:
 ${titles.join("\n")}`;
 
   try {
-    // Use flash-lite model for fast selection
-    const result = await callGeminiAPI(prompt);
-    const jsonText = extractJsonFromText(result);
-    if (!jsonText) throw new Error("Gemini response does not contain JSON");
-    
-    const parsed = JSON.parse(jsonText);
+    const parsed = await getLLMProvider(ctx).chatJson(prompt);
     const picks = Array.isArray(parsed?.picks) ? parsed.picks : [];
     
     return picks
@@ -571,19 +370,62 @@ ${titles.join("\n")}`;
   }
 }
 
+export interface CausalRelation {
+  pair: number; // index into the input pairs
+  cause: string;
+  effect: string;
+  confidence: number;
+  reason: string;
+  // Checked against lead-lag statistics: supported = the cause leads (or feedback),
+  // contradicted = the effect leads, unverified = no significant lead in either direction
+  evidence: 'supported' | 'contradicted' | 'unverified';
+}
+
+// 统计结论不支持时对 LLM 置信度的上限
+const UNVERIFIED_CONFIDENCE_CAP = 0.6;
+const CONTRADICTED_CONFIDENCE_CAP = 0.3;
+
+function formatPValue(p: number): string {
+  return p < 0.001 ? '<0.001' : p.toFixed(3);
+}
+
+function describeLeadLag(leadLag: LeadLagResult | null | undefined): string {
+  if (!leadLag) return 'Not enough overlapping history to test lead-lag';
+  const forward = leadLag.grangerAToB ? `A→B Granger p=${formatPValue(leadLag.grangerAToB.pValue)}` : 'A→B untested';
+  const backward = leadLag.grangerBToA ? `B→A Granger p=${formatPValue(leadLag.grangerBToA.pValue)}` : 'B→A untested';
+  const tests = `${forward}, ${backward}`;
+  switch (leadLag.direction) {
+    case 'a-leads':
+    case 'b-leads': {
+      const [leader, follower] = leadLag.leader === 'a' ? ['A', 'B'] : ['B', 'A'];
+      return `Market ${leader} moves lead Market ${follower} by ~${leadLag.lagDays.toFixed(1)} days (lagged corr ${leadLag.peakCorrelation.toFixed(2)}; ${tests})`;
+    }
+    case 'feedback':
+      return `Moves predict each other in both directions (${tests})`;
+    case 'synchronous':
+      return `Markets move together in the same period with no detectable lead (${tests})`;
+    default:
+      return `No statistically significant lead-lag (${tests})`;
+  }
+}
+
 /**
- * Use AI to infer causal logic between market pairs
+ * Use AI to explain causal logic between market pairs, grounded in lead-lag statistics.
+ * The model picks a direction per pair; each relation is then checked against the Granger results
+ * and its confidence is capped when the data does not back it up.
  */
 export async function inferCausalRelations(
+  ctx: AIContext,
   userQuery: string,
   pairs: Array<{ 
     a: { title: string; price: number; eventTitle?: string }; 
     b: { title: string; price: number; eventTitle?: string }; 
     correlation: number;
-    relationType?: 'intra-event' | 'inter-event'
+    relationType?: 'intra-event' | 'inter-event';
+    leadLag?: LeadLagResult | null;
   }>
-): Promise<Array<{ cause: string; effect: string; confidence: number; reason: string }>> {
-  if (!process.env.GEMINI_API_KEY) throw new Error("Gemini API key is not configured");
+): Promise<CausalRelation[]> {
+  assertAIContext(ctx);
   if (pairs.length === 0) return [];
 
   const pairsText = pairs.map((p, i) => `
@@ -591,17 +433,21 @@ Pair ${i}:
 - Market A: "${p.a.title}" (Current Prob: ${p.a.price}%) ${p.a.eventTitle ? `[Event: ${p.a.eventTitle}]` : ''}
 - Market B: "${p.b.title}" (Current Prob: ${p.b.price}%) ${p.b.eventTitle ? `[Event: ${p.b.eventTitle}]` : ''}
 - Relation Type: ${p.relationType === 'intra-event' ? 'Different options same event' : 'Cross-event association'}
-- Hist Price Correlation: ${p.correlation.toFixed(2)}
+- Price-change Correlation: ${p.correlation.toFixed(2)}
+- Lead-lag Statistics: ${describeLeadLag(p.leadLag)}
 `).join('\n');
 
   const prompt = `You are a professional macroeconomic and political analyst.
-Based on the user query "${userQuery}", I have found several pairs of prediction markets with significant historical price correlation.
+Based on the user query "${userQuery}", I have found several pairs of prediction markets whose time-aligned price changes are significantly correlated.
+For each pair I also ran lagged cross-correlations and Granger causality tests on the price histories.
 
 Please analyze these market pairs and determine if there is a logical causal relationship, mutual exclusivity, or a strong associational explanation between them.
 
 Special attention:
 1. If the relation type is "Different options same event", they are usually competitive outcomes under the same event (like different candidates in an election), and the relationship is mutually exclusive or complementary.
 2. If the relation type is "Cross-event association", there may be a macroeconomic causal driver (e.g., event A occurring will lead to an increased probability of event B).
+3. Ground your answer in the lead-lag statistics: when one market significantly leads, the leading market should normally be the cause.
+   If you believe the opposite direction, explain why the data could be misleading. If no lead is detected, say the direction is not confirmed by the data.
 
 List of related market pairs:
 ${pairsText}
@@ -610,49 +456,278 @@ Please return JSON formatted results, containing only pairs with clear logical a
 {
   "relations": [
     {
-      "cause": "Title of Market A",
-      "effect": "Title of Market B",
+      "pair": 0,
+      "direction": "A->B",
       "confidence": 0.85, // confidence index between 0-1
-      "reason": "Short logical explanation. If same-event mutual exclusion, explain that these are different outcomes of the same event."
+      "reason": "Short logical explanation referencing the statistics. If same-event mutual exclusion, explain that these are different outcomes of the same event."
     }
   ]
 }
 Notes:
 1. Output ONLY JSON, no other text.
-2. Even negative correlation (near -1) may have causal or mutually exclusive relationships.
-3. If no clear association, return an empty array.
+2. "direction" is "A->B" when Market A drives Market B, "B->A" otherwise.
+3. Even negative correlation (near -1) may have causal or mutually exclusive relationships.
+4. If no clear association, return an empty array.
 `;
 
   try {
-    const responseText = await callGeminiAPI(prompt);
-    const jsonText = extractJsonFromText(responseText);
-    if (!jsonText) return [];
-    
-    const parsed = JSON.parse(jsonText);
-    return Array.isArray(parsed?.relations) ? parsed.relations : [];
+    const parsed = await getLLMProvider(ctx).chatJson(prompt);
+    const relations = Array.isArray(parsed?.relations) ? parsed.relations : [];
+
+    return relations
+      .map((r: any): CausalRelation | null => {
+        const index = parseInt(r?.pair, 10);
+        if (isNaN(index) || index < 0 || index >= pairs.length) return null;
+        const pair = pairs[index];
+        const causeIsA = !String(r.direction || '').trim().toUpperCase().startsWith('B');
+        const claimed = causeIsA ? 'a' : 'b';
+        const leadLag = pair.leadLag;
+
+        let evidence: CausalRelation['evidence'] = 'unverified';
+        if (leadLag?.direction === 'feedback' || leadLag?.leader === claimed) evidence = 'supported';
+        else if (leadLag?.leader) evidence = 'contradicted';
+
+        const rawConfidence = Math.max(0, Math.min(1, Number(r.confidence) || 0));
+        const cap = evidence === 'contradicted'
+          ? CONTRADICTED_CONFIDENCE_CAP
+          : evidence === 'unverified' ? UNVERIFIED_CONFIDENCE_CAP : 1;
+
+        return {
+          pair: index,
+          cause: causeIsA ? pair.a.title : pair.b.title,
+          effect: causeIsA ? pair.b.title : pair.a.title,
+          confidence: Math.min(rawConfidence, cap),
+          reason: String(r.reason || ''),
+          evidence,
+        };
+      })
+      .filter((r: CausalRelation | null): r is CausalRelation => r !== null);
   } catch (error) {
     console.error("❌ Failed to infer causal relations:", error);
     return [];
   }
 }
 
+export interface QueryIntent {
+  semanticQuery: string;
+  filters: SearchFilters;
+  sort?: SearchSort;
+  explanation?: string;
+}
+
+// 丢弃自相矛盾的区间（min > max）
+function dropInvertedRange(filters: SearchFilters, minKey: 'minVolume' | 'minProbability', maxKey: 'maxVolume' | 'maxProbability') {
+  const min = filters[minKey];
+  const max = filters[maxKey];
+  if (min !== undefined && max !== undefined && min > max) {
+    delete filters[minKey];
+    delete filters[maxKey];
+  }
+}
+
+/**
+ * Turn a natural-language question into a cleaned semantic query plus validated filters and sort
+ * e.g. "which Fed decisions before June are priced above 60%" →
+ * { semanticQuery: "Fed decisions", filters: { endBefore, minProbability: 60 } }
+ */
+export async function parseQueryIntent(
+  ctx: AIContext,
+  userQuery: string,
+  options: { categories: string[]; now?: Date }
+): Promise<QueryIntent> {
+  assertAIContext(ctx);
+  const now = options.now ?? new Date();
+
+  const prompt = `You convert prediction-market search questions into structured filters.
+Today is ${now.toISOString().slice(0, 10)}.
+User Query: ${userQuery}
+
+Extract only constraints the user explicitly states:
+- endAfter / endBefore: ISO dates (YYYY-MM-DD) bounding when the market ends or resolves. "before June" means endBefore = the next June 1st.
+- minVolume / maxVolume: trading volume in USD ("over $1M" → minVolume 1000000).
+- minProbability / maxProbability: price of the first outcome (Yes) in percent 0-100 ("priced above 60%" → minProbability 60; "unlikely" alone is NOT a constraint).
+- category: zero or more of [${options.categories.join(", ")}], only if the user clearly restricts the topic area.
+- status: "closed" only if the user asks for resolved / closed markets, "all" if both; otherwise omit.
+- sort: { "field": "volume" | "endDate" | "probability", "direction": "asc" | "desc" } only if the user asks for an ordering ("soonest ending" → endDate asc).
+semanticQuery is the topic with all constraint wording removed, in the user's words (e.g. "Fed decisions").
+
+Return ONLY JSON:
+{
+  "semanticQuery": "...",
+  "filters": { "endBefore": "2026-06-01", "minProbability": 60 },
+  "sort": null,
+  "explanation": "One short sentence describing the constraints"
+}`;
+
+  try {
+    const parsed = await getLLMProvider(ctx).chatJson(prompt);
+    const { filters, sort } = parseFilterObject({ ...(parsed?.filters || {}), sort: parsed?.sort ?? undefined });
+
+    if (filters.category) {
+      const allowed = new Map(options.categories.map((c) => [c.toLowerCase(), c]));
+      filters.category = filters.category
+        .map((c) => allowed.get(c.toLowerCase()))
+        .filter((c): c is string => !!c);
+      if (filters.category.length === 0) delete filters.category;
+    }
+    (['minProbability', 'maxProbability'] as const).forEach((key) => {
+      const value = filters[key];
+      if (value !== undefined && (value < 0 || value > 100)) delete filters[key];
+    });
+    dropInvertedRange(filters, 'minVolume', 'maxVolume');
+    dropInvertedRange(filters, 'minProbability', 'maxProbability');
+    if (filters.endAfter && filters.endBefore && filters.endAfter >= filters.endBefore) {
+      delete filters.endAfter;
+      delete filters.endBefore;
+    }
+    // 标签与事件由专门的阶段匹配，不接受 LLM 的猜测
+    delete filters.tag;
+    delete filters.event;
+
+    const semanticQuery = typeof parsed?.semanticQuery === 'string' && parsed.semanticQuery.trim()
+      ? parsed.semanticQuery.trim()
+      : userQuery;
+    const explanation = typeof parsed?.explanation === 'string' ? parsed.explanation.trim() || undefined : undefined;
+
+    console.log(`🧩 Query intent: "${semanticQuery}"`, JSON.stringify(filters), sort ? `${sort.field} ${sort.direction}` : '');
+    return { semanticQuery, filters, sort, explanation };
+  } catch (error) {
+    console.error("Error parsing query intent:", error);
+    throw new Error("Failed to parse query intent using AI");
+  }
+}
+
+export interface QueryTranslation {
+  translation: string;
+  // 其他常见英文说法（同义词、全称 / 缩写），用于补充词法检索
+  expansions: string[];
+}
+
+/**
+ * Translate a non-English search query into the English wording used by Polymarket titles
+ * e.g. "特朗普会赢得2028大选吗" → { translation: "Trump win 2028 presidential election", expansions: ["2028 election"] }
+ */
+export async function translateQuery(
+  ctx: AIContext,
+  query: string,
+  languageName: string
+): Promise<QueryTranslation> {
+  assertAIContext(ctx);
+
+  const prompt = `You translate ${languageName} prediction-market search queries into English search terms.
+Query: ${query}
+
+Rules:
+- Use the names Polymarket market titles would use: common English names for people, countries, organisations and assets (特朗普 → Trump, 美联储 → Fed, 比特币 → Bitcoin).
+- Keep numbers, dates and tickers as they are; drop filler words and question phrasing.
+- "expansions": up to 3 alternative English phrasings or abbreviations, only if they are genuinely different.
+
+Return ONLY JSON:
+{ "translation": "...", "expansions": ["..."] }`;
+
+  try {
+    const parsed = await getLLMProvider(ctx).chatJson(prompt);
+    const translation = typeof parsed?.translation === 'string' ? parsed.translation.trim() : '';
+    if (!translation) throw new Error("Empty translation");
+    const expansions: string[] = Array.isArray(parsed?.expansions)
+      ? parsed.expansions
+          .filter((e: unknown): e is string => typeof e === 'string' && !!e.trim())
+          .map((e: string) => e.trim())
+          .filter((e: string) => e.toLowerCase() !== translation.toLowerCase())
+          .slice(0, 3)
+      : [];
+    console.log(`🌐 Query translated: "${query}" → "${translation}"`, expansions.length ? expansions : '');
+    return { translation, expansions };
+  } catch (error) {
+    console.error("Error translating query:", error);
+    throw new Error("Failed to translate query using AI");
+  }
+}
+
+/**
+ * Translate short texts (market titles, reasoning) into the user's language, preserving order
+ */
+export async function translateTexts(
+  ctx: AIContext,
+  texts: string[],
+  languageName: string
+): Promise<string[]> {
+  assertAIContext(ctx);
+  if (texts.length === 0) return [];
+
+  const prompt = `Translate each prediction-market text below into ${languageName}.
+Keep names, tickers, numbers and dates accurate; keep each translation concise.
+
+Texts:
+${texts.map((text, i) => `${i}: ${text}`).join("\n")}
+
+Return ONLY JSON with exactly ${texts.length} translations in the same order:
+{ "translations": ["..."] }`;
+
+  try {
+    const parsed = await getLLMProvider(ctx).chatJson(prompt);
+    const translations = parsed?.translations;
+    if (!Array.isArray(translations) || translations.length !== texts.length) {
+      throw new Error(`Expected ${texts.length} translations, got ${Array.isArray(translations) ? translations.length : 0}`);
+    }
+    return translations.map((t: unknown, i: number) => (typeof t === 'string' && t.trim() ? t.trim() : texts[i]));
+  } catch (error) {
+    console.error("Error translating texts:", error);
+    throw new Error("Failed to translate texts using AI");
+  }
+}
+
+/**
+ * Name clusters of related markets (a few representative titles each), preserving order.
+ * Returns null for clusters the model did not name.
+ */
+export async function labelMarketClusters(
+  ctx: AIContext,
+  userQuery: string,
+  clusters: Array<{ titles: string[]; keywords: string[] }>
+): Promise<Array<string | null>> {
+  assertAIContext(ctx);
+  if (clusters.length === 0) return [];
+
+  const clustersText = clusters.map((cluster, i) => `Cluster ${i} (keywords: ${cluster.keywords.join(', ') || 'none'}):
+${cluster.titles.map((title) => `- ${title}`).join('\n')}`).join('\n\n');
+
+  const prompt = `The user searched prediction markets for "${userQuery}". The results were grouped into clusters of markets
+whose prices move together or that cover the same topic.
+
+Give each cluster a short descriptive name (2-6 words) that captures the shared theme, e.g. "Fed rate path 2025" or "Bitcoin ETF flows".
+
+${clustersText}
+
+Return ONLY JSON with exactly ${clusters.length} names in the same order:
+{ "labels": ["..."] }`;
+
+  try {
+    const parsed = await getLLMProvider(ctx).chatJson(prompt);
+    const labels = Array.isArray(parsed?.labels) ? parsed.labels : [];
+    return clusters.map((_, i) => (typeof labels[i] === 'string' && labels[i].trim() ? labels[i].trim() : null));
+  } catch (error) {
+    console.error("❌ Failed to label market clusters:", error);
+    return clusters.map(() => null);
+  }
+}
+
 export interface EventCategoryAssignment {
   index: number;
   category: string;
 }
 
 /**
- * Use Gemini to classify event titles into fixed categories
+ * Use the configured LLM provider to classify event titles into fixed categories
  */
 export async function classifyEventsByCategory(
+  ctx: AIContext,
   userQuery: string,
   eventTitles: string[],
   categories: string[],
   batchSize: number = 200
 ): Promise<EventCategoryAssignment[]> {
-  if (!process.env.GEMINI_API_KEY) {
-    throw new Error("Gemini API key is not configured");
-  }
+  assertAIContext(ctx);
 
   if (eventTitles.length === 0) {
     return [];
@@ -667,12 +742,7 @@ export async function classifyEventsByCategory(
     const prompt = `You are a professional market analysis assistant. User Query: ${userQuery}\n\nPlease classify the following event titles into one of these fixed categories: ${categories.join(" / ")}.\n\nEvent List (Format: Index: Title):\n${lines.join("\n")}\n\nOutput Requirements:\n1. Return ONLY JSON, no extra explanation\n2. Format as follows:\n{\n  \"assignments\": [\n    { \"index\": 0, \"category\": \"Economy\" },\n    { \"index\": 1, \"category\": \"Politics\" }\n  ]\n}\n3. category MUST be one of the given categories\n`;
 
     try {
-      const responseText = await callGeminiAPI(prompt);
-      const jsonText = extractJsonFromText(responseText);
-      if (!jsonText) {
-        continue;
-      }
-      const parsed = JSON.parse(jsonText);
+      const parsed = await getLLMProvider(ctx).chatJson(prompt);
       const assignments = Array.isArray(parsed?.assignments) ? parsed.assignments : [];
       assignments.forEach((item: any) => {
         const index = parseInt(item.index, 10);
@@ -0,0 +1,293 @@
+/**
+ * Resilient HTTP Client
+ * Gamma / CLOB 共用的请求层：按 host 限速与并发上限、429/5xx 指数退避重试（带抖动）、超时、响应校验与指标统计
+ */
+
+import fetch, { type RequestInit } from "node-fetch";
+
+export interface HostPolicy {
+  // 每秒最多发起的请求数
+  requestsPerSecond: number;
+  // 同一 host 同时进行中的请求上限
+  maxConcurrent: number;
+}
+
+export interface HttpRequestOptions<T = any> {
+  method?: "GET" | "POST";
+  headers?: Record<string, string>;
+  // POST 时自动 JSON 序列化
+  body?: unknown;
+  timeoutMs?: number;
+  retries?: number;
+  // 校验响应结构，返回 false 时抛出 HttpValidationError（不重试）
+  validate?: (data: unknown) => boolean;
+  // 日志 / 错误信息中的标识，如 "Gamma API"
+  label?: string;
+}
+
+export interface HostMetrics {
+  requests: number;
+  successes: number;
+  failures: number;
+  retries: number;
+  rateLimited: number;
+  timeouts: number;
+  inFlight: number;
+  queued: number;
+  avgLatencyMs: number;
+}
+
+/**
+ * 非 2xx 响应（重试耗尽后抛出）
+ */
+export class HttpError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly url: string,
+    public readonly body?: string
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+/**
+ * 响应结构不符合预期
+ */
+export class HttpValidationError extends Error {
+  constructor(message: string, public readonly url: string) {
+    super(message);
+    this.name = "HttpValidationError";
+  }
+}
+
+const DEFAULT_TIMEOUT = 15000;
+const DEFAULT_RETRIES = 3;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 10000;
+
+const DEFAULT_POLICY: HostPolicy = { requestsPerSecond: 5, maxConcurrent: 4 };
+
+const hostPolicies: Record<string, HostPolicy> = {
+  "gamma-api.polymarket.com": { requestsPerSecond: 10, maxConcurrent: 6 },
+  "clob.polymarket.com": { requestsPerSecond: 10, maxConcurrent: 6 },
+};
+
+/**
+ * 限流器：令牌间隔 + 并发信号量，排队请求按 FIFO 放行
+ */
+class HostLimiter {
+  private active = 0;
+  private nextSlot = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(public policy: HostPolicy) {}
+
+  get queued(): number {
+    return this.waiting.length;
+  }
+
+  async acquire(): Promise<() => void> {
+    if (this.active >= this.policy.maxConcurrent) {
+      // 由释放方直接移交名额，避免新请求插队
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    } else {
+      this.active++;
+    }
+
+    const interval = 1000 / this.policy.requestsPerSecond;
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot);
+    this.nextSlot = slot + interval;
+    if (slot > now) {
+      await sleep(slot - now);
+    }
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const next = this.waiting.shift();
+      if (next) next();
+      else this.active--;
+    };
+  }
+}
+
+interface MetricsCounter extends Omit<HostMetrics, "inFlight" | "queued" | "avgLatencyMs"> {
+  totalLatencyMs: number;
+  inFlight: number;
+}
+
+const limiters = new Map<string, HostLimiter>();
+const metrics = new Map<string, MetricsCounter>();
+
+function getLimiter(host: string): HostLimiter {
+  let limiter = limiters.get(host);
+  if (!limiter) {
+    limiter = new HostLimiter(hostPolicies[host] || DEFAULT_POLICY);
+    limiters.set(host, limiter);
+  }
+  return limiter;
+}
+
+function getCounter(host: string): MetricsCounter {
+  let counter = metrics.get(host);
+  if (!counter) {
+    counter = { requests: 0, successes: 0, failures: 0, retries: 0, rateLimited: 0, timeouts: 0, inFlight: 0, totalLatencyMs: 0 };
+    metrics.set(host, counter);
+  }
+  return counter;
+}
+
+/**
+ * 配置某个 host 的限速策略（未配置的 host 使用默认策略）
+ */
+export function configureHost(host: string, policy: Partial<HostPolicy>): void {
+  const merged = { ...(hostPolicies[host] || DEFAULT_POLICY), ...policy };
+  hostPolicies[host] = merged;
+  const limiter = limiters.get(host);
+  if (limiter) limiter.policy = merged;
+}
+
+/**
+ * 获取各 host 的请求指标快照
+ */
+export function getHttpMetrics(): Record<string, HostMetrics> {
+  const snapshot: Record<string, HostMetrics> = {};
+  metrics.forEach((counter, host) => {
+    const { totalLatencyMs, ...rest } = counter;
+    const completed = counter.successes + counter.failures;
+    snapshot[host] = {
+      ...rest,
+      queued: limiters.get(host)?.queued || 0,
+      avgLatencyMs: completed > 0 ? Math.round(totalLatencyMs / completed) : 0,
+    };
+  });
+  return snapshot;
+}
+
+export function resetHttpMetrics(): void {
+  metrics.clear();
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// 指数退避 + full jitter；服务端给出 Retry-After 时优先使用
+function backoffDelay(attempt: number, retryAfter?: string | null): number {
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!Number.isNaN(seconds)) return Math.min(seconds * 1000, MAX_BACKOFF_MS);
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.min(Math.max(date - Date.now(), 0), MAX_BACKOFF_MS);
+  }
+  const ceiling = Math.min(BASE_BACKOFF_MS * 2 ** attempt, MAX_BACKOFF_MS);
+  return Math.round(Math.random() * ceiling);
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * 发起请求并解析 JSON
+ * 429 / 5xx / 网络错误 / 超时会重试；其它 4xx 与校验失败直接抛出
+ */
+export async function requestJson<T = any>(url: string, options: HttpRequestOptions<T> = {}): Promise<T> {
+  const {
+    method = options.body !== undefined ? "POST" : "GET",
+    headers = {},
+    body,
+    timeoutMs = DEFAULT_TIMEOUT,
+    retries = DEFAULT_RETRIES,
+    validate,
+    label = "HTTP",
+  } = options;
+
+  const host = new URL(url).host;
+  const limiter = getLimiter(host);
+  const counter = getCounter(host);
+
+  for (let attempt = 0; ; attempt++) {
+    const release = await limiter.acquire();
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const startedAt = Date.now();
+    counter.requests++;
+    counter.inFlight++;
+
+    let retryAfter: string | null = null;
+    let lastError: Error;
+    const fail = (error: Error) => {
+      counter.failures++;
+      counter.totalLatencyMs += Date.now() - startedAt;
+      return error;
+    };
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          Accept: "application/json",
+          ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+          ...headers,
+        },
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+        signal: controller.signal as RequestInit["signal"],
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        if (validate && !validate(data)) {
+          throw fail(new HttpValidationError(`${label} returned an unexpected response shape`, url));
+        }
+        counter.successes++;
+        counter.totalLatencyMs += Date.now() - startedAt;
+        return data as T;
+      }
+
+      const text = await response.text().catch(() => "");
+      const httpError = new HttpError(`${label} error: ${response.status}`, response.status, url, text);
+      if (!isRetryableStatus(response.status)) {
+        throw fail(httpError);
+      }
+      if (response.status === 429) {
+        counter.rateLimited++;
+        retryAfter = response.headers.get("retry-after");
+      }
+      lastError = httpError;
+    } catch (error: any) {
+      if (error instanceof HttpError || error instanceof HttpValidationError) throw error;
+      if (error?.name === "AbortError") {
+        counter.timeouts++;
+        lastError = new Error(`${label} request timeout after ${timeoutMs}ms`);
+      } else {
+        lastError = error instanceof Error ? error : new Error(String(error));
+      }
+    } finally {
+      clearTimeout(timer);
+      counter.inFlight--;
+      release();
+    }
+
+    if (attempt >= retries) {
+      throw fail(lastError);
+    }
+
+    counter.retries++;
+    const delay = backoffDelay(attempt, retryAfter);
+    console.warn(`🔁 ${label} retry ${attempt + 1}/${retries} in ${delay}ms: ${lastError.message}`);
+    await sleep(delay);
+  }
+}
+
+export function getJson<T = any>(url: string, options: Omit<HttpRequestOptions<T>, "method" | "body"> = {}): Promise<T> {
+  return requestJson<T>(url, { ...options, method: "GET" });
+}
+
+export function postJson<T = any>(url: string, body: unknown, options: Omit<HttpRequestOptions<T>, "method" | "body"> = {}): Promise<T> {
+  return requestJson<T>(url, { ...options, method: "POST", body });
+}
@@ -1,80 +1,51 @@
 /**
  * Hybrid Search - combines Hard Match (direct Polymarket search) + Consortium (semantic AI results)
- * Requires GEMINI_API_KEY in process.env
+ * AI steps run on the request-scoped AIContext passed by the caller;
+ * without chat credentials, tag and event selection fall back to embedding similarity
  */
 
 import fs from "fs";
 import path from "path";
-import { pickRelevantEvents } from "@/lib/gemini";
-import type { GammaMarket, MarketData } from "@/types/polymarket";
+import {
+  embedText,
+  parseQueryIntent,
+  pickRelevantEvents,
+  translateQuery,
+  translateTexts,
+  type AIContext,
+  type QueryIntent,
+} from "@/lib/gemini";
+import { hasAICredentials } from "@/lib/llm-provider";
+import { syncVectorIndex, type HnswIndex } from "@/lib/vector-index";
+import type { PolymarketMarket, MarketData, QueryInterpretation, QueryLanguage } from "@/types/polymarket";
 import {
   searchMarkets,
   getEventsByTag,
   getEventsByIds,
+  toMarketData,
 } from "@/lib/polymarket";
 import { getCachedTags } from "@/lib/tag-cache";
+import { getCachedMarkets } from "@/lib/market-cache";
 import { filterDeadTags, markTagAsDead } from "@/lib/dead-tags";
-
-async function inflateMarkets(liteMarkets: any[]): Promise<MarketData[]> {
-  if (!liteMarkets || liteMarkets.length === 0) return [];
-  const { parseTokenIds, getBatchPrices, formatVolume } = await import(
-    "@/lib/polymarket"
-  );
-  const allTokenIds: string[] = [];
-  liteMarkets.forEach((m) => {
-    const ids = parseTokenIds(m.clobTokenIds || "[]");
-    if (ids.length > 0) allTokenIds.push(ids[0]);
-  });
-  const prices = await getBatchPrices(allTokenIds);
-
-  return liteMarkets.map((m) => {
-    const ids = parseTokenIds(m.clobTokenIds || "[]");
-    const price = ids.length > 0 ? prices[ids[0]] || 0 : 0;
-    let outcomes = m.outcomes;
-    if (typeof outcomes === "string") {
-      try {
-        outcomes = JSON.parse(outcomes);
-      } catch {
-        outcomes = ["Yes", "No"];
-      }
-    }
-    if (!outcomes || !Array.isArray(outcomes)) outcomes = ["Yes", "No"];
-    return {
-      id: m.id,
-      title: m.question || m.title,
-      outcome: outcomes[0] || "Yes",
-      probability: Math.round(price * 10000) / 100,
-      volume:
-        typeof m.volume === "number" ? formatVolume(m.volume) : (m.volume || "$0"),
-      chartData: [],
-      image: m.image,
-      slug: m.eventSlug || m.slug,
-      outcomes,
-      clobTokenId: ids.length > 0 ? ids[0] : undefined,
-      eventId: m.eventId,
-      eventTitle: m.eventTitle,
-      reasoning: m.reasoning,
-    };
-  });
-}
-
-async function convertGammaToMarketData(
-  markets: GammaMarket[]
-): Promise<MarketData[]> {
-  return inflateMarkets(
-    markets.map((m: any) => ({
-      id: m.id,
-      question: m.question,
-      clobTokenIds: m.clobTokenIds,
-      volume: m.volume,
-      image: m.image,
-      slug: m.eventSlug || m.slug,
-      outcomes: m.outcomes,
-      eventId: m.eventId,
-      eventTitle: m.eventTitle,
-    }))
-  );
-}
+import { searchMarketsLexical } from "@/lib/lexical-search";
+import { getEventCategoryMap, searchSimilarMarkets } from "@/lib/vector-cache";
+import {
+  matchesMarketFilters,
+  matchesProbability,
+  mayContainConstraints,
+  mergeFilters,
+  parseSearchQuery,
+  sortMarketData,
+  toQueryInterpretation,
+  type FilterScope,
+  type SearchFilters,
+  type SearchSort,
+} from "@/lib/query-filters";
+import { reciprocalRankFusion, type RankedList } from "@/lib/rank-fusion";
+import { detectQueryLanguage, LANGUAGE_NAMES, translateQueryOffline } from "@/lib/query-language";
+import { findKeywordMapping } from "@/lib/search-config";
+import { getKeywordMappings, recordSearchMiss } from "@/lib/keyword-mappings";
+import { recordSearchQuery } from "@/lib/search-suggest";
 
 export interface HybridSearchResult {
   hardMatch: MarketData[];
@@ -83,22 +54,313 @@ export interface HybridSearchResult {
     tagMarkets: Record<string, MarketData[]>;
     tagsUsed: Array<{ id: string; label: string }>;
   };
+  // 按 RRF 融合得分排序，每个市场带 relevance（来源与排名）
   allRelevantMarkets: MarketData[];
   directSearchTags?: Array<{ id: string; label: string }>;
+  // 实际生效的查询：语义查询、过滤条件与排序（来自查询语法或 LLM 解析）
+  interpretation: QueryInterpretation;
+}
+
+/**
+ * 融合来源：search（Polymarket 搜索）、lexical（本地 BM25）、tag（标签聚合）、vector（向量检索）、semantic（分类语义挑选）
+ */
+export type FusionSource = "search" | "lexical" | "tag" | "vector" | "semantic";
+
+export const DEFAULT_FUSION_WEIGHTS: Record<FusionSource, number> = {
+  search: 1,
+  lexical: 0.8,
+  tag: 0.5,
+  vector: 0.8,
+  semantic: 0.9,
+};
+
+/**
+ * 解析请求中的 fusionWeights（忽略未知来源与非法数值）
+ */
+export function parseFusionWeights(value: unknown): Partial<Record<FusionSource, number>> | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const weights: Partial<Record<FusionSource, number>> = {};
+  for (const source of Object.keys(DEFAULT_FUSION_WEIGHTS) as FusionSource[]) {
+    const weight = (value as Record<string, unknown>)[source];
+    if (typeof weight === "number" && Number.isFinite(weight) && weight >= 0) {
+      weights[source] = weight;
+    }
+  }
+  return Object.keys(weights).length > 0 ? weights : undefined;
+}
+
+/**
+ * 各阶段完成时的进度事件（供流式接口逐步推送）
+ */
+export type HybridSearchProgress =
+  | { stage: "interpretation"; interpretation: QueryInterpretation }
+  | {
+      stage: "hardMatch";
+      markets: MarketData[];
+      directSearchTags: Array<{ id: string; label: string }>;
+    }
+  | { stage: "tag"; tag: { id: string; label: string }; markets: MarketData[] }
+  | { stage: "semantic"; dimension: string; markets: MarketData[] }
+  | { stage: "vector"; markets: MarketData[] };
+
+export interface HybridSearchOptions {
+  onProgress?: (progress: HybridSearchProgress) => void;
+  // 客户端断开时停止后续阶段
+  signal?: AbortSignal;
+  // 覆盖默认融合权重，权重为 0 的来源不参与排序
+  fusionWeights?: Partial<Record<FusionSource, number>>;
+  // 结构化过滤与排序，与查询文本中的过滤语法合并（结构化对象优先）
+  filters?: SearchFilters;
+  sort?: SearchSort;
+  // 用 LLM 从自然语言中解析约束（默认开启，仅在有凭据且文本疑似含约束时调用）
+  interpret?: boolean;
+  // 非英文查询时把结果标题与推荐理由译回查询语言（需要 LLM 凭据）
+  translateResults?: boolean;
+}
+
+/**
+ * 无查询词时按交易量浏览缓存中的活跃市场（只有过滤条件的查询）
+ */
+export async function browseMarkets(filters: SearchFilters, scope: FilterScope, limit: number = 50): Promise<PolymarketMarket[]> {
+  const { markets } = await getCachedMarkets();
+  return markets
+    .filter((m) => m.enableOrderBook && matchesMarketFilters(m, filters, scope))
+    .sort((a, b) => b.volume - a.volume)
+    .slice(0, limit);
+}
+
+/**
+ * 解析过滤条件依赖的服务端数据：事件分类映射与标签下的事件集合
+ */
+export async function resolveFilterScope(
+  filters: SearchFilters
+): Promise<FilterScope & { tags: Array<{ id: string; label: string }> }> {
+  const scope: FilterScope & { tags: Array<{ id: string; label: string }> } = { tags: [] };
+  if (filters.category?.length) {
+    const categories = getEventCategoryMap();
+    scope.categoryOf = (eventId) => categories.get(eventId);
+  }
+  if (filters.tag?.length) {
+    const wanted = filters.tag.map((t) => t.toLowerCase());
+    const allTags = await getCachedTags();
+    scope.tags = allTags
+      .filter((tag) => wanted.includes(tag.id) || wanted.includes(tag.label.toLowerCase()) || (!!tag.slug && wanted.includes(tag.slug.toLowerCase())))
+      .map((tag) => ({ id: tag.id, label: tag.label }));
+    const events = await Promise.all(scope.tags.map((tag) => getEventsByTag(tag.id, 200)));
+    scope.tagEventIds = new Set(events.flat().map((event) => event.id));
+  }
+  return scope;
+}
+
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new Error("Hybrid search aborted");
+  }
+}
+
+// 向量回退时低于该相似度的候选视为无关
+const MIN_FALLBACK_SIMILARITY = 0.1;
+const FALLBACK_SYNC_INTERVAL = 1000 * 60 * 60;
+
+/**
+ * 按 Embedding 相似度挑选标签（无 LLM 时替代 findRelevantTags），返回标签下标
+ */
+async function rankTagsByEmbedding(
+  ctx: AIContext,
+  query: string,
+  tags: Array<{ id: string; label: string }>,
+  topN: number
+): Promise<number[]> {
+  const [queryVector, index] = await Promise.all([
+    embedText(ctx, query),
+    syncVectorIndex(
+      "tags",
+      ctx,
+      tags.map((tag) => ({ id: tag.id, text: tag.label, metadata: { endDate: null, volume: 0 } })),
+      { minIntervalMs: FALLBACK_SYNC_INTERVAL }
+    ),
+  ]);
+  const positions = new Map(tags.map((tag, i) => [tag.id, i]));
+  return index
+    .search(queryVector, topN)
+    .filter((r) => r.similarity >= MIN_FALLBACK_SIMILARITY && positions.has(r.id))
+    .map((r) => positions.get(r.id)!);
+}
+
+/**
+ * 分类事件池（categorized-events.json）的向量索引，无 LLM 时替代 pickRelevantEvents 逐分类检索
+ */
+function syncCategorizedEventIndex(
+  ctx: AIContext,
+  allCategorized: Array<{ id: string; title: string; category?: string }>
+): Promise<HnswIndex> {
+  return syncVectorIndex(
+    "categorized-events",
+    ctx,
+    allCategorized.map((event) => ({
+      id: String(event.id),
+      text: event.title,
+      metadata: { category: event.category, endDate: null, volume: 0 },
+    })),
+    { minIntervalMs: FALLBACK_SYNC_INTERVAL }
+  );
+}
+
+function pickEventsByEmbedding(
+  index: HnswIndex,
+  queryVector: number[],
+  count: number,
+  category: string
+): Array<{ id: string; reasoning: string }> {
+  return index
+    .search(queryVector, count, { category })
+    .filter((r) => r.similarity >= MIN_FALLBACK_SIMILARITY)
+    .map((r) => ({ id: r.id, reasoning: `Semantic similarity ${(r.similarity * 100).toFixed(0)}%` }));
+}
+
+// 结果译文缓存：`${语言}:${原文}` → 译文（热门市场会被不同查询反复命中）
+const displayTranslations = new Map<string, string>();
+const MAX_DISPLAY_TRANSLATIONS = 2000;
+// 每次搜索只翻译融合排序靠前的市场
+const MAX_TRANSLATED_MARKETS = 40;
+
+/**
+ * 把靠前市场的标题与推荐理由译成查询语言，返回为任意结果列表中的市场附加译文的函数
+ */
+async function buildDisplayTranslator(
+  ctx: AIContext,
+  language: QueryLanguage,
+  markets: MarketData[]
+): Promise<(market: MarketData) => MarketData> {
+  const cacheKey = (text: string) => `${language}:${text}`;
+  const texts = Array.from(
+    new Set(
+      markets
+        .slice(0, MAX_TRANSLATED_MARKETS)
+        .flatMap((m) => (m.reasoning ? [m.title, m.reasoning] : [m.title]))
+    )
+  );
+  const missing = texts.filter((text) => !displayTranslations.has(cacheKey(text)));
+  if (missing.length > 0) {
+    const translated = await translateTexts(ctx, missing, LANGUAGE_NAMES[language]);
+    missing.forEach((text, i) => displayTranslations.set(cacheKey(text), translated[i]));
+    // Map 按插入顺序迭代，超出上限时先淘汰最早的译文
+    for (const key of Array.from(displayTranslations.keys())) {
+      if (displayTranslations.size <= MAX_DISPLAY_TRANSLATIONS) break;
+      displayTranslations.delete(key);
+    }
+  }
+
+  return (market) => {
+    const title = displayTranslations.get(cacheKey(market.title));
+    if (!title) return market;
+    const reasoning = market.reasoning ? displayTranslations.get(cacheKey(market.reasoning)) : undefined;
+    return { ...market, translation: { language, title, ...(reasoning ? { reasoning } : {}) } };
+  };
 }
 
 export async function runHybridSearch(
-  query: string
+  ctx: AIContext,
+  query: string,
+  options: HybridSearchOptions = {}
 ): Promise<HybridSearchResult> {
-  const searchQuery = query.trim();
+  const { onProgress, signal, fusionWeights } = options;
+  const llmAvailable = hasAICredentials(ctx);
+  if (!llmAvailable) {
+    console.log(`🧭 HybridSearch: no ${ctx.provider} credentials, using embedding similarity for consortium`);
+  }
 
-  // 1. Hard match - direct Polymarket search
-  let directSearchMarkets: GammaMarket[] = [];
+  // 0. Query interpretation: explicit syntax > LLM-parsed constraints; structured filters override both
+  const structured = parseSearchQuery(query);
+  const knownCategories = Array.from(new Set(getEventCategoryMap().values()));
+  let intent: QueryIntent | null = null;
+  if (llmAvailable && options.interpret !== false && structured.text && mayContainConstraints(structured.text)) {
+    try {
+      intent = await parseQueryIntent(ctx, structured.text, { categories: knownCategories });
+    } catch (error) {
+      console.warn("HybridSearch: Query intent parsing failed, using raw query", error);
+    }
+  }
+  const filters = mergeFilters(mergeFilters(intent?.filters ?? {}, structured.filters), options.filters ?? {});
+  if (filters.category?.length) {
+    // 分类名按 categorized-events.json 中的写法归一（大小写不敏感）
+    filters.category = filters.category.map(
+      (c) => knownCategories.find((known) => known.toLowerCase() === c.toLowerCase()) ?? c
+    );
+  }
+  const sort = options.sort ?? structured.sort ?? intent?.sort;
+  const semanticQuery = intent?.semanticQuery ?? structured.text;
+
+  // Cross-lingual: Polymarket titles are English, so non-English queries are translated before retrieval
+  const mappings = await getKeywordMappings();
+  const language = detectQueryLanguage(semanticQuery);
+  let searchQuery = semanticQuery;
+  let expansions: string[] = [];
+  if (language !== "en") {
+    if (llmAvailable) {
+      try {
+        const translated = await translateQuery(ctx, semanticQuery, LANGUAGE_NAMES[language]);
+        searchQuery = translated.translation;
+        expansions = translated.expansions;
+      } catch (error) {
+        console.warn("HybridSearch: Query translation failed, trying keyword glossary", error);
+      }
+    }
+    if (searchQuery === semanticQuery) {
+      searchQuery = translateQueryOffline(semanticQuery, mappings) ?? semanticQuery;
+    }
+  }
+  // 管理端配置的关键词映射：同义词补充词法检索，映射的标签优先参与标签聚合
+  const keywordMapping = semanticQuery
+    ? findKeywordMapping(semanticQuery, mappings) ?? findKeywordMapping(searchQuery, mappings)
+    : null;
+  if (keywordMapping) {
+    expansions = [...expansions, ...keywordMapping.synonyms.slice(0, 5)];
+  }
+  const interpretation = toQueryInterpretation(
+    query,
+    { text: semanticQuery, filters, sort },
+    {
+      explanation: intent?.explanation,
+      source: intent ? "llm" : "syntax",
+      language,
+      translatedQuery: searchQuery !== semanticQuery ? searchQuery : undefined,
+    }
+  );
+  onProgress?.({ stage: "interpretation", interpretation });
+  const scope = await resolveFilterScope(filters);
+  // 每个阶段都用同一套条件过滤：市场级条件在转换前，概率条件在取得报价后
+  const keep = (m: PolymarketMarket) => m.enableOrderBook && matchesMarketFilters(m, filters, scope);
+  const keepPriced = (markets: MarketData[]) => markets.filter((m) => matchesProbability(m, filters));
+
+  // 1. Hard match - direct Polymarket search, topped up (or replaced when offline) by the local BM25 index
+  let directSearchMarkets: PolymarketMarket[] = [];
   let directSearchTags: Array<{ id: string; label: string }> = [];
+  let searchRankedIds: string[] = [];
+  let lexicalRankedIds: string[] = [];
   try {
-    const directResults = await searchMarkets(searchQuery);
-    directSearchMarkets = directResults.slice(0, 50);
-    const allTags = await getCachedTags();
+    // 只有过滤条件没有查询词时，按交易量浏览缓存中的市场
+    const search = searchQuery
+      ? searchMarkets(searchQuery, { status: filters.status })
+      : browseMarkets(filters, scope);
+    const [directResults, lexicalHits] = await Promise.all([
+      search.catch((error) => {
+        console.warn("HybridSearch: Polymarket search failed, using local index only", error);
+        return [] as PolymarketMarket[];
+      }),
+      // 译文的其他说法只补充本地词法检索（BM25 为词项并集，不会收窄结果）
+      (searchQuery ? searchMarketsLexical([searchQuery, ...expansions].join(" "), { limit: 200 }) : Promise.resolve([])).catch((error) => {
+        console.warn("HybridSearch: Lexical search failed", error);
+        return [];
+      }),
+    ]);
+    const directFiltered = directResults.filter(keep);
+    const seen = new Set(directFiltered.map((m) => m.id));
+    const lexicalFiltered = lexicalHits.map((hit) => hit.item).filter(keep).slice(0, 50);
+    searchRankedIds = directFiltered.map((m) => m.id);
+    lexicalRankedIds = lexicalFiltered.map((m) => m.id);
+    directSearchMarkets = [...directFiltered, ...lexicalFiltered.filter((m) => !seen.has(m.id))].slice(0, 50);
+    const allTags = searchQuery ? await getCachedTags() : [];
     const searchLower = searchQuery.toLowerCase();
     directSearchTags = allTags
       .filter(
@@ -112,60 +374,99 @@ export async function runHybridSearch(
     console.warn("HybridSearch: Direct search failed", error);
   }
 
-  const hardMatch = await convertGammaToMarketData(directSearchMarkets);
+  const hardMatch = keepPriced(await toMarketData(directSearchMarkets));
+  onProgress?.({ stage: "hardMatch", markets: hardMatch, directSearchTags });
+  // 直接检索无结果的查询记入失败列表，供管理页面挖掘映射候选；有结果的作为热门查询建议
+  if (semanticQuery && hardMatch.length === 0) {
+    void recordSearchMiss(semanticQuery, 0);
+  } else if (semanticQuery) {
+    void recordSearchQuery(semanticQuery);
+  }
+  throwIfAborted(signal);
+
+  // 向量检索与标签、语义阶段并行（首次需要为全部活跃市场建立索引）
+  const vectorPromise = (searchQuery
+    ? searchSimilarMarkets(ctx, searchQuery, 30, {
+        category: filters.category,
+        endAfter: filters.endAfter,
+        endBefore: filters.endBefore,
+        minVolume: filters.minVolume,
+      })
+    : Promise.resolve([]))
+    .then((markets) => toMarketData(markets.filter(keep)))
+    .then(keepPriced)
+    .then((markets) => {
+      onProgress?.({ stage: "vector", markets });
+      return markets;
+    })
+    .catch((error) => {
+      console.warn("HybridSearch: Vector search failed", error);
+      return [] as MarketData[];
+    });
 
   // 2. Tag-based consortium
   let validTagsUsed: Array<{ id: string; label: string }> = [];
   const tagMarketsDataCache: Record<string, MarketData[]> = {};
+  const tagLists: RankedList<MarketData>[] = [];
   try {
     const { findRelevantTags } = await import("@/lib/gemini");
     const allTags = await getCachedTags();
-    const activeTagsOnly = filterDeadTags(allTags);
+    const activeTagsOnly = await filterDeadTags(allTags);
 
-    if (activeTagsOnly.length > 0) {
-      const relevantTagIndices = await findRelevantTags(
-        searchQuery,
-        activeTagsOnly,
-        15
-      );
-      const candidateTags = relevantTagIndices
-        .map((idx) => activeTagsOnly[idx])
-        .filter(Boolean);
+    // tag: 过滤时直接使用指定标签，否则由 LLM（或向量相似度）挑选
+    if (scope.tags.length > 0 || (searchQuery && activeTagsOnly.length > 0)) {
+      let candidateTags = scope.tags;
+      if (candidateTags.length === 0) {
+        const relevantTagIndices = llmAvailable
+          ? await findRelevantTags(ctx, searchQuery, activeTagsOnly, 15)
+          : await rankTagsByEmbedding(ctx, searchQuery, activeTagsOnly, 15);
+        candidateTags = relevantTagIndices
+          .map((idx) => activeTagsOnly[idx])
+          .filter(Boolean);
+        const mappedTag = activeTagsOnly.find((tag) => tag.id === keywordMapping?.tagId);
+        if (mappedTag) {
+          candidateTags = [mappedTag, ...candidateTags.filter((tag) => tag.id !== mappedTag.id)];
+        }
+      }
 
       for (const tag of candidateTags) {
         if (validTagsUsed.length >= 8) break;
+        throwIfAborted(signal);
         const events = await getEventsByTag(tag.id, 50);
-        const markets: GammaMarket[] = [];
-        events.forEach((event) => {
-          if (event.markets && Array.isArray(event.markets)) {
-            markets.push(
-              ...event.markets
-                .filter((m) => m.active && !m.closed && m.enableOrderBook)
-                .map((m) => ({ ...m, eventSlug: event.slug }))
-            );
-          }
-        });
+        const tradable = events.flatMap((event) =>
+          event.markets.filter((m) => m.active && !m.closed && m.enableOrderBook)
+        );
+        if (tradable.length === 0) {
+          await markTagAsDead(tag.id);
+          continue;
+        }
 
+        const markets = keepPriced(
+          await toMarketData(events.flatMap((event) => event.markets.filter(keep)).slice(0, 30))
+        );
         if (markets.length > 0) {
-          tagMarketsDataCache[tag.id] = await convertGammaToMarketData(
-            markets.slice(0, 30)
-          );
+          tagMarketsDataCache[tag.id] = markets;
           validTagsUsed.push({ id: tag.id, label: tag.label });
-        } else {
-          markTagAsDead(tag.id);
+          tagLists.push({ source: "tag", label: tag.label, items: tagMarketsDataCache[tag.id] });
+          onProgress?.({
+            stage: "tag",
+            tag: { id: tag.id, label: tag.label },
+            markets: tagMarketsDataCache[tag.id],
+          });
         }
       }
     }
   } catch (error) {
     console.warn("HybridSearch: Tag search failed", error);
   }
+  throwIfAborted(signal);
 
   // 3. Semantic consortium (categorized-events.json)
   let semanticGroupsData: Array<{
     dimension: string;
     markets: MarketData[];
   }> = [];
-  const categories = [
+  const defaultCategories = [
     "Live Crypto",
     "politics",
     "middle east",
@@ -175,24 +476,34 @@ export async function runHybridSearch(
     "tech",
     "ai",
   ];
+  // category: 过滤时只在指定分类中挑选
+  const categories = filters.category?.length ? filters.category : defaultCategories;
 
   try {
     const dataPath = path.join(process.cwd(), "data", "categorized-events.json");
-    if (fs.existsSync(dataPath)) {
+    if (searchQuery && fs.existsSync(dataPath)) {
       const allCategorized: any[] = JSON.parse(
         fs.readFileSync(dataPath, "utf-8")
       );
 
+      // 所有分类共用一次查询向量与索引同步
+      const embeddingFallback = llmAvailable
+        ? null
+        : await Promise.all([
+            embedText(ctx, searchQuery),
+            syncCategorizedEventIndex(ctx, allCategorized),
+          ]);
+
       const picksPromises = categories.map(async (cat) => {
         const pool = allCategorized.filter((e) => e.category === cat);
-        if (pool.length === 0) return { dimension: cat, markets: [] };
+        if (pool.length === 0) {
+          onProgress?.({ stage: "semantic", dimension: cat, markets: [] });
+          return { dimension: cat, markets: [] };
+        }
 
-        const relevantPicks = await pickRelevantEvents(
-          searchQuery,
-          pool,
-          50,
-          cat
-        );
+        const relevantPicks = embeddingFallback
+          ? pickEventsByEmbedding(embeddingFallback[1], embeddingFallback[0], 50, cat)
+          : await pickRelevantEvents(ctx, searchQuery, pool, 50, cat);
         const relevantIds = relevantPicks.map((p) => p.id);
         const reasoningMap = new Map(
           relevantPicks.map((p) => [p.id, p.reasoning])
@@ -201,24 +512,15 @@ export async function runHybridSearch(
         const fullEvents = await getEventsByIds(relevantIds);
         const liteMarkets = fullEvents
           .map((event) => {
-            if (!event.markets || !Array.isArray(event.markets)) return null;
-            const validMarkets = event.markets.filter(
-              (m: any) => m.active && !m.closed && m.enableOrderBook
-            );
+            const validMarkets = event.markets.filter(keep);
             if (validMarkets.length === 0) return null;
-            const topMarket = validMarkets.sort(
-              (a: any, b: any) => (b.volume || 0) - (a.volume || 0)
-            )[0];
-            return {
-              ...topMarket,
-              eventSlug: event.slug,
-              eventTitle: event.title,
-              reasoning: reasoningMap.get(event.id),
-            };
+            const topMarket = validMarkets.sort((a, b) => b.volume - a.volume)[0];
+            return { ...topMarket, reasoning: reasoningMap.get(event.id) };
           })
-          .filter(Boolean);
+          .filter((m): m is PolymarketMarket & { reasoning: string | undefined } => m !== null);
 
-        const markets = await inflateMarkets(liteMarkets);
+        const markets = keepPriced(await toMarketData(liteMarkets));
+        onProgress?.({ stage: "semantic", dimension: cat, markets });
         return { dimension: cat, markets };
       });
 
@@ -243,25 +545,82 @@ export async function runHybridSearch(
     console.warn("HybridSearch: Semantic selection failed", error);
   }
 
-  const allUniqueMarketsMap = new Map<string, MarketData>();
-  hardMatch.forEach((m) => allUniqueMarketsMap.set(m.id, m));
-  semanticGroupsData.forEach((g) =>
-    g.markets.forEach((m) => allUniqueMarketsMap.set(m.id, m))
-  );
-  Object.values(tagMarketsDataCache).forEach((markets) =>
-    markets.forEach((m) => allUniqueMarketsMap.set(m.id, m))
+  // 4. Reciprocal-rank fusion across all sources
+  const vectorMarkets = await vectorPromise;
+  const hardMatchById = new Map(hardMatch.map((m) => [m.id, m]));
+  const byIds = (ids: string[]) =>
+    ids.map((id) => hardMatchById.get(id)).filter((m): m is MarketData => !!m);
+
+  const fused = reciprocalRankFusion<MarketData>(
+    [
+      { source: "search", items: byIds(searchRankedIds) },
+      { source: "lexical", items: byIds(lexicalRankedIds) },
+      { source: "vector", items: vectorMarkets },
+      ...tagLists,
+      ...semanticGroupsData.map((g) => ({ source: "semantic", label: g.dimension, items: g.markets })),
+    ],
+    (m) => m.id,
+    { weights: { ...DEFAULT_FUSION_WEIGHTS, ...fusionWeights } },
+    // 保留首次出现的版本，补上后续来源提供的推荐理由
+    (existing, incoming) =>
+      existing.reasoning || !incoming.reasoning ? existing : { ...existing, reasoning: incoming.reasoning }
   );
-  const allRelevantMarkets = Array.from(allUniqueMarketsMap.values());
+  const allRelevantMarkets = fused.map(({ item, score, provenance }) => ({
+    ...item,
+    relevance: {
+      score: Math.round(score * 10000) / 10000,
+      sources: provenance.map(({ source, label, rank }) => ({ source, label, rank })),
+    },
+  }));
+
+  // 5. Sort order (after fusion, so ranks above reflect relevance)
+  const sortedRelevant = sortMarketData(allRelevantMarkets, sort);
+
+  // 6. Optional translation of titles and reasoning back into the query language
+  let localize = (market: MarketData) => market;
+  if (options.translateResults && language !== "en" && llmAvailable && sortedRelevant.length > 0) {
+    try {
+      localize = await buildDisplayTranslator(ctx, language, sortedRelevant);
+    } catch (error) {
+      console.warn("HybridSearch: Result translation failed, returning English titles", error);
+    }
+  }
+  const present = (markets: MarketData[]) => sortMarketData(markets, sort).map(localize);
+
+  Object.keys(tagMarketsDataCache).forEach((key) => {
+    tagMarketsDataCache[key] = present(tagMarketsDataCache[key]);
+  });
 
   return {
-    hardMatch,
+    hardMatch: present(hardMatch),
     consortium: {
-      semanticGroups: semanticGroupsData,
+      semanticGroups: semanticGroupsData.map((g) => ({ ...g, markets: present(g.markets) })),
       tagMarkets: tagMarketsDataCache,
       tagsUsed: validTagsUsed,
     },
-    allRelevantMarkets,
+    allRelevantMarkets: sortedRelevant.map(localize),
     directSearchTags:
       directSearchTags.length > 0 ? directSearchTags : undefined,
+    interpretation,
+  };
+}
+
+/**
+ * 转换为 /api/polymarket/ai-search 的响应结构（普通与流式接口共用）
+ */
+export function formatHybridSearchResponse(result: HybridSearchResult) {
+  return {
+    markets: result.hardMatch,
+    allRelevantMarkets: result.allRelevantMarkets,
+    source: "hybrid",
+    message: `Found ${result.hardMatch.length} direct results and multi-dimensional selections`,
+    suggestedQueries: result.consortium.tagsUsed.map((t) => t.label).slice(0, 3),
+    tagsUsed: result.consortium.tagsUsed,
+    tagMarketsCache: result.consortium.tagMarkets,
+    semanticGroups: result.consortium.semanticGroups,
+    directSearchTags: result.directSearchTags,
+    hardMatch: result.hardMatch,
+    consortium: result.consortium,
+    interpretation: result.interpretation,
   };
 }
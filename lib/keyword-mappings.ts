@@ -0,0 +1,288 @@
+/**
+ * Keyword Mapping Store
+ * 关键词映射的持久化与管理：存储中的映射优先，从未保存过时使用 search-config 中的默认映射
+ * 同时记录无结果 / 结果过少的查询，从中挖掘需要补充映射的候选词
+ */
+
+import { getStorage } from "./storage";
+import { DEFAULT_KEYWORD_MAPPINGS, findKeywordMapping, type KeywordMapping } from "./search-config";
+import { getCachedTags, type PolymarketTag } from "./tag-cache";
+import { filterDeadTags, getDeadTags } from "./dead-tags";
+import { getEventsByTag } from "./polymarket";
+import { searchMarketsLexical } from "./lexical-search";
+import { translateQueryOffline } from "./query-language";
+import { tokenize } from "./text-tokenizer";
+
+export interface StoredKeywordMapping extends KeywordMapping {
+  id: string;
+  updatedAt: number;
+}
+
+export interface SearchMissRecord {
+  query: string;
+  count: number;
+  firstSeen: number;
+  lastSeen: number;
+  // 最近一次的结果数
+  lastResultCount: number;
+}
+
+export interface MappingSuggestion {
+  query: string;
+  count: number;
+  lastSeen: number;
+  // 标签名与查询词重合的活跃标签，按重合度排序
+  suggestedTags: Array<{ id: string; label: string }>;
+}
+
+export interface MappingTestResult {
+  query: string;
+  mapping: KeywordMapping | null;
+  // tagId 在实时标签列表中的状态：missing 表示标签已不存在，dead 表示没有活跃市场
+  tag: { id: string; label: string; slug: string } | null;
+  tagStatus: "none" | "ok" | "missing" | "dead";
+  tagMarketCount: number;
+  synonymHits: Array<{ synonym: string; count: number }>;
+}
+
+interface MappingDocument {
+  mappings: StoredKeywordMapping[];
+}
+
+const MAPPINGS_KEY = "keyword-mappings";
+// 多实例部署时，其它实例的修改最迟在此间隔后生效
+const MAPPINGS_REFRESH_INTERVAL = 1000 * 30;
+// 失败查询保留 30 天
+const SEARCH_MISS_TTL = 1000 * 60 * 60 * 24 * 30;
+const MAX_QUERY_LENGTH = 100;
+
+let cachedMappings: { mappings: StoredKeywordMapping[]; loadedAt: number } | null = null;
+
+function defaultMappings(): StoredKeywordMapping[] {
+  return DEFAULT_KEYWORD_MAPPINGS.map((mapping, i) => ({ ...mapping, id: `default-${i + 1}`, updatedAt: 0 }));
+}
+
+/**
+ * 当前生效的关键词映射（进程内缓存 30 秒）
+ */
+export async function getKeywordMappings(): Promise<StoredKeywordMapping[]> {
+  if (cachedMappings && Date.now() - cachedMappings.loadedAt < MAPPINGS_REFRESH_INTERVAL) {
+    return cachedMappings.mappings;
+  }
+  const entry = await getStorage().get<MappingDocument>("search-config", MAPPINGS_KEY);
+  const mappings = entry?.value.mappings ?? defaultMappings();
+  cachedMappings = { mappings, loadedAt: Date.now() };
+  return mappings;
+}
+
+async function saveKeywordMappings(mappings: StoredKeywordMapping[]): Promise<void> {
+  await getStorage().set<MappingDocument>("search-config", MAPPINGS_KEY, { mappings });
+  cachedMappings = { mappings, loadedAt: Date.now() };
+}
+
+function toStringList(value: unknown): string[] {
+  const list = Array.isArray(value) ? value : typeof value === "string" ? value.split(",") : [];
+  const seen = new Set<string>();
+  return list
+    .filter((item): item is string => typeof item === "string")
+    .map((item) => item.trim())
+    .filter((item) => {
+      const key = item.toLowerCase();
+      if (!item || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * 校验映射输入：至少一个关键词、关键词不与其它映射重复、tagId 必须是实时标签列表中的标签
+ */
+export async function validateKeywordMapping(
+  value: unknown,
+  excludeId?: string
+): Promise<{ mapping: KeywordMapping | null; errors: string[] }> {
+  if (!value || typeof value !== "object") {
+    return { mapping: null, errors: ["Mapping must be an object"] };
+  }
+  const raw = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const keywords = toStringList(raw.keywords);
+  if (keywords.length === 0) errors.push("At least one keyword is required");
+
+  const existing = (await getKeywordMappings()).filter((m) => m.id !== excludeId);
+  const taken = new Map(existing.flatMap((m) => m.keywords.map((k) => [k.toLowerCase(), m.id] as const)));
+  keywords
+    .filter((keyword) => taken.has(keyword.toLowerCase()))
+    .forEach((keyword) => errors.push(`Keyword "${keyword}" is already used by mapping ${taken.get(keyword.toLowerCase())}`));
+
+  const tagId = typeof raw.tagId === "string" && raw.tagId.trim() ? raw.tagId.trim() : undefined;
+  if (tagId) {
+    const tags = await getCachedTags();
+    if (!tags.some((tag) => tag.id === tagId)) errors.push(`Unknown tag id "${tagId}"`);
+  }
+  const category = typeof raw.category === "string" && raw.category.trim() ? raw.category.trim() : undefined;
+
+  if (errors.length > 0) return { mapping: null, errors };
+  return {
+    mapping: {
+      keywords,
+      synonyms: toStringList(raw.synonyms),
+      ...(tagId ? { tagId } : {}),
+      ...(category ? { category } : {}),
+    },
+    errors,
+  };
+}
+
+export async function createKeywordMapping(mapping: KeywordMapping): Promise<StoredKeywordMapping> {
+  const mappings = await getKeywordMappings();
+  const created: StoredKeywordMapping = {
+    ...mapping,
+    id: `map-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    updatedAt: Date.now(),
+  };
+  await saveKeywordMappings([...mappings, created]);
+  console.log(`🗂️ Keyword mapping created: ${created.keywords.join(", ")}`);
+  return created;
+}
+
+/**
+ * 更新映射，ID 不存在时返回 null
+ */
+export async function updateKeywordMapping(id: string, mapping: KeywordMapping): Promise<StoredKeywordMapping | null> {
+  const mappings = await getKeywordMappings();
+  const index = mappings.findIndex((m) => m.id === id);
+  if (index === -1) return null;
+  const updated: StoredKeywordMapping = { ...mapping, id, updatedAt: Date.now() };
+  await saveKeywordMappings(mappings.map((m, i) => (i === index ? updated : m)));
+  console.log(`🗂️ Keyword mapping updated: ${updated.keywords.join(", ")}`);
+  return updated;
+}
+
+export async function deleteKeywordMapping(id: string): Promise<boolean> {
+  const mappings = await getKeywordMappings();
+  const remaining = mappings.filter((m) => m.id !== id);
+  if (remaining.length === mappings.length) return false;
+  await saveKeywordMappings(remaining);
+  console.log(`🗂️ Keyword mapping ${id} deleted`);
+  return true;
+}
+
+/**
+ * 测试查询命中的映射：传入 draft 时只测试该映射（编辑中尚未保存），否则使用当前生效的映射
+ */
+export async function testKeywordMapping(query: string, draft?: KeywordMapping): Promise<MappingTestResult> {
+  const mapping = findKeywordMapping(query, draft ? [draft] : await getKeywordMappings());
+  const result: MappingTestResult = {
+    query,
+    mapping,
+    tag: null,
+    tagStatus: "none",
+    tagMarketCount: 0,
+    synonymHits: [],
+  };
+  if (!mapping) return result;
+
+  if (mapping.tagId) {
+    const [tags, deadTags] = await Promise.all([getCachedTags(), getDeadTags()]);
+    const tag = tags.find((t) => t.id === mapping.tagId);
+    if (!tag) {
+      result.tagStatus = "missing";
+    } else {
+      result.tag = { id: tag.id, label: tag.label, slug: tag.slug };
+      const events = await getEventsByTag(tag.id, 50);
+      result.tagMarketCount = events.reduce(
+        (count, event) => count + event.markets.filter((m) => m.active && !m.closed && m.enableOrderBook).length,
+        0
+      );
+      result.tagStatus = result.tagMarketCount > 0 && !deadTags.includes(tag.id) ? "ok" : "dead";
+    }
+  }
+
+  result.synonymHits = await Promise.all(
+    mapping.synonyms.slice(0, 10).map(async (synonym) => ({
+      synonym,
+      count: (await searchMarketsLexical(synonym, { limit: 50 }).catch(() => [])).length,
+    }))
+  );
+  return result;
+}
+
+function normalizeQuery(query: string): string {
+  return query.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * 记录结果为空或过少的查询（调用方无需等待，失败只打日志）
+ */
+export async function recordSearchMiss(query: string, resultCount: number): Promise<void> {
+  const key = normalizeQuery(query);
+  if (key.length < 2 || key.length > MAX_QUERY_LENGTH) return;
+  try {
+    const storage = getStorage();
+    const existing = await storage.get<SearchMissRecord>("search-misses", key);
+    const now = Date.now();
+    await storage.set<SearchMissRecord>(
+      "search-misses",
+      key,
+      {
+        query: key,
+        count: (existing?.value.count ?? 0) + 1,
+        firstSeen: existing?.value.firstSeen ?? now,
+        lastSeen: now,
+        lastResultCount: resultCount,
+      },
+      SEARCH_MISS_TTL
+    );
+  } catch (error) {
+    console.error("Failed to record search miss:", error);
+  }
+}
+
+export async function dismissSearchMiss(query: string): Promise<void> {
+  await getStorage().delete("search-misses", normalizeQuery(query));
+}
+
+// 标签名与查询词的重合度（标签名中被查询覆盖的词项比例）
+function rankTagsForQuery(query: string, tags: PolymarketTag[], limit: number): Array<{ id: string; label: string }> {
+  const queryTokens = new Set(tokenize(query));
+  if (queryTokens.size === 0) return [];
+  return tags
+    .map((tag) => {
+      const labelTokens = tokenize(tag.label);
+      const overlap = labelTokens.filter((token) => queryTokens.has(token)).length;
+      return { tag, score: labelTokens.length > 0 ? overlap / labelTokens.length : 0 };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ tag }) => ({ id: tag.id, label: tag.label }));
+}
+
+/**
+ * 挖掘映射候选：多次失败、且尚未被任何映射覆盖的查询，按失败次数排序
+ */
+export async function getMappingSuggestions(
+  options: { limit?: number; minCount?: number } = {}
+): Promise<MappingSuggestion[]> {
+  const { limit = 20, minCount = 2 } = options;
+  const [misses, mappings, tags] = await Promise.all([
+    getStorage().list<SearchMissRecord>("search-misses"),
+    getKeywordMappings(),
+    getCachedTags().then(filterDeadTags),
+  ]);
+
+  return misses
+    .map((entry) => entry.value)
+    .filter((miss) => miss.count >= minCount && !findKeywordMapping(miss.query, mappings))
+    .sort((a, b) => b.count - a.count || b.lastSeen - a.lastSeen)
+    .slice(0, limit)
+    .map((miss) => ({
+      query: miss.query,
+      count: miss.count,
+      lastSeen: miss.lastSeen,
+      // 中文查询先用已有映射转成英文，再与英文标签名比较
+      suggestedTags: rankTagsForQuery(translateQueryOffline(miss.query, mappings) ?? miss.query, tags, 3),
+    }));
+}
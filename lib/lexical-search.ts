@@ -0,0 +1,85 @@
+/**
+ * Lexical Search Service
+ * 基于缓存的活跃事件 / 市场构建 BM25 索引，离线时也能做关键词检索，并为结果融合提供词法得分
+ */
+
+import type { PolymarketEvent, PolymarketMarket } from "@/types/polymarket";
+import { Bm25Index, type Bm25SearchOptions } from "./bm25";
+import { getCachedEvents } from "./event-cache";
+import { getCachedMarkets } from "./market-cache";
+
+export interface LexicalHit<T> {
+  item: T;
+  score: number;
+  matchedTerms: string[];
+}
+
+interface BuiltIndex<T> {
+  index: Bm25Index;
+  items: Map<string, T>;
+  version: number; // 构建时缓存的 fetchedAt
+}
+
+let marketIndex: BuiltIndex<PolymarketMarket> | null = null;
+let eventIndex: BuiltIndex<PolymarketEvent> | null = null;
+
+/**
+ * 市场索引：问题权重最高，父事件标题作为补充上下文
+ */
+export async function getMarketLexicalIndex(): Promise<BuiltIndex<PolymarketMarket>> {
+  // 缓存每次刷新都重建（标题、交易量等可能变化）
+  const { markets, fetchedAt } = await getCachedMarkets();
+  if (!marketIndex || marketIndex.version !== fetchedAt) {
+    const index = new Bm25Index({ fields: { question: 2, eventTitle: 1 } });
+    markets.forEach((market) => index.add(market.id, { question: market.question, eventTitle: market.eventTitle }));
+    marketIndex = { index, items: new Map(markets.map((m) => [m.id, m])), version: fetchedAt };
+    console.log(`📇 BM25 market index built (${index.size} markets)`);
+  }
+  return marketIndex;
+}
+
+/**
+ * 事件索引：事件标题 + 子市场问题
+ */
+export async function getEventLexicalIndex(): Promise<BuiltIndex<PolymarketEvent>> {
+  const { events, fetchedAt } = await getCachedEvents();
+  if (!eventIndex || eventIndex.version !== fetchedAt) {
+    const index = new Bm25Index({ fields: { title: 2, questions: 0.5 } });
+    events.forEach((event) =>
+      index.add(event.id, {
+        title: event.title,
+        questions: event.markets.map((m) => m.question).join(" "),
+      })
+    );
+    eventIndex = { index, items: new Map(events.map((e) => [e.id, e])), version: fetchedAt };
+    console.log(`📇 BM25 event index built (${index.size} events)`);
+  }
+  return eventIndex;
+}
+
+function resolveHits<T>(built: BuiltIndex<T>, query: string, options: Bm25SearchOptions): LexicalHit<T>[] {
+  return built.index
+    .search(query, options)
+    .map((hit) => ({ item: built.items.get(hit.id), score: hit.score, matchedTerms: hit.matchedTerms }))
+    .filter((hit): hit is LexicalHit<T> => hit.item !== undefined);
+}
+
+/**
+ * 关键词检索活跃市场（支持 "短语" 与 前缀*）
+ */
+export async function searchMarketsLexical(
+  query: string,
+  options: Bm25SearchOptions = {}
+): Promise<LexicalHit<PolymarketMarket>[]> {
+  return resolveHits(await getMarketLexicalIndex(), query, options);
+}
+
+/**
+ * 关键词检索活跃事件
+ */
+export async function searchEventsLexical(
+  query: string,
+  options: Bm25SearchOptions = {}
+): Promise<LexicalHit<PolymarketEvent>[]> {
+  return resolveHits(await getEventLexicalIndex(), query, options);
+}
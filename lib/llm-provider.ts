@@ -0,0 +1,562 @@
+/**
+ * LLM Provider Layer
+ * Unified chat / JSON / embedding interface over Gemini, Anthropic, OpenAI and OpenAI-compatible servers
+ */
+
+import http from 'http';
+import https from 'https';
+import { parseSSE } from './sse';
+
+export type LLMProviderName = 'gemini' | 'anthropic' | 'openai' | 'openai-compatible';
+
+/**
+ * Request-scoped AI credentials
+ * Every AI helper receives one explicitly, so concurrent requests never share keys
+ */
+export interface AIContext {
+  provider: LLMProviderName;
+  apiKey: string;
+  baseUrl: string;
+  model: string;
+  embeddingModel?: string;
+}
+
+export interface ChatOptions {
+  system?: string;
+  temperature?: number;
+  maxTokens?: number;
+  timeoutMs?: number;
+  // 流式请求：客户端取消时中断上游连接
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  chat(prompt: string, options?: ChatOptions): Promise<string>;
+  chatJson<T = any>(prompt: string, options?: ChatOptions): Promise<T>;
+  // 逐段产出文本增量（timeoutMs 视为空闲超时）
+  chatStream(prompt: string, options?: ChatOptions): AsyncGenerator<string>;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+interface ProviderDefaults {
+  apiKeyEnv: string;
+  baseUrlEnv: string;
+  baseUrl: string;
+  model: string;
+  modelEnv?: string;
+  embeddingModel?: string;
+  embeddingModelEnv?: string;
+  requiresApiKey: boolean;
+}
+
+const PROVIDER_DEFAULTS: Record<LLMProviderName, ProviderDefaults> = {
+  gemini: {
+    apiKeyEnv: 'GEMINI_API_KEY',
+    baseUrlEnv: 'GEMINI_BASE_URL',
+    baseUrl: 'https://generativelanguage.googleapis.com',
+    model: 'gemini-2.0-flash',
+    embeddingModel: 'text-embedding-004',
+    requiresApiKey: true,
+  },
+  anthropic: {
+    apiKeyEnv: 'ANTHROPIC_API_KEY',
+    baseUrlEnv: 'ANTHROPIC_PROXY_URL',
+    baseUrl: 'https://api.anthropic.com',
+    model: 'claude-3-5-sonnet-20241022',
+    requiresApiKey: true,
+  },
+  openai: {
+    apiKeyEnv: 'OPENAI_API_KEY',
+    baseUrlEnv: 'OPENAI_PROXY_URL',
+    baseUrl: 'https://api.openai.com/v1',
+    model: 'gpt-4o',
+    embeddingModel: 'text-embedding-3-small',
+    requiresApiKey: true,
+  },
+  'openai-compatible': {
+    apiKeyEnv: 'LOCAL_LLM_API_KEY',
+    baseUrlEnv: 'LOCAL_LLM_BASE_URL',
+    baseUrl: 'http://localhost:11434/v1',
+    model: 'llama3.1',
+    modelEnv: 'LOCAL_LLM_MODEL',
+    embeddingModel: 'nomic-embed-text',
+    embeddingModelEnv: 'LOCAL_LLM_EMBEDDING_MODEL',
+    requiresApiKey: false,
+  },
+};
+
+/**
+ * ModelSelector 选项到 Provider 的映射（mirothinker 走独立的 MiroFlow 路由）
+ */
+export const MODEL_PROVIDERS: Record<string, LLMProviderName> = {
+  gemini: 'gemini',
+  claude: 'anthropic',
+  chatgpt: 'openai',
+  local: 'openai-compatible',
+};
+
+export function isLLMProviderName(value: unknown): value is LLMProviderName {
+  return typeof value === 'string' && value in PROVIDER_DEFAULTS;
+}
+
+/**
+ * Build an AIContext from per-request overrides, falling back to server env defaults
+ */
+export function createAIContext(overrides: Partial<AIContext> = {}): AIContext {
+  const provider = overrides.provider || 'gemini';
+  const defaults = PROVIDER_DEFAULTS[provider];
+  return {
+    provider,
+    apiKey: overrides.apiKey?.trim() || process.env[defaults.apiKeyEnv] || '',
+    baseUrl: (overrides.baseUrl?.trim() || process.env[defaults.baseUrlEnv] || defaults.baseUrl).replace(/\/$/, ''),
+    model: overrides.model?.trim() || (defaults.modelEnv && process.env[defaults.modelEnv]) || defaults.model,
+    embeddingModel: overrides.embeddingModel?.trim()
+      || (defaults.embeddingModelEnv && process.env[defaults.embeddingModelEnv])
+      || defaults.embeddingModel,
+  };
+}
+
+/**
+ * 从请求体解析 AIContext
+ * 兼容旧字段 geminiKey / geminiBaseUrl，新字段 provider（或 ModelSelector 的 aiModel）/ apiKey / baseUrl / modelName
+ */
+export function aiContextFromRequest(body: any): AIContext {
+  const requested = body?.provider ?? MODEL_PROVIDERS[body?.aiModel];
+  const provider: LLMProviderName = isLLMProviderName(requested) ? requested : 'gemini';
+  const str = (v: unknown) => (typeof v === 'string' ? v : undefined);
+  return createAIContext({
+    provider,
+    apiKey: str(body?.apiKey) ?? (provider === 'gemini' ? str(body?.geminiKey) : undefined),
+    baseUrl: str(body?.baseUrl) ?? (provider === 'gemini' ? str(body?.geminiBaseUrl) : undefined),
+    model: str(body?.modelName),
+  });
+}
+
+/**
+ * 当前上下文是否具备调用 LLM 的条件
+ */
+export function hasAICredentials(ctx: AIContext): boolean {
+  return !PROVIDER_DEFAULTS[ctx.provider].requiresApiKey || !!ctx.apiKey;
+}
+
+/**
+ * Provider 是否提供 Embedding 接口（Anthropic 没有）
+ */
+export function supportsEmbeddings(ctx: AIContext): boolean {
+  return !!PROVIDER_DEFAULTS[ctx.provider].embeddingModel;
+}
+
+export function assertAIContext(ctx: AIContext): void {
+  if (!hasAICredentials(ctx)) {
+    throw new Error(`${ctx.provider} API key is not configured`);
+  }
+}
+
+/**
+ * 从模型输出中提取 JSON 片段（兼容 ```json 代码块与前后多余文字）
+ */
+export function extractJsonFromText(text: string): string | null {
+  const trimmed = text.trim();
+  const fenced = trimmed.match(/```json([\s\S]*?)```/i);
+  if (fenced?.[1]) {
+    return fenced[1].trim();
+  }
+  const firstBrace = trimmed.indexOf("{");
+  const lastBrace = trimmed.lastIndexOf("}");
+  if (firstBrace !== -1 && lastBrace !== -1 && lastBrace > firstBrace) {
+    return trimmed.slice(firstBrace, lastBrace + 1);
+  }
+  const firstBracket = trimmed.indexOf("[");
+  const lastBracket = trimmed.lastIndexOf("]");
+  if (firstBracket !== -1 && lastBracket !== -1 && lastBracket > firstBracket) {
+    return trimmed.slice(firstBracket, lastBracket + 1);
+  }
+  return null;
+}
+
+function parseJsonResponse<T>(provider: string, text: string): T {
+  const jsonText = extractJsonFromText(text);
+  if (!jsonText) {
+    throw new Error(`${provider} response does not contain JSON`);
+  }
+  return JSON.parse(jsonText) as T;
+}
+
+/**
+ * POST JSON 请求（使用 http/https 模块以支持代理与本地 http 服务）
+ */
+function postJson(
+  endpoint: string,
+  headers: Record<string, string>,
+  body: unknown,
+  timeoutMs: number,
+  label: string
+): Promise<any> {
+  const requestBody = JSON.stringify(body);
+  const url = new URL(endpoint);
+  const transport = url.protocol === 'http:' ? http : https;
+
+  return new Promise((resolve, reject) => {
+    const req = transport.request(
+      {
+        hostname: url.hostname,
+        port: url.port || (url.protocol === 'https:' ? 443 : 80),
+        path: `${url.pathname}${url.search}`,
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Length': Buffer.byteLength(requestBody),
+          ...headers,
+        },
+        timeout: timeoutMs,
+      },
+      (res) => {
+        let data = '';
+        res.on('data', (chunk) => (data += chunk));
+        res.on('end', () => {
+          if (res.statusCode === 200) {
+            try {
+              resolve(JSON.parse(data));
+            } catch (e) {
+              reject(new Error(`Failed to parse ${label} response: ${e}`));
+            }
+          } else {
+            reject(new Error(`${label} API returned ${res.statusCode}: ${data}`));
+          }
+        });
+      }
+    );
+
+    req.on('error', (e) => reject(new Error(`${label} API request failed: ${e.message}`)));
+    req.on('timeout', () => {
+      req.destroy();
+      reject(new Error(`${label} API request timeout`));
+    });
+
+    req.write(requestBody);
+    req.end();
+  });
+}
+
+/**
+ * POST JSON 并以 SSE 事件流读取响应
+ */
+async function* postStream(
+  endpoint: string,
+  headers: Record<string, string>,
+  body: unknown,
+  timeoutMs: number,
+  label: string,
+  signal?: AbortSignal
+): AsyncGenerator<{ event: string; data: string }> {
+  const requestBody = JSON.stringify(body);
+  const url = new URL(endpoint);
+  const transport = url.protocol === 'http:' ? http : https;
+
+  const response = await new Promise<http.IncomingMessage>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error(`${label} stream aborted`));
+      return;
+    }
+    const req = transport.request(
+      {
+        hostname: url.hostname,
+        port: url.port || (url.protocol === 'https:' ? 443 : 80),
+        path: `${url.pathname}${url.search}`,
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Length': Buffer.byteLength(requestBody),
+          Accept: 'text/event-stream',
+          ...headers,
+        },
+        timeout: timeoutMs,
+      },
+      (res) => {
+        if (res.statusCode === 200) {
+          resolve(res);
+          return;
+        }
+        let data = '';
+        res.on('data', (chunk) => (data += chunk));
+        res.on('end', () => reject(new Error(`${label} API returned ${res.statusCode}: ${data}`)));
+      }
+    );
+
+    signal?.addEventListener('abort', () => req.destroy(new Error(`${label} stream aborted`)), { once: true });
+    req.on('error', (e) => reject(new Error(`${label} API request failed: ${e.message}`)));
+    req.on('timeout', () => req.destroy(new Error(`${label} API request timeout`)));
+
+    req.write(requestBody);
+    req.end();
+  });
+
+  try {
+    yield* parseSSE(response);
+  } finally {
+    response.destroy();
+  }
+}
+
+const DEFAULT_TIMEOUT = 30000;
+const DEFAULT_MAX_TOKENS = 2048;
+const DEFAULT_TEMPERATURE = 0.7;
+
+class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini' as const;
+  readonly model: string;
+
+  constructor(private ctx: AIContext) {
+    this.model = ctx.model;
+  }
+
+  private buildBody(prompt: string, options: ChatOptions, json: boolean) {
+    return {
+      ...(options.system ? { systemInstruction: { parts: [{ text: options.system }] } } : {}),
+      contents: [{ parts: [{ text: prompt }] }],
+      generationConfig: {
+        temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+        maxOutputTokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+        ...(json ? { responseMimeType: 'application/json' } : {}),
+      },
+    };
+  }
+
+  private generate(prompt: string, options: ChatOptions, json: boolean): Promise<string> {
+    return postJson(
+      `${this.ctx.baseUrl}/v1beta/models/${this.model}:generateContent`,
+      { 'x-goog-api-key': this.ctx.apiKey },
+      this.buildBody(prompt, options, json),
+      options.timeoutMs ?? DEFAULT_TIMEOUT,
+      'Gemini'
+    ).then((response) => response.candidates?.[0]?.content?.parts?.[0]?.text || '');
+  }
+
+  async *chatStream(prompt: string, options: ChatOptions = {}): AsyncGenerator<string> {
+    const events = postStream(
+      `${this.ctx.baseUrl}/v1beta/models/${this.model}:streamGenerateContent?alt=sse`,
+      { 'x-goog-api-key': this.ctx.apiKey },
+      this.buildBody(prompt, options, false),
+      options.timeoutMs ?? DEFAULT_TIMEOUT,
+      'Gemini',
+      options.signal
+    );
+    for await (const { data } of events) {
+      const chunk = JSON.parse(data);
+      const text = (chunk.candidates?.[0]?.content?.parts || [])
+        .map((part: any) => part.text || '')
+        .join('');
+      if (text) yield text;
+    }
+  }
+
+  chat(prompt: string, options: ChatOptions = {}): Promise<string> {
+    return this.generate(prompt, options, false);
+  }
+
+  async chatJson<T = any>(prompt: string, options: ChatOptions = {}): Promise<T> {
+    return parseJsonResponse<T>('Gemini', await this.generate(prompt, options, true));
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    const embeddingModel = this.ctx.embeddingModel || 'text-embedding-004';
+
+    // Gemini batchEmbedContents limited to 100 at a time
+    const BATCH_SIZE = 100;
+    const results: number[][] = [];
+    for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+      const batch = texts.slice(i, i + BATCH_SIZE);
+      const response = await postJson(
+        `${this.ctx.baseUrl}/v1beta/models/${embeddingModel}:batchEmbedContents`,
+        { 'x-goog-api-key': this.ctx.apiKey },
+        {
+          requests: batch.map((text) => ({
+            model: `models/${embeddingModel}`,
+            content: { parts: [{ text }] },
+          })),
+        },
+        DEFAULT_TIMEOUT,
+        'Gemini Embedding'
+      );
+      results.push(...response.embeddings.map((e: any) => e.values));
+    }
+    return results;
+  }
+}
+
+class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+  readonly model: string;
+
+  constructor(private ctx: AIContext) {
+    this.model = ctx.model;
+  }
+
+  private get headers(): Record<string, string> {
+    return { 'x-api-key': this.ctx.apiKey, 'anthropic-version': '2023-06-01' };
+  }
+
+  private buildBody(prompt: string, options: ChatOptions) {
+    return {
+      model: this.model,
+      max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+      ...(options.system ? { system: options.system } : {}),
+      messages: [{ role: 'user', content: prompt }],
+    };
+  }
+
+  async chat(prompt: string, options: ChatOptions = {}): Promise<string> {
+    const response = await postJson(
+      `${this.ctx.baseUrl}/v1/messages`,
+      this.headers,
+      this.buildBody(prompt, options),
+      options.timeoutMs ?? DEFAULT_TIMEOUT,
+      'Claude'
+    );
+    return (response.content || [])
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+  }
+
+  async chatJson<T = any>(prompt: string, options: ChatOptions = {}): Promise<T> {
+    return parseJsonResponse<T>('Claude', await this.chat(prompt, options));
+  }
+
+  async *chatStream(prompt: string, options: ChatOptions = {}): AsyncGenerator<string> {
+    const events = postStream(
+      `${this.ctx.baseUrl}/v1/messages`,
+      this.headers,
+      { ...this.buildBody(prompt, options), stream: true },
+      options.timeoutMs ?? DEFAULT_TIMEOUT,
+      'Claude',
+      options.signal
+    );
+    for await (const { event, data } of events) {
+      if (event === 'error') {
+        throw new Error(`Claude stream error: ${data}`);
+      }
+      if (event === 'content_block_delta') {
+        const text = JSON.parse(data).delta?.text;
+        if (text) yield text;
+      }
+    }
+  }
+
+  async embed(): Promise<number[][]> {
+    throw new Error('Anthropic does not provide an embedding API');
+  }
+}
+
+class OpenAIProvider implements LLMProvider {
+  readonly name: 'openai' | 'openai-compatible';
+  readonly model: string;
+
+  constructor(private ctx: AIContext) {
+    this.name = ctx.provider === 'openai-compatible' ? 'openai-compatible' : 'openai';
+    this.model = ctx.model;
+  }
+
+  private get headers(): Record<string, string> {
+    return this.ctx.apiKey ? { Authorization: `Bearer ${this.ctx.apiKey}` } : {};
+  }
+
+  private get label(): string {
+    return this.name === 'openai' ? 'OpenAI' : 'Local LLM';
+  }
+
+  private buildBody(prompt: string, options: ChatOptions) {
+    return {
+      model: this.model,
+      messages: [
+        ...(options.system ? [{ role: 'system', content: options.system }] : []),
+        { role: 'user', content: prompt },
+      ],
+      max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+    };
+  }
+
+  private async complete(prompt: string, options: ChatOptions, json: boolean): Promise<string> {
+    const response = await postJson(
+      `${this.ctx.baseUrl}/chat/completions`,
+      this.headers,
+      {
+        ...this.buildBody(prompt, options),
+        ...(json ? { response_format: { type: 'json_object' } } : {}),
+      },
+      options.timeoutMs ?? DEFAULT_TIMEOUT,
+      this.label
+    );
+    return response.choices?.[0]?.message?.content || '';
+  }
+
+  chat(prompt: string, options: ChatOptions = {}): Promise<string> {
+    return this.complete(prompt, options, false);
+  }
+
+  async chatJson<T = any>(prompt: string, options: ChatOptions = {}): Promise<T> {
+    return parseJsonResponse<T>(this.name, await this.complete(prompt, options, true));
+  }
+
+  async *chatStream(prompt: string, options: ChatOptions = {}): AsyncGenerator<string> {
+    const events = postStream(
+      `${this.ctx.baseUrl}/chat/completions`,
+      this.headers,
+      { ...this.buildBody(prompt, options), stream: true },
+      options.timeoutMs ?? DEFAULT_TIMEOUT,
+      this.label,
+      options.signal
+    );
+    for await (const { data } of events) {
+      if (data === '[DONE]') return;
+      const text = JSON.parse(data).choices?.[0]?.delta?.content;
+      if (text) yield text;
+    }
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    // OpenAI /embeddings limited to 2048 inputs per request
+    const BATCH_SIZE = 512;
+    const results: number[][] = [];
+    for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+      const response = await postJson(
+        `${this.ctx.baseUrl}/embeddings`,
+        this.headers,
+        { model: this.ctx.embeddingModel, input: texts.slice(i, i + BATCH_SIZE) },
+        DEFAULT_TIMEOUT,
+        `${this.label} Embedding`
+      );
+      results.push(
+        ...(response.data || [])
+          .sort((a: any, b: any) => a.index - b.index)
+          .map((item: any) => item.embedding)
+      );
+    }
+    return results;
+  }
+}
+
+/**
+ * 根据上下文获取对应的 Provider 实例
+ */
+export function getLLMProvider(ctx: AIContext): LLMProvider {
+  assertAIContext(ctx);
+  switch (ctx.provider) {
+    case 'gemini':
+      return new GeminiProvider(ctx);
+    case 'anthropic':
+      return new AnthropicProvider(ctx);
+    case 'openai':
+    case 'openai-compatible':
+      return new OpenAIProvider(ctx);
+    default:
+      throw new Error(`Unsupported LLM provider: ${ctx.provider}`);
+  }
+}
@@ -1,9 +1,18 @@
 /**
  * Market Analytics Engine
- * 处理市场去重、基于历史价格数据的相关性计算
+ * 处理市场去重、基于历史价格数据的相关性计算（按时间戳对齐，对价格 / 对数几率的变化求相关）
+ * 以及领先-滞后分析（滞后互相关 + Granger 因果检验）、滚动相关与变点检测
  */
 
-import type { MarketData } from "@/types/polymarket";
+import type { MarketData, SparklineDataPoint } from "@/types/polymarket";
+import {
+  compareCorrelations,
+  correlationConfidenceInterval,
+  correlationPValue,
+  fDistributionSurvival,
+  leastSquaresResidualSum,
+  pearsonCorrelation,
+} from "./statistics";
 
 /**
  * 市场去重聚合
@@ -17,86 +26,513 @@ export function deduplicateMarkets(markets: MarketData[]): MarketData[] {
   });
 }
 
+export type CorrelationMethod = 'price-change' | 'log-odds-change';
+
+export interface CorrelationOptions {
+  // 相关性基于价格变化（price-change）或对数几率变化（log-odds-change，默认，接近 0 / 1 时不被压缩）
+  method?: CorrelationMethod;
+  // 时间对齐后的最少重叠点数，不足时不计算
+  minOverlap?: number;
+  // 最少非零变化数（两个序列都几乎不动时相关性没有意义）
+  minMoves?: number;
+  confidenceLevel?: number;
+}
+
+export interface CorrelationResult {
+  correlation: number;
+  pValue: number;
+  confidenceInterval: [number, number];
+  overlap: number; // 按时间对齐后的点数
+  observations: number; // 参与计算的变化对数
+  method: CorrelationMethod;
+  start: string;
+  end: string;
+}
+
+export interface AlignedPoint {
+  time: number;
+  a: number;
+  b: number;
+}
+
+export const MIN_OVERLAP_POINTS = 20;
+// 变化序列的相关性远低于价格水平的相关性，|r| ≥ 0.3 且显著即视为相关
+export const DEFAULT_PAIR_THRESHOLD = 0.3;
+const MIN_MOVES = 5;
+// 对数几率变换前把概率裁剪到 [0.5%, 99.5%]，避免 ±∞
+const LOG_ODDS_CLIP = 0.005;
+
+function toTimed(series: SparklineDataPoint[]): Array<{ time: number; price: number }> {
+  return series
+    .map((point) => ({ time: Date.parse(point.date), price: point.price }))
+    .filter((point) => Number.isFinite(point.time) && Number.isFinite(point.price))
+    .sort((x, y) => x.time - y.time);
+}
+
+// 相邻点时间间隔的中位数
+export function medianSpacing(times: number[]): number {
+  const gaps = times.slice(1).map((t, i) => t - times[i]).filter((gap) => gap > 0).sort((x, y) => x - y);
+  return gaps.length > 0 ? gaps[Math.floor(gaps.length / 2)] : 0;
+}
+
+function alignWithBucketSize(
+  seriesA: SparklineDataPoint[],
+  seriesB: SparklineDataPoint[]
+): { points: Array<AlignedPoint & { bucket: number }>; bucketMs: number } {
+  const a = toTimed(seriesA);
+  const b = toTimed(seriesB);
+  if (a.length === 0 || b.length === 0) return { points: [], bucketMs: 0 };
+
+  const bucketMs = Math.max(medianSpacing(a.map((p) => p.time)), medianSpacing(b.map((p) => p.time)), 1000);
+  const bucketize = (points: Array<{ time: number; price: number }>) => {
+    const buckets = new Map<number, { time: number; price: number }>();
+    points.forEach((point) => buckets.set(Math.floor(point.time / bucketMs), point));
+    return buckets;
+  };
+  const bucketsA = bucketize(a);
+  const bucketsB = bucketize(b);
+
+  const points = Array.from(bucketsA.keys())
+    .filter((bucket) => bucketsB.has(bucket))
+    .sort((x, y) => x - y)
+    .map((bucket) => {
+      const pointA = bucketsA.get(bucket)!;
+      const pointB = bucketsB.get(bucket)!;
+      return { bucket, time: Math.max(pointA.time, pointB.time), a: pointA.price, b: pointB.price };
+    });
+  return { points, bucketMs };
+}
+
+/**
+ * 按时间戳对齐两个价格序列：以两者中较粗的采样间隔分桶，每桶取最后一个价格，只保留两边都有数据的桶
+ * 返回的 bucket 序号用于判断相邻（只在相邻桶之间计算变化）
+ */
+export function alignSeries(
+  seriesA: SparklineDataPoint[],
+  seriesB: SparklineDataPoint[]
+): Array<AlignedPoint & { bucket: number }> {
+  return alignWithBucketSize(seriesA, seriesB).points;
+}
+
+export function logOdds(price: number): number {
+  const p = Math.min(1 - LOG_ODDS_CLIP, Math.max(LOG_ODDS_CLIP, price));
+  return Math.log(p / (1 - p));
+}
+
+/**
+ * 对齐后序列的逐期变化（只取相邻桶，跨越缺口的变化不计入）
+ */
+export function alignedChanges(
+  aligned: Array<AlignedPoint & { bucket: number }>,
+  method: CorrelationMethod = 'log-odds-change'
+): { a: number[]; b: number[]; times: number[]; buckets: number[] } {
+  const transform = method === 'log-odds-change' ? logOdds : (price: number) => price;
+  const changes = { a: [] as number[], b: [] as number[], times: [] as number[], buckets: [] as number[] };
+  for (let i = 1; i < aligned.length; i++) {
+    if (aligned[i].bucket !== aligned[i - 1].bucket + 1) continue;
+    changes.a.push(transform(aligned[i].a) - transform(aligned[i - 1].a));
+    changes.b.push(transform(aligned[i].b) - transform(aligned[i - 1].b));
+    changes.times.push(aligned[i].time);
+    changes.buckets.push(aligned[i].bucket);
+  }
+  return changes;
+}
+
 /**
- * 计算两个价格序列的皮尔逊相关系数
+ * 两个市场价格历史的相关性：按时间对齐 → 计算变化 → 皮尔逊相关 + p 值 + 置信区间
+ * 重叠不足或任一序列几乎没有变化时返回 null
  */
-export function calculateCorrelation(seriesA: number[], seriesB: number[]): number {
-  const n = Math.min(seriesA.length, seriesB.length);
-  if (n < 2) return 0;
+export function correlateSeries(
+  seriesA: SparklineDataPoint[],
+  seriesB: SparklineDataPoint[],
+  options: CorrelationOptions = {}
+): CorrelationResult | null {
+  const {
+    method = 'log-odds-change',
+    minOverlap = MIN_OVERLAP_POINTS,
+    minMoves = MIN_MOVES,
+    confidenceLevel = 0.95,
+  } = options;
+
+  const aligned = alignSeries(seriesA, seriesB);
+  if (aligned.length < minOverlap) return null;
+
+  const changes = alignedChanges(aligned, method);
+  const moves = (values: number[]) => values.filter((v) => Math.abs(v) > 1e-9).length;
+  if (moves(changes.a) < minMoves || moves(changes.b) < minMoves) return null;
+
+  const correlation = pearsonCorrelation(changes.a, changes.b);
+  if (correlation === null) return null;
+  const n = changes.a.length;
+
+  return {
+    correlation,
+    pValue: correlationPValue(correlation, n),
+    confidenceInterval: correlationConfidenceInterval(correlation, n, confidenceLevel),
+    overlap: aligned.length,
+    observations: n,
+    method,
+    start: new Date(aligned[0].time).toISOString(),
+    end: new Date(aligned[aligned.length - 1].time).toISOString(),
+  };
+}
 
-  // 确保长度一致（对齐末尾数据）
-  const a = seriesA.slice(-n);
-  const b = seriesB.slice(-n);
+export interface CrossCorrelationPoint {
+  lag: number; // 正数表示 A 的变化领先 B lag 期
+  correlation: number;
+  observations: number;
+}
 
-  const sumA = a.reduce((s, x) => s + x, 0);
-  const sumB = b.reduce((s, x) => s + x, 0);
-  const sumASq = a.reduce((s, x) => s + x * x, 0);
-  const sumBSq = b.reduce((s, x) => s + x * x, 0);
-  const sumAB = a.map((x, i) => x * b[i]).reduce((s, x) => s + x, 0);
+export interface GrangerResult {
+  lags: number; // 选中的滞后阶数
+  fStatistic: number;
+  pValue: number; // 已按实际检验过的阶数做 Bonferroni 校正
+  observations: number;
+}
 
-  const num = n * sumAB - sumA * sumB;
-  const den = Math.sqrt((n * sumASq - sumA * sumA) * (n * sumBSq - sumB * sumB));
+// a-leads / b-leads：单向 Granger 显著；feedback：双向都显著；synchronous：只有同期相关
+export type LeadLagDirection = 'a-leads' | 'b-leads' | 'feedback' | 'synchronous' | 'none';
 
-  if (den === 0) return 0;
-  return num / den;
+export interface LeadLagResult {
+  direction: LeadLagDirection;
+  leader: 'a' | 'b' | null;
+  lag: number; // 领先的期数（桶数），无领先关系时为 0
+  lagDays: number;
+  bucketHours: number; // 对齐后每期的时长
+  peakCorrelation: number; // 领先方向上滞后互相关的峰值，无领先关系时为同期相关
+  crossCorrelations: CrossCorrelationPoint[];
+  grangerAToB: GrangerResult | null;
+  grangerBToA: GrangerResult | null;
+}
+
+export interface LeadLagOptions {
+  method?: CorrelationMethod;
+  // 最大滞后期数，默认按观测数自适应（最多 5 期）
+  maxLag?: number;
+  alpha?: number;
+  minOverlap?: number;
+}
+
+const DEFAULT_MAX_LAG = 5;
+// 每个滞后期 / 回归至少需要的观测数
+const MIN_LAG_OBSERVATIONS = 10;
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// A 在 t 期的变化与 B 在 t+lag 期的变化配对（只取两边都存在的桶）
+function laggedPairs(
+  changes: { a: number[]; b: number[]; buckets: number[] },
+  indexByBucket: Map<number, number>,
+  lag: number
+): { x: number[]; y: number[] } {
+  const pairs = { x: [] as number[], y: [] as number[] };
+  changes.buckets.forEach((bucket, i) => {
+    const j = indexByBucket.get(bucket + lag);
+    if (j === undefined) return;
+    pairs.x.push(changes.a[i]);
+    pairs.y.push(changes.b[j]);
+  });
+  return pairs;
 }
 
 /**
- * 识别相关性市场对，区分同事件和跨事件关系
+ * Granger 检验 H0: cause 的过去 p 期对预测 effect 没有额外帮助
+ * 受限模型 effect_t ~ 1 + effect_{t-1..t-p}，完整模型再加上 cause_{t-1..t-p}，比较残差平方和的 F 统计量
  */
-export function findMarketPairs(
-  markets: MarketData[], 
-  threshold: number = 0.7
-): Array<{ 
-  a: number; 
-  b: number; 
-  correlation: number; 
-  relationType: 'intra-event' | 'inter-event' 
-}> {
-  const pairs: Array<{ a: number; b: number; correlation: number; relationType: 'intra-event' | 'inter-event' }> = [];
-
-  for (let i = 0; i < markets.length; i++) {
-    for (let j = i + 1; j < markets.length; j++) {
-      const marketA = markets[i];
-      const marketB = markets[j];
-      
-      // 1. 同事件判断 (如果 eventId 相同)
-      const isIntraEvent = !!(marketA.eventId && marketB.eventId && marketA.eventId === marketB.eventId);
-      
-      if (!marketA.chartData || marketA.chartData.length < 2 || !marketB.chartData || marketB.chartData.length < 2) {
-        // 如果没有图表数据，但属于同一个事件，仍然记录关系（但 correlation 为 0）
-        if (isIntraEvent) {
-          pairs.push({ a: i, b: j, correlation: 0, relationType: 'intra-event' });
-        }
-        continue;
-      }
-      
-      const pricesA = marketA.chartData.map(d => d.price);
-      const pricesB = marketB.chartData.map(d => d.price);
-      
-      const corr = calculateCorrelation(pricesA, pricesB);
-      
-      // 2. 只有满足阈值或是同事件关系时才记录
-      if (Math.abs(corr) >= threshold || isIntraEvent) {
-        pairs.push({ 
-          a: i, 
-          b: j, 
-          correlation: corr, 
-          relationType: isIntraEvent ? 'intra-event' : 'inter-event' 
-        });
+function grangerTest(
+  cause: number[],
+  effect: number[],
+  buckets: number[],
+  indexByBucket: Map<number, number>,
+  maxLag: number
+): GrangerResult | null {
+  let best: GrangerResult | null = null;
+  let tested = 0;
+
+  for (let p = 1; p <= maxLag; p++) {
+    const restricted: number[][] = [];
+    const full: number[][] = [];
+    const y: number[] = [];
+    buckets.forEach((bucket, i) => {
+      const past: number[] = [];
+      for (let k = 1; k <= p; k++) {
+        const j = indexByBucket.get(bucket - k);
+        if (j === undefined) return;
+        past.push(j);
       }
-    }
+      const own = past.map((j) => effect[j]);
+      restricted.push([1, ...own]);
+      full.push([1, ...own, ...past.map((j) => cause[j])]);
+      y.push(effect[i]);
+    });
+
+    const n = y.length;
+    const dfFull = n - (2 * p + 1);
+    if (dfFull < MIN_LAG_OBSERVATIONS) break;
+    const rssRestricted = leastSquaresResidualSum(restricted, y);
+    const rssFull = leastSquaresResidualSum(full, y);
+    if (rssRestricted === null || rssFull === null || rssFull <= 0) continue;
+
+    tested++;
+    const fStatistic = Math.max(0, (rssRestricted - rssFull) / p) / (rssFull / dfFull);
+    const pValue = fDistributionSurvival(fStatistic, p, dfFull);
+    if (!best || pValue < best.pValue) best = { lags: p, fStatistic, pValue, observations: n };
   }
 
-  return pairs;
+  return best ? { ...best, pValue: Math.min(1, best.pValue * tested) } : null;
+}
+
+/**
+ * 领先-滞后分析：在对齐后的变化序列上计算 ±maxLag 期的滞后互相关，并做双向 Granger 检验
+ * 返回哪个市场领先、领先几期 / 几天；数据不足时返回 null
+ */
+export function analyzeLeadLag(
+  seriesA: SparklineDataPoint[],
+  seriesB: SparklineDataPoint[],
+  options: LeadLagOptions = {}
+): LeadLagResult | null {
+  const { method = 'log-odds-change', alpha = 0.05, minOverlap = MIN_OVERLAP_POINTS } = options;
+
+  const { points, bucketMs } = alignWithBucketSize(seriesA, seriesB);
+  if (points.length < minOverlap) return null;
+  const changes = alignedChanges(points, method);
+  const n = changes.buckets.length;
+  const maxLag = Math.max(1, options.maxLag ?? Math.min(DEFAULT_MAX_LAG, Math.floor(n / MIN_LAG_OBSERVATIONS)));
+  const indexByBucket = new Map(changes.buckets.map((bucket, i) => [bucket, i]));
+
+  const crossCorrelations: CrossCorrelationPoint[] = [];
+  for (let lag = -maxLag; lag <= maxLag; lag++) {
+    const { x, y } = laggedPairs(changes, indexByBucket, lag);
+    if (x.length < MIN_LAG_OBSERVATIONS) continue;
+    const correlation = pearsonCorrelation(x, y);
+    if (correlation !== null) crossCorrelations.push({ lag, correlation, observations: x.length });
+  }
+  if (crossCorrelations.length === 0) return null;
+
+  const grangerAToB = grangerTest(changes.a, changes.b, changes.buckets, indexByBucket, maxLag);
+  const grangerBToA = grangerTest(changes.b, changes.a, changes.buckets, indexByBucket, maxLag);
+  const aLeads = !!grangerAToB && grangerAToB.pValue < alpha;
+  const bLeads = !!grangerBToA && grangerBToA.pValue < alpha;
+
+  const strongest = (candidates: CrossCorrelationPoint[]) =>
+    candidates.reduce<CrossCorrelationPoint | null>(
+      (best, point) => (!best || Math.abs(point.correlation) > Math.abs(best.correlation) ? point : best),
+      null
+    );
+  const synchronous = crossCorrelations.find((point) => point.lag === 0) ?? null;
+
+  let direction: LeadLagDirection;
+  let peak: CrossCorrelationPoint | null;
+  if (aLeads && bLeads) {
+    direction = 'feedback';
+    peak = strongest(crossCorrelations);
+  } else if (aLeads || bLeads) {
+    direction = aLeads ? 'a-leads' : 'b-leads';
+    peak = strongest(crossCorrelations.filter((point) => (aLeads ? point.lag > 0 : point.lag < 0)));
+  } else {
+    const significant = !!synchronous && correlationPValue(synchronous.correlation, synchronous.observations) < alpha;
+    direction = significant ? 'synchronous' : 'none';
+    peak = synchronous;
+  }
+
+  const leader = direction === 'a-leads' ? 'a' : direction === 'b-leads' ? 'b' : null;
+  const lag = leader && peak ? Math.abs(peak.lag) : 0;
+  return {
+    direction,
+    leader,
+    lag,
+    lagDays: (lag * bucketMs) / DAY_MS,
+    bucketHours: bucketMs / (1000 * 60 * 60),
+    peakCorrelation: peak?.correlation ?? 0,
+    crossCorrelations,
+    grangerAToB,
+    grangerBToA,
+  };
+}
+
+export interface RollingCorrelationPoint {
+  time: string; // 窗口结束时间
+  correlation: number | null; // 窗口内价格几乎不动时为 null
+  observations: number;
+}
+
+// emerged：关系出现；broke：关系消失；reversed：方向反转；shifted：同向但强度显著变化
+export type RegimeChangeType = 'emerged' | 'broke' | 'reversed' | 'shifted';
+
+export interface RegimeChange {
+  time: string;
+  type: RegimeChangeType;
+  before: number; // 变点前一段的相关系数
+  after: number;
+  pValue: number; // Fisher z 检验 p 值，已按扫描的候选点数做 Bonferroni 校正
+}
+
+export interface CorrelationSegment {
+  start: string;
+  end: string;
+  correlation: number;
+  significant: boolean;
+  observations: number;
+}
+
+export interface RollingCorrelationResult {
+  method: CorrelationMethod;
+  window: number; // 每个窗口包含的变化期数
+  bucketHours: number;
+  points: RollingCorrelationPoint[];
+  segments: CorrelationSegment[];
+  changePoints: RegimeChange[];
+}
+
+export interface RollingCorrelationOptions {
+  method?: CorrelationMethod;
+  // 滚动窗口期数，默认约为总期数的 1/4（10 ~ 30 期）
+  window?: number;
+  // 变点两侧每段的最少期数
+  minSegment?: number;
+  alpha?: number;
+  maxChangePoints?: number;
+}
+
+const MAX_ROLLING_WINDOW = 30;
+const DEFAULT_MAX_CHANGE_POINTS = 3;
+// 窗口内至少有几次非零变化才计算相关性
+const MIN_WINDOW_MOVES = 3;
+
+function correlationOfRange(changes: { a: number[]; b: number[] }, start: number, end: number): number | null {
+  return pearsonCorrelation(changes.a.slice(start, end), changes.b.slice(start, end));
+}
+
+/**
+ * 二分切割找相关性结构的变点：在 [start, end) 中找两侧相关系数差异最显著的位置，显著则递归两侧
+ */
+function findCorrelationBreaks(
+  changes: { a: number[]; b: number[] },
+  start: number,
+  end: number,
+  minSegment: number,
+  alpha: number,
+  found: Array<{ index: number; pValue: number }>,
+  limit: number
+): void {
+  if (found.length >= limit || end - start < 2 * minSegment) return;
+
+  let best: { index: number; pValue: number } | null = null;
+  const candidates = end - start - 2 * minSegment + 1;
+  for (let k = start + minSegment; k <= end - minSegment; k++) {
+    const before = correlationOfRange(changes, start, k);
+    const after = correlationOfRange(changes, k, end);
+    if (before === null || after === null) continue;
+    const { pValue } = compareCorrelations(before, k - start, after, end - k);
+    if (!best || pValue < best.pValue) best = { index: k, pValue };
+  }
+  if (!best) return;
+
+  const adjusted = Math.min(1, best.pValue * candidates);
+  if (adjusted >= alpha) return;
+  found.push({ index: best.index, pValue: adjusted });
+  findCorrelationBreaks(changes, start, best.index, minSegment, alpha, found, limit);
+  findCorrelationBreaks(changes, best.index, end, minSegment, alpha, found, limit);
+}
+
+function classifyRegimeChange(before: CorrelationSegment, after: CorrelationSegment): RegimeChangeType {
+  if (!before.significant && after.significant) return 'emerged';
+  if (before.significant && !after.significant) return 'broke';
+  if (before.significant && after.significant && Math.sign(before.correlation) !== Math.sign(after.correlation)) {
+    return 'reversed';
+  }
+  return 'shifted';
+}
+
+/**
+ * 滚动窗口相关性 + 变点检测：区分只在某段新闻窗口内联动、或近期才脱钩的市场对
+ * 窗口按对齐后的变化期数滑动（跨越缺口的变化已被剔除）；数据不足时返回 null
+ */
+export function rollingCorrelation(
+  seriesA: SparklineDataPoint[],
+  seriesB: SparklineDataPoint[],
+  options: RollingCorrelationOptions = {}
+): RollingCorrelationResult | null {
+  const {
+    method = 'log-odds-change',
+    alpha = 0.05,
+    maxChangePoints = DEFAULT_MAX_CHANGE_POINTS,
+  } = options;
+
+  const { points: aligned, bucketMs } = alignWithBucketSize(seriesA, seriesB);
+  if (aligned.length < MIN_OVERLAP_POINTS) return null;
+  const changes = alignedChanges(aligned, method);
+  const n = changes.a.length;
+  const window = Math.max(
+    MIN_LAG_OBSERVATIONS,
+    options.window ?? Math.min(MAX_ROLLING_WINDOW, Math.floor(n / 4))
+  );
+  if (n < window) return null;
+  const minSegment = Math.max(MIN_LAG_OBSERVATIONS, options.minSegment ?? Math.floor(window / 2));
+
+  const moves = (values: number[]) => values.filter((v) => Math.abs(v) > 1e-9).length;
+  const points: RollingCorrelationPoint[] = [];
+  for (let end = window; end <= n; end++) {
+    const a = changes.a.slice(end - window, end);
+    const b = changes.b.slice(end - window, end);
+    const enoughMoves = moves(a) >= MIN_WINDOW_MOVES && moves(b) >= MIN_WINDOW_MOVES;
+    points.push({
+      time: new Date(changes.times[end - 1]).toISOString(),
+      correlation: enoughMoves ? pearsonCorrelation(a, b) : null,
+      observations: window,
+    });
+  }
+
+  const breaks: Array<{ index: number; pValue: number }> = [];
+  findCorrelationBreaks(changes, 0, n, minSegment, alpha, breaks, maxChangePoints);
+  breaks.sort((x, y) => x.index - y.index);
+
+  const bounds = [0, ...breaks.map((b) => b.index), n];
+  const segments: CorrelationSegment[] = bounds.slice(0, -1).map((start, i) => {
+    const end = bounds[i + 1];
+    const correlation = correlationOfRange(changes, start, end) ?? 0;
+    return {
+      start: new Date(changes.times[start]).toISOString(),
+      end: new Date(changes.times[end - 1]).toISOString(),
+      correlation,
+      significant: correlationPValue(correlation, end - start) < alpha,
+      observations: end - start,
+    };
+  });
+
+  return {
+    method,
+    window,
+    bucketHours: bucketMs / (1000 * 60 * 60),
+    points,
+    segments,
+    changePoints: breaks.map((b, i) => ({
+      time: new Date(changes.times[b.index]).toISOString(),
+      type: classifyRegimeChange(segments[i], segments[i + 1]),
+      before: segments[i].correlation,
+      after: segments[i + 1].correlation,
+      pValue: b.pValue,
+    })),
+  };
+}
+
+export interface MarketPair {
+  a: number;
+  b: number;
+  correlation: number;
+  relationType: 'intra-event' | 'inter-event';
+  // 数据不足（重叠过少或价格几乎不动）时为 null
+  stats: CorrelationResult | null;
+  leadLag: LeadLagResult | null;
 }
 
 /**
  * 构建深度洞察分析结果（基于历史价格数据）
+ * correlated 为相关矩阵覆盖的市场及其详细市场对（见 correlation-matrix 的 findMarketPairs），a / b 为该市场列表中的序号
  */
 export async function buildMarketInsights(
   query: string,
-  markets: MarketData[]
+  markets: MarketData[],
+  correlated: { markets: MarketData[]; pairs: MarketPair[] }
 ): Promise<{
   coreMarkets: MarketData[];
   highCorrelationPairs: any[];
@@ -107,12 +543,8 @@ export async function buildMarketInsights(
   
   // 2. 识别核心市场 (前 5 个作为核心)
   const coreMarkets = uniqueMarkets.slice(0, 5);
-  
-  // 3. 基于历史价格数据寻找相关性对 (计算前 20 个市场)
-  const candidates = uniqueMarkets.slice(0, 20); 
-  const pairs = findMarketPairs(candidates, 0.7);
-  
-  // 4. 按事件分组
+
+  // 3. 按事件分组
   const eventMap = new Map<string, { eventId: string; eventTitle: string; markets: MarketData[] }>();
   uniqueMarkets.forEach(m => {
     if (m.eventId && m.eventTitle) {
@@ -125,11 +557,17 @@ export async function buildMarketInsights(
   
   return {
     coreMarkets,
-    highCorrelationPairs: pairs.map(p => ({
-      marketA: candidates[p.a],
-      marketB: candidates[p.b],
+    highCorrelationPairs: correlated.pairs.map(p => ({
+      marketA: correlated.markets[p.a],
+      marketB: correlated.markets[p.b],
       correlation: p.correlation,
-      relationType: p.relationType
+      relationType: p.relationType,
+      pValue: p.stats?.pValue ?? null,
+      confidenceInterval: p.stats?.confidenceInterval ?? null,
+      overlap: p.stats?.overlap ?? 0,
+      observations: p.stats?.observations ?? 0,
+      method: p.stats?.method ?? null,
+      leadLag: p.leadLag,
     })),
     eventGroups: Array.from(eventMap.values()).filter(g => g.markets.length > 1)
   };
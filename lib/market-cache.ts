@@ -3,59 +3,55 @@
  * 缓存所有市场标题，用于AI搜索
  */
 
-import type { GammaMarket } from "@/types/polymarket";
+import type { PolymarketMarket } from "@/types/polymarket";
 import { getAllActiveMarkets } from "./polymarket";
+import { getStorage } from "./storage";
 
 interface MarketCache {
-  markets: GammaMarket[];
+  markets: PolymarketMarket[];
   titles: string[];
-  lastUpdated: number;
+  // 拉取时间，作为缓存内容的版本号（下游索引据此判断是否需要重建）
+  fetchedAt: number;
 }
 
 const CACHE_DURATION = 1000 * 60 * 10; // 10分钟缓存
-let cache: MarketCache | null = null;
+const CACHE_KEY = "active";
 
 /**
  * 获取所有市场并缓存
  */
-export async function getCachedMarkets(): Promise<{
-  markets: GammaMarket[];
-  titles: string[];
-}> {
-  const now = Date.now();
-
-  // 如果缓存存在且未过期，直接返回
-  if (cache && now - cache.lastUpdated < CACHE_DURATION) {
-    return {
-      markets: cache.markets,
-      titles: cache.titles,
-    };
+export async function getCachedMarkets(): Promise<MarketCache> {
+  const storage = getStorage();
+
+  // 如果缓存存在且未过期，直接返回（过期由存储层按 TTL 判断）
+  const cached = await storage.get<MarketCache>("markets", CACHE_KEY);
+  if (cached) {
+    // 旧版本缓存没有 fetchedAt，以写入时间代替
+    return { ...cached.value, fetchedAt: cached.value.fetchedAt ?? cached.updatedAt };
   }
 
   // 重新获取数据
   console.log("Fetching all active markets for cache...");
   const markets = await getAllActiveMarkets();
   const titles = markets.map((market) => market.question);
+  const fetchedAt = Date.now();
 
   // 更新缓存
-  cache = {
-    markets,
-    titles,
-    lastUpdated: now,
-  };
+  await storage.set<MarketCache>("markets", CACHE_KEY, { markets, titles, fetchedAt }, CACHE_DURATION);
 
   console.log(`Cached ${markets.length} active markets`);
 
   return {
     markets,
     titles,
+    fetchedAt,
   };
 }
 
 /**
  * 清除缓存
  */
-export function clearCache(): void {
-  cache = null;
+export async function clearCache(): Promise<void> {
+  await getStorage().delete("markets", CACHE_KEY);
 }
 
@@ -0,0 +1,285 @@
+/**
+ * Market Clustering
+ * 基于相关矩阵与 Embedding 相似度构建加权图，用 Louvain 社区发现把市场分簇，
+ * 并给出每个簇的关键词名称与汇总统计（AI 命名由 gemini.labelMarketClusters 另行补充）
+ */
+
+import type { MarketData } from "@/types/polymarket";
+import { decodeCorrelationMatrix, type CompactCorrelationMatrix } from "./correlation-matrix";
+import { DEFAULT_PAIR_THRESHOLD } from "./market-analytics";
+import { isStopWord, splitText } from "./text-tokenizer";
+
+export interface MarketCluster {
+  id: number;
+  label: string;
+  labelSource: "ai" | "keywords" | "event";
+  keywords: string[];
+  marketIds: string[];
+  size: number;
+  // 簇内市场对的平均相关系数（只统计有数据的对），没有时为 null
+  avgCorrelation: number | null;
+  avgProbability: number;
+  totalVolumeUsd: number;
+  eventCount: number;
+  // 簇内交易量最大的市场
+  leadMarketId: string;
+}
+
+export interface ClusteringResult {
+  clusters: MarketCluster[];
+  // 市场 ID → 簇 ID；未归入任何簇（孤立点）的市场不出现
+  assignments: Record<string, number>;
+  modularity: number;
+}
+
+export interface ClusteringOptions {
+  // market ID → 已归一化的 Embedding 向量
+  vectors?: Map<string, number[]>;
+  minCorrelation?: number;
+  minSimilarity?: number;
+  correlationWeight?: number;
+  similarityWeight?: number;
+  resolution?: number;
+  minClusterSize?: number;
+}
+
+// 相邻表：adjacency[i] 为 j → 权重（对称，自环表示聚合后的簇内权重）
+type WeightedGraph = Array<Map<number, number>>;
+
+const DEFAULT_MIN_SIMILARITY = 0.75;
+const MAX_LOCAL_PASSES = 20;
+// 市场标题中的高频模板词，不适合作为簇名
+const TITLE_STOP_WORDS = new Set([
+  "will", "win", "yes", "not", "any", "get", "between", "above", "below", "over", "under", "reach",
+  "end", "hit", "price", "market", "next", "out", "least", "most",
+]);
+
+function addEdge(graph: WeightedGraph, i: number, j: number, weight: number): void {
+  if (weight <= 0) return;
+  graph[i].set(j, (graph[i].get(j) ?? 0) + weight);
+  if (i !== j) graph[j].set(i, (graph[j].get(i) ?? 0) + weight);
+}
+
+function degreesOf(graph: WeightedGraph): number[] {
+  return graph.map((neighbors) => Array.from(neighbors.values()).reduce((sum, w) => sum + w, 0));
+}
+
+/**
+ * 单层局部移动：依次把每个节点移到模块度增益最大的相邻社区，直到没有节点移动
+ */
+function moveNodes(graph: WeightedGraph, resolution: number): { community: number[]; moved: boolean } {
+  const degrees = degreesOf(graph);
+  const totalWeight = degrees.reduce((sum, k) => sum + k, 0);
+  const community = graph.map((_, i) => i);
+  const communityDegree = [...degrees];
+  let moved = false;
+
+  for (let pass = 0; pass < MAX_LOCAL_PASSES; pass++) {
+    let changed = false;
+    for (let i = 0; i < graph.length; i++) {
+      const current = community[i];
+      communityDegree[current] -= degrees[i];
+
+      // 节点到各相邻社区的连接权重（不含自环）
+      const links = new Map<number, number>([[current, 0]]);
+      graph[i].forEach((weight, j) => {
+        if (j !== i) links.set(community[j], (links.get(community[j]) ?? 0) + weight);
+      });
+
+      let best = current;
+      let bestGain = links.get(current)! - (resolution * communityDegree[current] * degrees[i]) / totalWeight;
+      links.forEach((weight, c) => {
+        const gain = weight - (resolution * communityDegree[c] * degrees[i]) / totalWeight;
+        if (gain > bestGain + 1e-12) {
+          best = c;
+          bestGain = gain;
+        }
+      });
+
+      community[i] = best;
+      communityDegree[best] += degrees[i];
+      if (best !== current) changed = true;
+    }
+    if (!changed) break;
+    moved = true;
+  }
+  return { community, moved };
+}
+
+/**
+ * Louvain 社区发现：局部移动 → 社区聚合为超节点，重复直到模块度不再提升
+ * 返回每个原始节点的社区编号（0..k-1）
+ */
+export function louvainCommunities(graph: WeightedGraph, resolution: number = 1): number[] {
+  let membership = graph.map((_, i) => i);
+  let level = graph;
+  if (degreesOf(graph).every((k) => k === 0)) return membership;
+
+  while (true) {
+    const { community, moved } = moveNodes(level, resolution);
+    if (!moved) break;
+
+    const renumber = new Map<number, number>();
+    community.forEach((c) => {
+      if (!renumber.has(c)) renumber.set(c, renumber.size);
+    });
+    membership = membership.map((node) => renumber.get(community[node])!);
+    // 没有任何两个节点合并（只是交换了社区编号）时已收敛
+    if (renumber.size === level.length) break;
+
+    const aggregated: WeightedGraph = Array.from({ length: renumber.size }, () => new Map());
+    level.forEach((neighbors, i) => {
+      const ci = renumber.get(community[i])!;
+      neighbors.forEach((weight, j) => {
+        const cj = renumber.get(community[j])!;
+        aggregated[ci].set(cj, (aggregated[ci].get(cj) ?? 0) + weight);
+      });
+    });
+    level = aggregated;
+  }
+  return membership;
+}
+
+/**
+ * 划分的模块度 Q
+ */
+export function modularity(graph: WeightedGraph, membership: number[], resolution: number = 1): number {
+  const degrees = degreesOf(graph);
+  const totalWeight = degrees.reduce((sum, k) => sum + k, 0);
+  if (totalWeight === 0) return 0;
+  const internal = new Map<number, number>();
+  const communityDegree = new Map<number, number>();
+  graph.forEach((neighbors, i) => {
+    const c = membership[i];
+    communityDegree.set(c, (communityDegree.get(c) ?? 0) + degrees[i]);
+    neighbors.forEach((weight, j) => {
+      if (membership[j] === c) internal.set(c, (internal.get(c) ?? 0) + weight);
+    });
+  });
+  let q = 0;
+  communityDegree.forEach((degree, c) => {
+    q += (internal.get(c) ?? 0) / totalWeight - resolution * (degree / totalWeight) ** 2;
+  });
+  return q;
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) sum += a[i] * b[i];
+  return sum;
+}
+
+function titleWords(title: string): string[] {
+  return Array.from(
+    new Set(
+      splitText(title)
+        .filter((segment) => segment.type === "word")
+        .map((segment) => segment.value)
+        .filter((word) => word.length >= 3 && !/^\d+$/.test(word) && !isStopWord(word) && !TITLE_STOP_WORDS.has(word))
+    )
+  );
+}
+
+// 簇内出现比例明显高于全体的词作为关键词
+function clusterKeywords(members: MarketData[], globalFrequency: Map<string, number>, total: number): string[] {
+  const counts = new Map<string, number>();
+  members.forEach((m) => titleWords(m.title).forEach((word) => counts.set(word, (counts.get(word) ?? 0) + 1)));
+  return Array.from(counts.entries())
+    .filter(([, count]) => count >= Math.min(2, members.length))
+    .map(([word, count]) => ({ word, score: count / members.length - (globalFrequency.get(word) ?? 0) / total }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, 3)
+    .map(({ word }) => word.charAt(0).toUpperCase() + word.slice(1));
+}
+
+function clusterLabel(members: MarketData[], keywords: string[]): { label: string; labelSource: MarketCluster["labelSource"] } {
+  // 过半市场来自同一事件时直接用事件标题
+  const eventCounts = new Map<string, number>();
+  members.forEach((m) => m.eventTitle && eventCounts.set(m.eventTitle, (eventCounts.get(m.eventTitle) ?? 0) + 1));
+  const [topEvent] = Array.from(eventCounts.entries()).sort((a, b) => b[1] - a[1]);
+  if (topEvent && topEvent[1] * 2 > members.length) return { label: topEvent[0], labelSource: "event" };
+  if (keywords.length > 0) return { label: keywords.join(" / "), labelSource: "keywords" };
+  return { label: members[0].title, labelSource: "keywords" };
+}
+
+/**
+ * 市场聚类：边权 = correlationWeight × |r|（|r| ≥ minCorrelation）+ similarityWeight × 归一化后的余弦相似度
+ * （余弦 ≥ minSimilarity，按 [minSimilarity, 1] 线性缩放到 [0, 1]）；负相关（互斥结果）同样视为关联
+ */
+export function clusterMarkets(
+  markets: MarketData[],
+  matrix: CompactCorrelationMatrix,
+  options: ClusteringOptions = {}
+): ClusteringResult {
+  const {
+    vectors,
+    minCorrelation = DEFAULT_PAIR_THRESHOLD,
+    minSimilarity = DEFAULT_MIN_SIMILARITY,
+    correlationWeight = 1,
+    similarityWeight = 0.5,
+    resolution = 1,
+    minClusterSize = 2,
+  } = options;
+
+  const marketById = new Map(markets.map((m) => [m.id, m]));
+  const ids = matrix.ids.filter((id) => marketById.has(id));
+  const matrixIndex = new Map(matrix.ids.map((id, i) => [id, i]));
+  const correlationAt = decodeCorrelationMatrix(matrix);
+
+  const graph: WeightedGraph = ids.map(() => new Map());
+  for (let i = 0; i < ids.length; i++) {
+    const vectorI = vectors?.get(ids[i]);
+    for (let j = i + 1; j < ids.length; j++) {
+      let weight = 0;
+      const r = correlationAt(matrixIndex.get(ids[i])!, matrixIndex.get(ids[j])!);
+      if (r !== null && Math.abs(r) >= minCorrelation) weight += correlationWeight * Math.abs(r);
+      const vectorJ = vectors?.get(ids[j]);
+      if (vectorI && vectorJ) {
+        const similarity = dot(vectorI, vectorJ);
+        if (similarity >= minSimilarity) weight += similarityWeight * ((similarity - minSimilarity) / (1 - minSimilarity));
+      }
+      addEdge(graph, i, j, weight);
+    }
+  }
+
+  const membership = louvainCommunities(graph, resolution);
+  const groups = new Map<number, number[]>();
+  membership.forEach((c, i) => groups.set(c, [...(groups.get(c) ?? []), i]));
+
+  const globalFrequency = new Map<string, number>();
+  ids.forEach((id) => titleWords(marketById.get(id)!.title).forEach((word) => globalFrequency.set(word, (globalFrequency.get(word) ?? 0) + 1)));
+
+  const clusters: MarketCluster[] = Array.from(groups.values())
+    .filter((nodes) => nodes.length >= minClusterSize)
+    .sort((a, b) => b.length - a.length)
+    .map((nodes, id) => {
+      const members = nodes.map((i) => marketById.get(ids[i])!);
+      const correlations: number[] = [];
+      nodes.forEach((i, x) =>
+        nodes.slice(x + 1).forEach((j) => {
+          const r = correlationAt(matrixIndex.get(ids[i])!, matrixIndex.get(ids[j])!);
+          if (r !== null) correlations.push(r);
+        })
+      );
+      const keywords = clusterKeywords(members, globalFrequency, ids.length);
+      const lead = members.reduce((best, m) => ((m.volumeUsd ?? 0) > (best.volumeUsd ?? 0) ? m : best), members[0]);
+
+      return {
+        id,
+        ...clusterLabel(members, keywords),
+        keywords,
+        marketIds: members.map((m) => m.id),
+        size: members.length,
+        avgCorrelation: correlations.length > 0 ? correlations.reduce((sum, r) => sum + r, 0) / correlations.length : null,
+        avgProbability: members.reduce((sum, m) => sum + m.probability, 0) / members.length,
+        totalVolumeUsd: members.reduce((sum, m) => sum + (m.volumeUsd ?? 0), 0),
+        eventCount: new Set(members.map((m) => m.eventId ?? m.id)).size,
+        leadMarketId: lead.id,
+      };
+    });
+
+  const assignments: Record<string, number> = {};
+  clusters.forEach((cluster) => cluster.marketIds.forEach((id) => (assignments[id] = cluster.id)));
+
+  return { clusters, assignments, modularity: modularity(graph, membership, resolution) };
+}
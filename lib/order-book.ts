@@ -0,0 +1,82 @@
+/**
+ * Order Book Analytics
+ * 基于 CLOB 订单簿计算中点、价差、最优档位份额与 ±N 美分内的深度，用于区分流动与稀薄的市场
+ */
+
+import type { OrderBook, OrderBookLevel, OrderBookSummary } from "@/types/polymarket";
+
+export const DEFAULT_DEPTH_CENTS = 2;
+
+// 价差超过 5 美分或单侧深度不足 $500 视为稀薄
+const THIN_SPREAD_CENTS = 5;
+const THIN_DEPTH_USD = 500;
+
+function toCents(price: number): number {
+  return Math.round(price * 10000) / 100;
+}
+
+// 价格范围内档位的名义金额（USD）
+function notionalWithin(levels: OrderBookLevel[], inRange: (price: number) => boolean): number {
+  const total = levels
+    .filter((level) => inRange(level.price))
+    .reduce((sum, level) => sum + level.price * level.size, 0);
+  return Math.round(total * 100) / 100;
+}
+
+/**
+ * 计算订单簿摘要
+ * @param depthCents 深度统计范围（中点 ± depthCents 美分）
+ */
+export function summarizeOrderBook(book: OrderBook, depthCents: number = DEFAULT_DEPTH_CENTS): OrderBookSummary {
+  const topBid = book.bids[0];
+  const topAsk = book.asks[0];
+
+  const bestBid = topBid ? toCents(topBid.price) : null;
+  const bestAsk = topAsk ? toCents(topAsk.price) : null;
+  const midpoint =
+    topBid && topAsk ? toCents((topBid.price + topAsk.price) / 2) : null;
+  const spread = topBid && topAsk ? toCents(topAsk.price - topBid.price) : null;
+
+  // 没有双边报价时以单侧最优价为基准统计深度
+  const anchor = midpoint ?? bestBid ?? bestAsk;
+  // 加上极小量，避免浮点误差把恰好位于边界的档位排除
+  const band = depthCents / 100 + 1e-9;
+  const center = anchor !== null ? anchor / 100 : 0;
+  const bidDepth = anchor !== null ? notionalWithin(book.bids, (price) => price >= center - band) : 0;
+  const askDepth = anchor !== null ? notionalWithin(book.asks, (price) => price <= center + band) : 0;
+
+  const summary: OrderBookSummary = {
+    tokenId: book.tokenId,
+    bestBid,
+    bestAsk,
+    midpoint,
+    spread,
+    bidSize: topBid?.size ?? 0,
+    askSize: topAsk?.size ?? 0,
+    depthCents,
+    bidDepth,
+    askDepth,
+    liquidity: "empty",
+  };
+  summary.liquidity = classifyLiquidity(summary);
+  return summary;
+}
+
+/**
+ * 流动性分级：empty 为缺少一侧报价，thin 为价差过大或深度不足
+ */
+export function classifyLiquidity(summary: Omit<OrderBookSummary, "liquidity">): OrderBookSummary["liquidity"] {
+  if (summary.spread === null) return "empty";
+  if (summary.spread > THIN_SPREAD_CENTS) return "thin";
+  if (Math.min(summary.bidDepth, summary.askDepth) < THIN_DEPTH_USD) return "thin";
+  return "liquid";
+}
+
+/**
+ * 用于 Prompt / 日志的简短描述，如 "liquid (spread 1.0¢, $12,400 / $9,800 within ±2¢)"
+ */
+export function describeOrderBook(summary: OrderBookSummary): string {
+  if (summary.liquidity === "empty") return "no two-sided quotes";
+  const depth = `$${Math.round(summary.bidDepth).toLocaleString()} / $${Math.round(summary.askDepth).toLocaleString()}`;
+  return `${summary.liquidity} (spread ${summary.spread?.toFixed(1)}¢, ${depth} within ±${summary.depthCents}¢)`;
+}
@@ -0,0 +1,330 @@
+/**
+ * Polymarket Schema Validation
+ * 将 Gamma / CLOB 原始响应校验并规范化为领域对象，格式错误的记录会被上报而不是静默填充默认值
+ */
+
+import type {
+  OrderBook,
+  OrderBookLevel,
+  PolymarketEvent,
+  PolymarketMarket,
+  ValidationIssue,
+} from "@/types/polymarket";
+
+const MAX_RECENT_ISSUES = 200;
+const recentIssues: ValidationIssue[] = [];
+const issueCounts: Record<string, number> = {};
+
+/**
+ * 单次请求的校验上下文，收集该批数据的所有问题
+ */
+export class ValidationCollector {
+  readonly issues: ValidationIssue[] = [];
+
+  constructor(readonly source: string) {}
+
+  add(issue: Omit<ValidationIssue, "source">): void {
+    this.issues.push({ source: this.source, ...issue });
+  }
+
+  /**
+   * 输出汇总日志并记入最近问题列表
+   */
+  report(): void {
+    if (this.issues.length === 0) return;
+
+    const errors = this.issues.filter((i) => i.severity === "error").length;
+    const warnings = this.issues.length - errors;
+    console.warn(
+      `⚠️ Schema validation (${this.source}): ${errors} records dropped, ${warnings} fields unparseable`
+    );
+    this.issues.slice(0, 5).forEach((issue) => {
+      console.warn(`   - [${issue.entity} ${issue.id ?? "?"}] ${issue.field}: ${issue.message}`);
+    });
+
+    this.issues.forEach((issue) => {
+      const key = `${issue.entity}.${issue.field}`;
+      issueCounts[key] = (issueCounts[key] || 0) + 1;
+      recentIssues.push(issue);
+    });
+    if (recentIssues.length > MAX_RECENT_ISSUES) {
+      recentIssues.splice(0, recentIssues.length - MAX_RECENT_ISSUES);
+    }
+  }
+}
+
+/**
+ * 获取校验问题统计（按 entity.field 计数）与最近的问题记录
+ */
+export function getValidationReport(): { counts: Record<string, number>; recent: ValidationIssue[] } {
+  return { counts: { ...issueCounts }, recent: [...recentIssues] };
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function asId(value: unknown): string | null {
+  if (typeof value === "string" && value.trim()) return value;
+  if (typeof value === "number" && Number.isFinite(value)) return String(value);
+  return null;
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value : undefined;
+}
+
+/**
+ * 解析数字（支持数字字符串）；缺失返回 0，无法解析返回 null
+ */
+function parseNumber(value: unknown): number | null {
+  if (value === undefined || value === null || value === "") return 0;
+  const num = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(num) ? num : null;
+}
+
+function parseDate(value: unknown): Date | null | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  if (typeof value !== "string" && typeof value !== "number") return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * 解析 JSON 字符串数组（如 clobTokenIds / outcomes），也接受已解析的数组
+ */
+function parseStringArray(value: unknown): string[] | null {
+  let parsed: unknown = value;
+  if (typeof value === "string") {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  if (!Array.isArray(parsed)) return null;
+  if (!parsed.every((item) => typeof item === "string" || typeof item === "number")) return null;
+  return parsed.map(String);
+}
+
+interface ParentEvent {
+  id: string;
+  slug: string;
+  title: string;
+}
+
+/**
+ * 规范化单个市场；缺少 id / question / token / outcomes 时返回 null 并记录 error
+ */
+export function normalizeMarket(
+  raw: unknown,
+  collector: ValidationCollector,
+  parent?: ParentEvent
+): PolymarketMarket | null {
+  if (!isRecord(raw)) {
+    collector.add({ entity: "market", field: "(record)", message: "not an object", severity: "error" });
+    return null;
+  }
+
+  const id = asId(raw.id);
+  const drop = (field: string, message: string, value?: unknown) => {
+    collector.add({ entity: "market", id: id ?? undefined, field, message, severity: "error", value });
+    return null;
+  };
+
+  if (!id) return drop("id", "missing id", raw.id);
+  const question = asString(raw.question);
+  if (!question) return drop("question", "missing question", raw.question);
+
+  const tokenIds = parseStringArray(raw.clobTokenIds);
+  if (!tokenIds || tokenIds.length === 0) {
+    return drop("clobTokenIds", "missing or malformed token id array", raw.clobTokenIds);
+  }
+  const outcomes = parseStringArray(raw.outcomes);
+  if (!outcomes || outcomes.length === 0) {
+    return drop("outcomes", "missing or malformed outcomes array", raw.outcomes);
+  }
+  if (outcomes.length !== tokenIds.length) {
+    collector.add({
+      entity: "market",
+      id,
+      field: "outcomes",
+      message: `${outcomes.length} outcomes for ${tokenIds.length} tokens`,
+      severity: "warning",
+    });
+  }
+
+  // Gamma 的 volume 为字符串，volumeNum 为数字
+  let volume = parseNumber(raw.volumeNum ?? raw.volume);
+  if (volume === null) {
+    collector.add({ entity: "market", id, field: "volume", message: "not a number", severity: "warning", value: raw.volume });
+    volume = 0;
+  }
+
+  const endDate = parseDate(raw.endDate);
+  if (endDate === null) {
+    collector.add({ entity: "market", id, field: "endDate", message: "invalid date", severity: "warning", value: raw.endDate });
+  }
+
+  return {
+    id,
+    question,
+    conditionId: asString(raw.conditionId),
+    slug: asString(raw.slug) || "",
+    tokenIds,
+    outcomes,
+    volume,
+    endDate: endDate ?? null,
+    image: asString(raw.image),
+    active: raw.active === true,
+    closed: raw.closed === true,
+    enableOrderBook: raw.enableOrderBook === true,
+    eventSlug: parent?.slug ?? asString(raw.eventSlug),
+    eventId: parent?.id ?? asId(raw.eventId) ?? undefined,
+    eventTitle: parent?.title ?? asString(raw.eventTitle),
+  };
+}
+
+/**
+ * 规范化事件及其下属市场（格式错误的市场被剔除，事件本身保留）
+ */
+export function normalizeEvent(raw: unknown, collector: ValidationCollector): PolymarketEvent | null {
+  if (!isRecord(raw)) {
+    collector.add({ entity: "event", field: "(record)", message: "not an object", severity: "error" });
+    return null;
+  }
+
+  const id = asId(raw.id);
+  if (!id) {
+    collector.add({ entity: "event", field: "id", message: "missing id", severity: "error", value: raw.id });
+    return null;
+  }
+  const title = asString(raw.title);
+  if (!title) {
+    collector.add({ entity: "event", id, field: "title", message: "missing title", severity: "error", value: raw.title });
+    return null;
+  }
+  const slug = asString(raw.slug) || "";
+
+  let volume = parseNumber(raw.volume);
+  if (volume === null) {
+    collector.add({ entity: "event", id, field: "volume", message: "not a number", severity: "warning", value: raw.volume });
+    volume = 0;
+  }
+
+  const endDate = parseDate(raw.endDate);
+  if (endDate === null) {
+    collector.add({ entity: "event", id, field: "endDate", message: "invalid date", severity: "warning", value: raw.endDate });
+  }
+
+  if (raw.markets !== undefined && !Array.isArray(raw.markets)) {
+    collector.add({ entity: "event", id, field: "markets", message: "not an array", severity: "warning" });
+  }
+  const rawMarkets: unknown[] = Array.isArray(raw.markets) ? raw.markets : [];
+  const parent = { id, slug, title };
+  const markets = rawMarkets
+    .map((market) => normalizeMarket(market, collector, parent))
+    .filter((market): market is PolymarketMarket => market !== null);
+
+  return {
+    id,
+    title,
+    slug,
+    volume,
+    endDate: endDate ?? null,
+    image: asString(raw.image),
+    active: raw.active === true,
+    closed: raw.closed === true,
+    enableOrderBook: raw.enableOrderBook === true,
+    markets,
+  };
+}
+
+export function normalizeEvents(raw: unknown[], collector: ValidationCollector): PolymarketEvent[] {
+  return raw
+    .map((event) => normalizeEvent(event, collector))
+    .filter((event): event is PolymarketEvent => event !== null);
+}
+
+export function normalizeMarkets(raw: unknown[], collector: ValidationCollector): PolymarketMarket[] {
+  return raw
+    .map((market) => normalizeMarket(market, collector))
+    .filter((market): market is PolymarketMarket => market !== null);
+}
+
+/**
+ * 规范化 CLOB /prices 响应为 { tokenId: price }
+ * 价格缺失、非数字或不在 [0, 1] 内的 token 不写入结果，并记录问题
+ */
+export function normalizePriceMap(
+  raw: unknown,
+  side: "BUY" | "SELL",
+  requestedTokenIds: string[],
+  collector: ValidationCollector
+): Record<string, number> {
+  const priceMap: Record<string, number> = {};
+  const data = isRecord(raw) ? raw : {};
+
+  requestedTokenIds.forEach((tokenId) => {
+    const entry = data[tokenId];
+    if (!isRecord(entry) || entry[side] === undefined) {
+      collector.add({ entity: "price", id: tokenId, field: side, message: "no price returned", severity: "error" });
+      return;
+    }
+    const price = typeof entry[side] === "number" ? entry[side] : Number(entry[side]);
+    if (!Number.isFinite(price) || price < 0 || price > 1) {
+      collector.add({ entity: "price", id: tokenId, field: side, message: "not a price in [0, 1]", severity: "error", value: entry[side] });
+      return;
+    }
+    priceMap[tokenId] = price;
+  });
+
+  return priceMap;
+}
+
+function parseLevels(value: unknown): OrderBookLevel[] | null {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) return null;
+  const levels: OrderBookLevel[] = [];
+  for (const item of value) {
+    if (!isRecord(item)) return null;
+    const price = Number(item.price);
+    const size = Number(item.size);
+    if (!Number.isFinite(price) || !Number.isFinite(size) || price < 0 || price > 1 || size < 0) return null;
+    if (size > 0) levels.push({ price, size });
+  }
+  return levels;
+}
+
+/**
+ * 规范化 CLOB /books 中的单个订单簿
+ * 档位格式错误时整本丢弃（部分档位无法反映真实深度）
+ */
+export function normalizeOrderBook(raw: unknown, collector: ValidationCollector): OrderBook | null {
+  if (!isRecord(raw)) {
+    collector.add({ entity: "book", field: "(record)", message: "not an object", severity: "error" });
+    return null;
+  }
+
+  const tokenId = asId(raw.asset_id);
+  if (!tokenId) {
+    collector.add({ entity: "book", field: "asset_id", message: "missing asset id", severity: "error", value: raw.asset_id });
+    return null;
+  }
+
+  const bids = parseLevels(raw.bids);
+  const asks = parseLevels(raw.asks);
+  if (!bids || !asks) {
+    collector.add({ entity: "book", id: tokenId, field: bids ? "asks" : "bids", message: "malformed price levels", severity: "error" });
+    return null;
+  }
+
+  const timestamp = raw.timestamp !== undefined ? Number(raw.timestamp) : NaN;
+
+  return {
+    tokenId,
+    bids: bids.sort((a, b) => b.price - a.price),
+    asks: asks.sort((a, b) => a.price - b.price),
+    timestamp: Number.isFinite(timestamp) ? timestamp : null,
+  };
+}
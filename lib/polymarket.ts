@@ -3,17 +3,79 @@
  * 核心服务函数，使用批量 API 优化性能
  */
 
-import type { GammaEvent, GammaMarket, ClobPrice, MarketData, SparklineDataPoint } from "@/types/polymarket";
-import fetch from "node-fetch";
+import type {
+  ClobOrderBookResponse,
+  ClobPriceResponse,
+  GammaEvent,
+  GammaMarket,
+  MarketData,
+  OrderBook,
+  OutcomePrice,
+  PolymarketEvent,
+  PolymarketMarket,
+  PriceHistoryInterval,
+  SparklineDataPoint,
+  TokenQuote,
+} from "@/types/polymarket";
+import { getJson, postJson } from "@/lib/http-client";
+import {
+  ValidationCollector,
+  normalizeEvent,
+  normalizeEvents,
+  normalizeMarkets,
+  normalizeOrderBook,
+  normalizePriceMap,
+} from "@/lib/polymarket-schema";
+import { DEFAULT_DEPTH_CENTS, summarizeOrderBook } from "@/lib/order-book";
+import { getStorage } from "@/lib/storage";
+import {
+  matchesMarketFilters,
+  matchesProbability,
+  sortMarketData,
+  type FilterScope,
+  type SearchFilters,
+  type SearchSort,
+} from "@/lib/query-filters";
 
 const GAMMA_API_BASE = "https://gamma-api.polymarket.com";
 const CLOB_API_BASE = "https://clob.polymarket.com";
+const BOOKS_BATCH_SIZE = 100;
+// POST /prices 每个 token 需要 BUY / SELL 两条请求，每批 token 数
+const PRICES_BATCH_SIZE = 100;
+
+type GammaList<T> = T[] | { results?: T[] };
+
+// Gamma 列表接口返回数组或 { results: [...] }
+function isGammaList(data: unknown): data is GammaList<any> {
+  return Array.isArray(data) || (isObject(data) && (data.results === undefined || Array.isArray(data.results)));
+}
+
+function unwrapList<T>(data: GammaList<T>): T[] {
+  if (Array.isArray(data)) return data;
+  return Array.isArray(data?.results) ? data.results : [];
+}
+
+// 校验并规范化一批事件，输出问题汇总
+function toEvents(source: string, raw: unknown[]): PolymarketEvent[] {
+  const collector = new ValidationCollector(source);
+  const events = normalizeEvents(raw, collector);
+  collector.report();
+  return events;
+}
+
+function isTradable(market: PolymarketMarket): boolean {
+  return market.active && !market.closed && market.enableOrderBook;
+}
+
+function isObject(data: unknown): data is Record<string, any> {
+  return typeof data === "object" && data !== null && !Array.isArray(data);
+}
 
 /**
  * 获取所有活跃市场（用于构建标题索引）
  * 使用 markets API，按 volume24hr 排序
  */
-export async function getAllActiveMarkets(): Promise<GammaMarket[]> {
+export async function getAllActiveMarkets(): Promise<PolymarketMarket[]> {
   try {
     const params = new URLSearchParams({
       active: "true",
@@ -23,29 +85,18 @@ export async function getAllActiveMarkets(): Promise<GammaMarket[]> {
       ascending: "false",
     });
 
-    const response = await fetch(`${GAMMA_API_BASE}/markets?${params.toString()}` as any);
-
-    if (!response.ok) {
-      throw new Error(`Gamma API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const markets: GammaMarket[] = Array.isArray(data)
-      ? data
-      : Array.isArray(data?.results)
-        ? data.results
-        : [];
+    const data = await getJson<GammaList<GammaMarket>>(`${GAMMA_API_BASE}/markets?${params.toString()}`, {
+      label: "Gamma API",
+      validate: isGammaList,
+    });
+    const collector = new ValidationCollector("gamma:/markets");
+    const markets = normalizeMarkets(unwrapList(data), collector);
+    collector.report();
 
-    const filteredMarkets = markets.filter(
-      (market) => market.active === true && market.closed === false && market.enableOrderBook === true
-    );
+    const filteredMarkets = markets.filter(isTradable);
 
     // 按 volume 倒序排序（作为兜底）
-    filteredMarkets.sort((a, b) => {
-      const volA = typeof a.volume === 'number' ? a.volume : parseFloat(String(a.volume)) || 0;
-      const volB = typeof b.volume === 'number' ? b.volume : parseFloat(String(b.volume)) || 0;
-      return volB - volA;
-    });
+    filteredMarkets.sort((a, b) => b.volume - a.volume);
 
     console.log(`Fetched and sorted ${filteredMarkets.length} active markets by volume`);
 
@@ -60,11 +111,11 @@ export async function getAllActiveMarkets(): Promise<GammaMarket[]> {
  * 获取所有活跃事件（用于语义匹配）
  * 使用 events API，按 volume 排序，分页拉取
  */
-export async function getAllActiveEvents(): Promise<GammaEvent[]> {
+export async function getAllActiveEvents(): Promise<PolymarketEvent[]> {
   try {
     const limit = 500;
     let offset = 0;
-    const allEvents: GammaEvent[] = [];
+    const allEvents: PolymarketEvent[] = [];
 
     for (let page = 0; page < 20; page++) {
       const params = new URLSearchParams({
@@ -75,24 +126,18 @@ export async function getAllActiveEvents(): Promise<GammaEvent[]> {
         sort: "volume",
       });
 
-      const response = await fetch(`${GAMMA_API_BASE}/events?${params.toString()}` as any);
-
-      if (!response.ok) {
-        throw new Error(`Gamma API error: ${response.status}`);
-      }
-
-      const data = await response.json();
-      const results: GammaEvent[] = Array.isArray(data)
-        ? data
-        : Array.isArray(data?.results)
-          ? data.results
-          : [];
+      const data = await getJson<GammaList<GammaEvent>>(`${GAMMA_API_BASE}/events?${params.toString()}`, {
+        label: "Gamma API",
+        validate: isGammaList,
+        timeoutMs: 30000,
+      });
+      const results = unwrapList(data);
 
       if (results.length === 0) {
         break;
       }
 
-      allEvents.push(...results);
+      allEvents.push(...toEvents("gamma:/events", results));
 
       if (results.length < limit) {
         break;
@@ -109,55 +154,46 @@ export async function getAllActiveEvents(): Promise<GammaEvent[]> {
   }
 }
 
+export interface SearchMarketsOptions {
+  // 默认只搜索可交易的活跃市场；closed / all 包含已关闭的市场
+  status?: "active" | "closed" | "all";
+}
+
 /**
  * 搜索市场 - 使用 public-search API
  * @param query 搜索查询词
  */
-export async function searchMarkets(query: string): Promise<GammaMarket[]> {
+export async function searchMarkets(query: string, options: SearchMarketsOptions = {}): Promise<PolymarketMarket[]> {
+  const { status = "active" } = options;
   try {
-    const params = new URLSearchParams({
-      q: query,
-      events_status: 'active', // 只搜索 active 状态的市场
-      keep_closed_markets: '0', // 不保留已关闭的市场
-    });
-
-    const response = await fetch(`${GAMMA_API_BASE}/public-search?${params.toString()}` as any);
-
-    if (!response.ok) {
-      throw new Error(`Gamma API error: ${response.status}`);
+    const params = new URLSearchParams({ q: query });
+    if (status === "active") {
+      params.set("events_status", "active"); // 只搜索 active 状态的市场
+      params.set("keep_closed_markets", "0"); // 不保留已关闭的市场
+    } else {
+      if (status === "closed") params.set("events_status", "closed");
+      params.set("keep_closed_markets", "1");
     }
 
-    const data = await response.json();
-    
+    const data = await getJson<{ events?: GammaEvent[] }>(`${GAMMA_API_BASE}/public-search?${params.toString()}`, {
+      label: "Gamma API",
+      validate: isObject,
+    });
+
     // public-search 返回 { events: [...] } 结构
-    const events: GammaEvent[] = data.events || [];
+    const events = toEvents("gamma:/public-search", Array.isArray(data.events) ? data.events : []);
 
-    // 从每个Event中提取Markets，并筛选活跃且未结束的市场
-    const allMarkets: GammaMarket[] = [];
-    events.forEach((event) => {
-      if (event.markets && Array.isArray(event.markets)) {
-        const filteredMarkets = event.markets
-          .filter(
-            (market) => market.active === true && market.closed === false && market.enableOrderBook === true
-          )
-          .map((market) => ({
-            ...market,
-            eventSlug: event.slug, // 保存父 event 的 slug 用于构建正确的 URL
-            eventId: event.id,     // 新增：父事件 ID
-            eventTitle: event.title // 新增：父事件标题
-          }));
-        allMarkets.push(...filteredMarkets);
-      }
-    });
+    // 从每个Event中提取Markets（已带父事件 slug / id / title），并按状态筛选
+    const allMarkets: PolymarketMarket[] = events.flatMap((event) =>
+      event.markets.filter((market) =>
+        status === "active" ? isTradable(market) : status === "closed" ? market.closed : true
+      )
+    );
 
     // 按 volume 倒序排序
-    allMarkets.sort((a, b) => {
-      const volA = typeof a.volume === 'number' ? a.volume : parseFloat(String(a.volume)) || 0;
-      const volB = typeof b.volume === 'number' ? b.volume : parseFloat(String(b.volume)) || 0;
-      return volB - volA;
-    });
+    allMarkets.sort((a, b) => b.volume - a.volume);
 
-    console.log(`🔍 Search results for "${query}": ${allMarkets.length} active markets`);
+    console.log(`🔍 Search results for "${query}": ${allMarkets.length} markets (${status})`);
 
     return allMarkets;
   } catch (error) {
@@ -172,7 +208,7 @@ export async function searchMarkets(query: string): Promise<GammaMarket[]> {
  * @param limit 返回的事件数量限制，默认100
  * @returns 事件数组（每个事件包含markets数组）
  */
-export async function getEventsByTag(tagId: string, limit: number = 100): Promise<GammaEvent[]> {
+export async function getEventsByTag(tagId: string, limit: number = 100): Promise<PolymarketEvent[]> {
   try {
     const params = new URLSearchParams({
       tag_id: tagId,
@@ -182,19 +218,11 @@ export async function getEventsByTag(tagId: string, limit: number = 100): Promis
       limit: limit.toString(),
     });
 
-    const response = await fetch(`${GAMMA_API_BASE}/events?${params.toString()}` as any);
-
-    if (!response.ok) {
-      throw new Error(`Gamma API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    let events: GammaEvent[] = [];
-    if (Array.isArray(data)) {
-      events = data;
-    } else if (data.results && Array.isArray(data.results)) {
-      events = data.results;
-    }
+    const data = await getJson<GammaList<GammaEvent>>(`${GAMMA_API_BASE}/events?${params.toString()}`, {
+      label: "Gamma API",
+      validate: isGammaList,
+    });
+    const events = toEvents("gamma:/events", unwrapList(data));
 
     console.log(`Fetched ${events.length} events for tag ${tagId}`);
     return events;
@@ -210,27 +238,12 @@ export async function getEventsByTag(tagId: string, limit: number = 100): Promis
  * @param limit 返回的市场数量限制，默认50
  * @returns 市场数组
  */
-export async function getMarketsByTag(tagId: string, limit: number = 50): Promise<GammaMarket[]> {
+export async function getMarketsByTag(tagId: string, limit: number = 50): Promise<PolymarketMarket[]> {
   try {
     const events = await getEventsByTag(tagId, 100);
     
     // 从事件中提取所有活跃市场
-    const allMarkets: GammaMarket[] = [];
-    events.forEach((event) => {
-      if (event.markets && Array.isArray(event.markets)) {
-        const filteredMarkets = event.markets
-          .filter(
-            (market) => market.active === true && market.closed === false && market.enableOrderBook === true
-          )
-          .map((market) => ({
-            ...market,
-            eventSlug: event.slug, // 保存父 event 的 slug 用于构建正确的 URL
-            eventId: event.id,     // 新增：父事件 ID
-            eventTitle: event.title // 新增：父事件标题
-          }));
-        allMarkets.push(...filteredMarkets);
-      }
-    });
+    const allMarkets = events.flatMap((event) => event.markets.filter(isTradable));
 
     // 排序并限制数量
     const sortedMarkets = sortAndFilterMarkets(allMarkets, limit);
@@ -248,15 +261,21 @@ export async function getMarketsByTag(tagId: string, limit: number = 50): Promis
  * 根据一组ID批量获取事件详情
  * @param ids 事件ID数组
  */
-export async function getEventsByIds(ids: string[]): Promise<GammaEvent[]> {
+export async function getEventsByIds(ids: string[]): Promise<PolymarketEvent[]> {
   try {
-    // Gamma API 似乎没有直接的批量获取接口，这里我们并发请求
-    // 或者我们可以使用 query params: id=...&id=...
-    const promises = ids.map(id => 
-      fetch(`${GAMMA_API_BASE}/events/${id}`).then(res => res.ok ? res.json() : null)
+    // Gamma API 没有批量获取接口，逐个请求；并发与速率由 http-client 按 host 限制
+    const collector = new ValidationCollector("gamma:/events/{id}");
+    const promises = ids.map(id =>
+      getJson<GammaEvent>(`${GAMMA_API_BASE}/events/${id}`, { label: "Gamma API", validate: isObject })
+        .then((raw) => normalizeEvent(raw, collector))
+        .catch((error) => {
+          console.warn(`Failed to fetch event ${id}:`, error.message);
+          return null;
+        })
     );
     const results = await Promise.all(promises);
-    return results.filter(Boolean);
+    collector.report();
+    return results.filter((event): event is PolymarketEvent => event !== null);
   } catch (error) {
     console.error("Error fetching events by ids:", error);
     return [];
@@ -269,7 +288,7 @@ export async function getEventsByIds(ids: string[]): Promise<GammaEvent[]> {
  * @param tagId 标签ID
  * @param category 分类名称（作为降级方案）
  */
-export async function searchMarketsByTag(tagId?: string, category?: string): Promise<GammaMarket[]> {
+export async function searchMarketsByTag(tagId?: string, category?: string): Promise<PolymarketMarket[]> {
   try {
     // 优先尝试使用tag_id参数
     if (tagId) {
@@ -281,30 +300,15 @@ export async function searchMarketsByTag(tagId?: string, category?: string): Pro
           sort: "volume",
         });
 
-        const response = await fetch(`${GAMMA_API_BASE}/events?${params.toString()}` as any);
-
-        if (response.ok) {
-          const data = await response.json();
-          let events: GammaEvent[] = [];
-          if (Array.isArray(data)) {
-            events = data;
-          } else if (data.results && Array.isArray(data.results)) {
-            events = data.results;
-          }
-
-          const allMarkets: GammaMarket[] = [];
-          events.forEach((event) => {
-            if (event.markets && Array.isArray(event.markets)) {
-              const filteredMarkets = event.markets.filter(
-                (market) => market.active === true && market.closed === false && market.enableOrderBook === true
-              );
-              allMarkets.push(...filteredMarkets);
-            }
-          });
-
-          if (allMarkets.length > 0) {
-            return allMarkets;
-          }
+        const data = await getJson<GammaList<GammaEvent>>(`${GAMMA_API_BASE}/events?${params.toString()}`, {
+          label: "Gamma API",
+          validate: isGammaList,
+        });
+        const events = toEvents("gamma:/events", unwrapList(data));
+        const allMarkets = events.flatMap((event) => event.markets.filter(isTradable));
+
+        if (allMarkets.length > 0) {
+          return allMarkets;
         }
       } catch (error) {
         console.warn("Tag ID search failed, falling back to category search:", error);
@@ -328,7 +332,7 @@ export async function searchMarketsByTag(tagId?: string, category?: string): Pro
  * 用作搜索的兜底方案
  * @param limit 返回的市场数量限制
  */
-export async function getPopularMarkets(limit: number = 20): Promise<GammaMarket[]> {
+export async function getPopularMarkets(limit: number = 20): Promise<PolymarketMarket[]> {
   try {
     const params = new URLSearchParams({
       closed: "false",
@@ -336,37 +340,14 @@ export async function getPopularMarkets(limit: number = 20): Promise<GammaMarket
       sort: "volume",
     });
 
-    const response = await fetch(`${GAMMA_API_BASE}/events?${params.toString()}` as any);
-
-    if (!response.ok) {
-      throw new Error(`Gamma API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    let events: GammaEvent[] = [];
-    if (Array.isArray(data)) {
-      events = data;
-    } else if (data.results && Array.isArray(data.results)) {
-      events = data.results;
-    }
+    const data = await getJson<GammaList<GammaEvent>>(`${GAMMA_API_BASE}/events?${params.toString()}`, {
+      label: "Gamma API",
+      validate: isGammaList,
+    });
+    const events = toEvents("gamma:/events", unwrapList(data));
 
     // 从每个Event中提取Markets，并筛选活跃且未结束的市场
-    const allMarkets: GammaMarket[] = [];
-    events.forEach((event) => {
-      if (event.markets && Array.isArray(event.markets)) {
-        const filteredMarkets = event.markets
-          .filter(
-            (market) => market.active === true && market.closed === false && market.enableOrderBook === true
-          )
-          .map((market) => ({
-            ...market,
-            eventSlug: event.slug, // 保存父 event 的 slug 用于构建正确的 URL
-            eventId: event.id,     // 新增：父事件 ID
-            eventTitle: event.title // 新增：父事件标题
-          }));
-        allMarkets.push(...filteredMarkets);
-      }
-    });
+    const allMarkets = events.flatMap((event) => event.markets.filter(isTradable));
 
     // 限制返回数量
     return allMarkets.slice(0, limit);
@@ -377,94 +358,272 @@ export async function getPopularMarkets(limit: number = 20): Promise<GammaMarket
 }
 
 /**
- * 批量获取价格
- * 一次性获取多个 token 的当前价格
+ * 批量获取报价
+ * 按 PRICES_BATCH_SIZE 分批请求，每批同时取每个 token 的 BUY / SELL 两侧价格：BUY 为买方出价（bid），SELL 为卖方要价（ask）
  */
-export async function getBatchPrices(tokenIds: string[]): Promise<Record<string, number>> {
+export async function getBatchQuotes(tokenIds: string[]): Promise<Record<string, TokenQuote>> {
   if (tokenIds.length === 0) {
     return {};
   }
 
   try {
-    // 构建请求体：为每个 token 请求 BUY 侧价格
-    const requestBody = tokenIds.map((tokenId) => ({
-      token_id: tokenId,
-      side: "BUY",
-    }));
-
-    const response = await fetch(`${CLOB_API_BASE}/prices`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(requestBody),
-    } as any);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`CLOB API error ${response.status}:`, errorText);
-      throw new Error(`CLOB API error: ${response.status}`);
+    const uniqueTokenIds = Array.from(new Set(tokenIds));
+    const batches: string[][] = [];
+    for (let i = 0; i < uniqueTokenIds.length; i += PRICES_BATCH_SIZE) {
+      batches.push(uniqueTokenIds.slice(i, i + PRICES_BATCH_SIZE));
     }
 
-    const data = await response.json();
-    
-    // 转换为字典格式 { tokenId: price }
-    const priceMap: Record<string, number> = {};
-    
-    // CLOB API 返回格式: { "tokenId": { "BUY": "0.48" }, ... }
-    if (data && typeof data === 'object') {
-      Object.entries(data).forEach(([tokenId, priceData]: [string, any]) => {
-        if (priceData && typeof priceData === 'object' && priceData.BUY) {
-          const price = typeof priceData.BUY === 'string' ? parseFloat(priceData.BUY) : priceData.BUY;
-          priceMap[tokenId] = price || 0;
-        }
-      });
+    const responses = await Promise.all(
+      batches.map((batch) =>
+        postJson<ClobPriceResponse>(
+          `${CLOB_API_BASE}/prices`,
+          batch.flatMap((tokenId) => [
+            { token_id: tokenId, side: "BUY" },
+            { token_id: tokenId, side: "SELL" },
+          ]),
+          { label: "CLOB API", validate: isObject }
+        )
+      )
+    );
+    const data: ClobPriceResponse = Object.assign({}, ...responses);
+
+    // CLOB API 返回格式: { "tokenId": { "BUY": "0.48", "SELL": "0.52" }, ... }
+    // 缺失或无效的价格不会写入（而不是记为 0），并作为校验问题上报
+    const collector = new ValidationCollector("clob:/prices");
+    const bids = normalizePriceMap(data, "BUY", uniqueTokenIds, collector);
+    const asks = normalizePriceMap(data, "SELL", uniqueTokenIds, collector);
+    collector.report();
+
+    const quotes: Record<string, TokenQuote> = {};
+    uniqueTokenIds.forEach((tokenId) => {
+      if (bids[tokenId] === undefined && asks[tokenId] === undefined) return;
+      quotes[tokenId] = { bid: bids[tokenId], ask: asks[tokenId] };
+    });
+
+    console.log(`Fetched quotes for ${Object.keys(quotes).length}/${uniqueTokenIds.length} tokens`);
+    return quotes;
+  } catch (error) {
+    console.error("Error fetching batch quotes:", error);
+    throw error;
+  }
+}
+
+/**
+ * 批量获取订单簿
+ * POST /books 按 BOOKS_BATCH_SIZE 分批请求，返回 { tokenId: OrderBook }；缺失或格式错误的订单簿不写入
+ */
+export async function getOrderBooks(tokenIds: string[]): Promise<Record<string, OrderBook>> {
+  const uniqueTokenIds = Array.from(new Set(tokenIds));
+  if (uniqueTokenIds.length === 0) {
+    return {};
+  }
+
+  try {
+    const batches: string[][] = [];
+    for (let i = 0; i < uniqueTokenIds.length; i += BOOKS_BATCH_SIZE) {
+      batches.push(uniqueTokenIds.slice(i, i + BOOKS_BATCH_SIZE));
     }
 
-    console.log(`Fetched prices for ${Object.keys(priceMap).length} tokens`);
-    return priceMap;
+    const responses = await Promise.all(
+      batches.map((batch) =>
+        postJson<ClobOrderBookResponse[]>(
+          `${CLOB_API_BASE}/books`,
+          batch.map((tokenId) => ({ token_id: tokenId })),
+          { label: "CLOB API", validate: Array.isArray }
+        )
+      )
+    );
+
+    const collector = new ValidationCollector("clob:/books");
+    const books: Record<string, OrderBook> = {};
+    responses.flat().forEach((raw) => {
+      const book = normalizeOrderBook(raw, collector);
+      if (book) books[book.tokenId] = book;
+    });
+    collector.report();
+
+    console.log(`Fetched order books for ${Object.keys(books).length}/${uniqueTokenIds.length} tokens`);
+    return books;
   } catch (error) {
-    console.error("Error fetching batch prices:", error);
+    console.error("Error fetching order books:", error);
     throw error;
   }
 }
 
+export interface PriceHistoryOptions {
+  // 相对当前时间的窗口，与 startTs / endTs 二选一，默认 "max"
+  interval?: PriceHistoryInterval;
+  // 数据点粒度（分钟），默认按窗口长度选择
+  fidelity?: number;
+  // 显式时间范围（Unix 秒）
+  startTs?: number;
+  endTs?: number;
+  // 超过该点数时在服务端降采样，默认 500；0 表示不降采样
+  maxPoints?: number;
+}
+
+export const PRICE_HISTORY_INTERVALS: PriceHistoryInterval[] = ["1h", "6h", "1d", "1w", "1m", "max"];
+
+// 各窗口的默认粒度（分钟）
+const DEFAULT_FIDELITY: Record<PriceHistoryInterval, number> = {
+  "1h": 1,
+  "6h": 5,
+  "1d": 15,
+  "1w": 60,
+  "1m": 240,
+  max: 1440,
+};
+
+const DEFAULT_MAX_POINTS = 500;
+
 /**
- * 获取 Sparkline 图表数据 (历史价格)
- * 使用 interval=max 和 fidelity=1440 (按天)
+ * 按均匀时间网格分桶（跨度 / maxPoints），每桶保留最后一个价格并标记为桶的结束时刻
+ * 降采样后的序列间隔一致，仍可用于按时间对齐的相关性计算；没有数据的桶跳过
+ */
+export function downsampleHistory(points: SparklineDataPoint[], maxPoints: number = DEFAULT_MAX_POINTS): SparklineDataPoint[] {
+  if (maxPoints <= 0 || points.length <= maxPoints) return points;
+  const first = Date.parse(points[0].date);
+  const last = Date.parse(points[points.length - 1].date);
+  const width = (last - first) / maxPoints;
+  if (!(width > 0)) return points.slice(-maxPoints);
+
+  const buckets = new Map<number, number>();
+  points.forEach((point) => {
+    const bucket = Math.min(maxPoints - 1, Math.floor((Date.parse(point.date) - first) / width));
+    buckets.set(bucket, point.price);
+  });
+  return Array.from(buckets.entries())
+    .sort((x, y) => x[0] - y[0])
+    .map(([bucket, price]) => ({ date: new Date(Math.round(first + (bucket + 1) * width)).toISOString(), price }));
+}
+
+/**
+ * 获取历史价格
+ * 支持窗口（1h / 6h / 1d / 1w / 1m / max）或显式 startTs / endTs，长区间在服务端降采样
  */
-export async function getSparklineData(tokenId: string): Promise<SparklineDataPoint[]> {
+export async function getPriceHistory(tokenId: string, options: PriceHistoryOptions = {}): Promise<SparklineDataPoint[]> {
+  const { startTs, endTs, maxPoints = DEFAULT_MAX_POINTS } = options;
+  const useRange = startTs !== undefined || endTs !== undefined;
+  const interval = options.interval || "max";
+  const fidelity = options.fidelity ?? (useRange ? rangeFidelity(startTs, endTs) : DEFAULT_FIDELITY[interval]);
+
   try {
     const params = new URLSearchParams({
-      interval: "max",
-      fidelity: "1440",
       market: tokenId,
+      fidelity: String(fidelity),
     });
-
-    const response = await fetch(`${CLOB_API_BASE}/prices-history?${params.toString()}` as any);
-
-    if (!response.ok) {
-      // 某些市场可能没有历史数据
-      return [];
+    // CLOB API 中 interval 与 startTs / endTs 互斥
+    if (useRange) {
+      if (startTs !== undefined) params.set("startTs", String(startTs));
+      if (endTs !== undefined) params.set("endTs", String(endTs));
+    } else {
+      params.set("interval", interval);
     }
 
-    const data: any = await response.json();
-    
-    // CLOB API prices-history 返回格式: { "history": [{"t": timestamp, "p": price}, ...] }
-    if (data && data.history && Array.isArray(data.history)) {
-      return data.history.map((item: any) => ({
-        date: new Date(item.t * 1000).toISOString(),
-        price: typeof item.p === "number" ? item.p : parseFloat(item.p) || 0,
-      }));
-    }
+    // 某些市场可能没有历史数据（4xx），由外层 catch 返回空数组
+    const data = await getJson<{ history?: Array<{ t: number; p: number | string }> }>(
+      `${CLOB_API_BASE}/prices-history?${params.toString()}`,
+      { label: "CLOB API", validate: isObject }
+    );
 
-    return [];
+    // CLOB API prices-history 返回格式: { "history": [{"t": timestamp, "p": price}, ...] }
+    if (!Array.isArray(data.history)) return [];
+
+    const collector = new ValidationCollector("clob:/prices-history");
+    const points: SparklineDataPoint[] = [];
+    data.history.forEach((item: any) => {
+      const price = typeof item?.p === "number" ? item.p : Number(item?.p);
+      if (typeof item?.t !== "number" || !Number.isFinite(price)) {
+        collector.add({ entity: "price", id: tokenId, field: "history", message: "malformed history point", severity: "error", value: item });
+        return;
+      }
+      points.push({ date: new Date(item.t * 1000).toISOString(), price });
+    });
+    collector.report();
+    return downsampleHistory(points, maxPoints);
   } catch (error) {
-    console.error(`Error fetching sparkline data for ${tokenId}:`, error);
+    console.error(`Error fetching price history for ${tokenId}:`, error);
     return [];
   }
 }
 
+// 批量拉取历史价格的并发数与缓存时长（窗口越短，数据变化越快）
+const PRICE_HISTORY_CONCURRENCY = 8;
+const PRICE_HISTORY_CACHE_TTL: Record<PriceHistoryInterval, number> = {
+  "1h": 1000 * 60,
+  "6h": 1000 * 60 * 2,
+  "1d": 1000 * 60 * 5,
+  "1w": 1000 * 60 * 10,
+  "1m": 1000 * 60 * 15,
+  max: 1000 * 60 * 30,
+};
+
+/**
+ * 批量获取多个 token 的历史价格（仅支持 interval 窗口）
+ * 先查存储缓存，未命中的以有限并发拉取并写回；拉取失败（空结果）不缓存
+ * 用于统计分析时传 maxPoints: 0 取完整历史，展示时再用 downsampleHistory 降采样
+ */
+export async function getPriceHistories(
+  tokenIds: string[],
+  options: Pick<PriceHistoryOptions, "interval" | "fidelity" | "maxPoints"> = {}
+): Promise<Map<string, SparklineDataPoint[]>> {
+  const interval = options.interval || "max";
+  const fidelity = options.fidelity ?? DEFAULT_FIDELITY[interval];
+  const maxPoints = options.maxPoints ?? DEFAULT_MAX_POINTS;
+  const storage = getStorage();
+  const cacheKey = (tokenId: string) => `${tokenId}:${interval}:${fidelity}:${maxPoints}`;
+
+  const uniqueTokenIds = Array.from(new Set(tokenIds.filter(Boolean)));
+  const histories = new Map<string, SparklineDataPoint[]>();
+  const cached = await Promise.all(
+    uniqueTokenIds.map((tokenId) =>
+      storage.get<SparklineDataPoint[]>("price-history", cacheKey(tokenId)).catch(() => null)
+    )
+  );
+  cached.forEach((entry, i) => {
+    if (entry) histories.set(uniqueTokenIds[i], entry.value);
+  });
+
+  const missing = uniqueTokenIds.filter((tokenId) => !histories.has(tokenId));
+  let next = 0;
+  const worker = async () => {
+    while (next < missing.length) {
+      const tokenId = missing[next++];
+      const history = await getPriceHistory(tokenId, { interval, fidelity, maxPoints });
+      histories.set(tokenId, history);
+      if (history.length > 0) {
+        await storage
+          .set("price-history", cacheKey(tokenId), history, PRICE_HISTORY_CACHE_TTL[interval])
+          .catch((error) => console.error(`Failed to cache price history for ${tokenId}:`, error));
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(PRICE_HISTORY_CONCURRENCY, missing.length) }, worker));
+
+  console.log(`📈 Price histories: ${uniqueTokenIds.length - missing.length} cached, ${missing.length} fetched (interval=${interval})`);
+  return histories;
+}
+
+// 显式时间范围的默认粒度：按跨度选择与 DEFAULT_FIDELITY 相同的档位
+function rangeFidelity(startTs?: number, endTs?: number): number {
+  const end = endTs ?? Math.floor(Date.now() / 1000);
+  const span = end - (startTs ?? 0);
+  if (span <= 3600) return DEFAULT_FIDELITY["1h"];
+  if (span <= 6 * 3600) return DEFAULT_FIDELITY["6h"];
+  if (span <= 86400) return DEFAULT_FIDELITY["1d"];
+  if (span <= 7 * 86400) return DEFAULT_FIDELITY["1w"];
+  if (span <= 31 * 86400) return DEFAULT_FIDELITY["1m"];
+  return DEFAULT_FIDELITY.max;
+}
+
+/**
+ * 获取 Sparkline 图表数据 (历史价格)
+ * 使用 interval=max 和 fidelity=1440 (按天)
+ */
+export function getSparklineData(tokenId: string): Promise<SparklineDataPoint[]> {
+  return getPriceHistory(tokenId, { interval: "max", fidelity: 1440 });
+}
+
 /**
  * 格式化交易量
  * 将数字转换为易读的字符串格式，如 "$2.4M"
@@ -479,156 +638,134 @@ export function formatVolume(volume: number): string {
   return `$${volume.toFixed(0)}`;
 }
 
-/**
- * 解析 clobTokenIds JSON 字符串
- * 提取 "Yes" token ID（通常是数组中的第一个）
- */
-export function parseTokenIds(clobTokenIds: string): string[] {
-  try {
-    const parsed = JSON.parse(clobTokenIds);
-    return Array.isArray(parsed) ? parsed : [];
-  } catch (error) {
-    console.error("Error parsing clobTokenIds:", error);
-    return [];
-  }
-}
-
 /**
  * 对市场进行排序和过滤
  * 1. 过滤未结束的市场（closed === false）
  * 2. 先按volume倒序排序，再按endDate倒序排序
  * 3. 限制为最多50个结果
  */
-export function sortAndFilterMarkets(markets: GammaMarket[], limit: number = 50): GammaMarket[] {
+export function sortAndFilterMarkets(markets: PolymarketMarket[], limit: number = 50): PolymarketMarket[] {
   // 1. 过滤未结束的市场
   const activeMarkets = markets.filter(market => market.closed === false);
   
   // 2. 排序：先按volume倒序，再按endDate倒序
   const sorted = activeMarkets.sort((a, b) => {
     // 先按volume排序（降序）
-    const volA = typeof a.volume === 'number' ? a.volume : parseFloat(String(a.volume)) || 0;
-    const volB = typeof b.volume === 'number' ? b.volume : parseFloat(String(b.volume)) || 0;
-    
-    if (volB !== volA) {
-      return volB - volA;
+    if (b.volume !== a.volume) {
+      return b.volume - a.volume;
     }
     
-    // volume相同则按endDate排序（降序，即日期越晚越靠前）
-    const dateA = new Date(a.endDate).getTime();
-    const dateB = new Date(b.endDate).getTime();
-    return dateB - dateA;
+    // volume相同则按endDate排序（降序，即日期越晚越靠前；无结束日期的排在最后）
+    return (b.endDate?.getTime() ?? 0) - (a.endDate?.getTime() ?? 0);
   });
   
   // 3. 限制数量
   return sorted.slice(0, limit);
 }
 
+export interface ToMarketDataOptions {
+  // 为排名前 N 的市场拉取 Sparkline 历史价格，默认 0（不拉取）
+  sparklines?: number;
+  // 为首个 outcome 附加订单簿摘要，默认开启（一次批量请求）
+  orderBooks?: boolean;
+  // 订单簿深度统计范围（中点 ± N 美分）
+  depthCents?: number;
+}
+
+// 价格（0-1）转换为保留两位小数的百分比
+function toProbability(price: number | undefined): number | null {
+  return price === undefined ? null : Math.round(price * 10000) / 100;
+}
+
 /**
- * Convert GammaMarket array to MarketData with real-time prices
+ * 组装单个 outcome 的报价；price 取 bid / ask 中点，只有一侧时取该侧
  */
-export async function gammaMarketsToMarketData(markets: GammaMarket[]): Promise<MarketData[]> {
+function toOutcomePrice(outcome: string, tokenId: string, quote: TokenQuote | undefined): OutcomePrice {
+  const bid = toProbability(quote?.bid);
+  const ask = toProbability(quote?.ask);
+  const price = bid !== null && ask !== null ? Math.round(((bid + ask) / 2) * 100) / 100 : bid ?? ask;
+  return { outcome, tokenId, bid, ask, price };
+}
+
+/**
+ * 将校验后的市场转换为前端 MarketData（所有接口共用的唯一转换入口）
+ * 每个 outcome 的 token 都会取 bid / ask，probability 为首个 outcome 的价格
+ * 价格缺失的市场 probability 为 0 并标记 priceUnavailable，而不是伪装成 0% 的真实报价
+ */
+export async function toMarketData(
+  markets: Array<PolymarketMarket & { reasoning?: string }>,
+  options: ToMarketDataOptions = {}
+): Promise<MarketData[]> {
   if (markets.length === 0) return [];
-  const tokenIdMap = new Map<string, string>();
-  const allTokenIds: string[] = [];
-  markets.forEach((market) => {
-    const tokenIds = parseTokenIds(market.clobTokenIds);
-    if (tokenIds.length > 0) {
-      tokenIdMap.set(market.id, tokenIds[0]);
-      allTokenIds.push(tokenIds[0]);
-    }
-  });
-  const prices = await getBatchPrices(allTokenIds);
-  return markets.map((market) => {
-    const yesTokenId = tokenIdMap.get(market.id);
-    const price = yesTokenId ? prices[yesTokenId] || 0 : 0;
-    const volumeNum = typeof market.volume === "string" ? parseFloat(market.volume) : (market.volume || 0);
-    let outcomes: string[] = ["Yes", "No"];
-    if (market.outcomes) {
-      try {
-        const parsed = JSON.parse(market.outcomes);
-        if (Array.isArray(parsed)) outcomes = parsed;
-      } catch (_) {}
-    }
-    return {
+  const { sparklines = 0, orderBooks = true, depthCents = DEFAULT_DEPTH_CENTS } = options;
+
+  const sparklineMarkets = markets.slice(0, sparklines);
+  const [quotes, sparklineData, books] = await Promise.all([
+    getBatchQuotes(markets.flatMap((market) => market.tokenIds)),
+    Promise.all(sparklineMarkets.map((market) => getSparklineData(market.tokenIds[0]))),
+    // 订单簿只是补充信息，失败时不影响价格数据
+    orderBooks
+      ? getOrderBooks(markets.map((market) => market.tokenIds[0])).catch(() => ({} as Record<string, OrderBook>))
+      : Promise.resolve({} as Record<string, OrderBook>),
+  ]);
+
+  return markets.map((market, index) => {
+    // outcomes 与 tokenIds 数量不一致时（已作为校验警告上报）按较短者对齐
+    const outcomePrices = market.tokenIds
+      .slice(0, market.outcomes.length)
+      .map((tokenId, i) => toOutcomePrice(market.outcomes[i], tokenId, quotes[tokenId]));
+    const primary = outcomePrices[0];
+
+    const data: MarketData = {
       id: market.id,
       title: market.question,
-      outcome: outcomes[0] || "Yes",
-      probability: Math.round(price * 10000) / 100,
-      volume: formatVolume(volumeNum),
-      chartData: [],
-      image: market.image || undefined,
+      outcome: market.outcomes[0],
+      probability: primary?.price ?? 0,
+      volume: formatVolume(market.volume),
+      volumeUsd: market.volume,
+      endDate: market.endDate ? market.endDate.toISOString() : null,
+      chartData: index < sparklineData.length ? sparklineData[index] : [],
+      image: market.image,
       slug: market.eventSlug || market.slug,
-      outcomes,
+      outcomes: market.outcomes,
+      outcomePrices,
+      clobTokenId: market.tokenIds[0],
       eventId: market.eventId,
       eventTitle: market.eventTitle,
+      reasoning: market.reasoning,
     };
+    const book = books[market.tokenIds[0]];
+    if (book) {
+      data.orderBook = summarizeOrderBook(book, depthCents);
+    }
+    if (!primary || primary.price === null) {
+      data.priceUnavailable = true;
+    }
+    return data;
   });
 }
 
+export interface PolyMacroDataOptions {
+  filters?: SearchFilters;
+  sort?: SearchSort;
+  // 分类 / 标签过滤所需的服务端上下文
+  scope?: FilterScope;
+}
+
 /**
  * 主编排函数
- * 整合所有 API 调用，转换为前端可用的 MarketData 格式
+ * 搜索市场并转换为前端可用的 MarketData 格式（前 3 个市场附带 Sparkline），可选按过滤条件筛选与排序
  */
-export async function getPolyMacroData(query: string): Promise<MarketData[]> {
+export async function getPolyMacroData(query: string, options: PolyMacroDataOptions = {}): Promise<MarketData[]> {
+  const { filters = {}, sort, scope } = options;
   try {
-    // Step A: 搜索市场
-    const markets = await searchMarkets(query);
-
-    if (markets.length === 0) {
-      return [];
-    }
-
-    // Step B: 解析 clobTokenIds，提取所有 token IDs
-    const tokenIdMap = new Map<string, string>(); // marketId -> yesTokenId
-    const allTokenIds: string[] = [];
-
-    markets.forEach((market) => {
-      const tokenIds = parseTokenIds(market.clobTokenIds);
-      if (tokenIds.length > 0) {
-        const yesTokenId = tokenIds[0]; // 假设第一个是 "Yes" token
-        tokenIdMap.set(market.id, yesTokenId);
-        allTokenIds.push(yesTokenId);
-      }
-    });
-
-    // Step C: 批量获取所有 token 的价格
-    const prices = await getBatchPrices(allTokenIds);
-
-    // Step D: 为前 3 个市场获取 Sparkline 数据（可选/并行）
-    const topMarkets = markets.slice(0, 3);
-    const sparklinePromises = topMarkets.map((market) => {
-      const tokenId = tokenIdMap.get(market.id);
-      return tokenId ? getSparklineData(tokenId) : Promise.resolve([]);
-    });
-
-    const sparklineDataArray = await Promise.all(sparklinePromises);
-
-    // Step E: 转换为 MarketData 格式
-    const marketDataList: MarketData[] = markets.map((market, index) => {
-      const yesTokenId = tokenIdMap.get(market.id);
-      const price = yesTokenId ? prices[yesTokenId] : 0;
-      const probability = price * 100; // 转换为百分比
-
-      // 仅前 3 个市场有图表数据
-      const chartData: SparklineDataPoint[] =
-        index < 3 ? sparklineDataArray[index] : [];
-
-      return {
-        id: market.id,
-        title: market.question,
-        outcome: "Yes",
-        probability: Math.round(probability * 100) / 100, // 保留两位小数
-        volume: formatVolume(market.volume),
-        chartData,
-        image: market.image || undefined,
-        slug: market.slug, // 添加slug用于跳转链接
-      };
-    });
-
-    return marketDataList;
+    const markets = (await searchMarkets(query, { status: filters.status })).filter((market) =>
+      matchesMarketFilters(market, filters, scope)
+    );
+    const data = (await toMarketData(markets, { sparklines: 3 })).filter((market) => matchesProbability(market, filters));
+    return sortMarketData(data, sort);
   } catch (error) {
     console.error("Error in getPolyMacroData:", error);
     throw error;
   }
 }
-
@@ -0,0 +1,562 @@
+/**
+ * Query Filters
+ * 搜索框查询语法与结构化过滤条件：结束时间、交易量、概率区间、分类、标签、事件、市场状态与排序
+ * 纯函数，前端搜索框与服务端各搜索阶段共用同一套解析与匹配规则
+ *
+ * 语法示例：bitcoin ends:<march volume:>1m category:crypto prob:20..80 sort:volume
+ * - ends: / before: / after:  日期（2026-03-15、2026-03、march、mar-2026、30d、2w），支持 < > .. 范围；
+ *                             单独的相对时间（ends:30d）表示从现在起 N 天内结束
+ * - volume: / vol:            交易量，支持 k / m / b 后缀；> / < 为严格比较，>= / <= 与 a..b 包含边界
+ * - prob: / probability:      首个 outcome 的概率（0-100），比较规则同 volume
+ * - category: / cat:、tag:、event:  多个值以逗号分隔，含空格时加引号
+ * - status: / is:             active | closed | all
+ * - sort:                     relevance | volume | endDate | probability，可追加 :asc / :desc
+ */
+
+import type { MarketData, PolymarketMarket, QueryInterpretation } from "@/types/polymarket";
+
+export type MarketStatus = "active" | "closed" | "all";
+export type SortField = "relevance" | "volume" | "endDate" | "probability";
+export type BoundKey = "minVolume" | "maxVolume" | "minProbability" | "maxProbability";
+
+export interface SearchFilters {
+  endAfter?: Date;
+  endBefore?: Date;
+  minVolume?: number;
+  maxVolume?: number;
+  minProbability?: number; // 0-100
+  maxProbability?: number;
+  exclusive?: BoundKey[]; // 严格比较（> / <）的数值边界，不在其中的边界包含端点
+  category?: string[];
+  tag?: string[]; // 标签名、slug 或 ID
+  event?: string; // 事件 slug 或 ID
+  status?: MarketStatus;
+}
+
+export interface SearchSort {
+  field: SortField;
+  direction: "asc" | "desc";
+}
+
+export interface StructuredQuery {
+  text: string; // 去掉过滤语法后的自由文本
+  filters: SearchFilters;
+  sort?: SearchSort;
+}
+
+/**
+ * 服务端预先解析的过滤上下文：事件分类与标签下的事件集合
+ */
+export interface FilterScope {
+  categoryOf?: (eventId: string) => string | undefined;
+  tagEventIds?: Set<string>;
+}
+
+const MONTHS = [
+  "january", "february", "march", "april", "may", "june",
+  "july", "august", "september", "october", "november", "december",
+];
+const DAY_MS = 1000 * 60 * 60 * 24;
+const BOUND_KEYS: BoundKey[] = ["minVolume", "maxVolume", "minProbability", "maxProbability"];
+const RELATIVE_DATE = /^(\d+)([dw])$/;
+
+// key:value 或 key:"带空格的值"
+const FILTER_TOKEN = /(\w+):("[^"]*"|\S+)/g;
+
+const SORT_ALIASES: Record<string, SortField> = {
+  relevance: "relevance",
+  volume: "volume",
+  vol: "volume",
+  enddate: "endDate",
+  end: "endDate",
+  ending: "endDate",
+  probability: "probability",
+  prob: "probability",
+};
+
+// 各排序字段的默认方向：即将结束的在前，交易量 / 概率高的在前
+const DEFAULT_SORT_DIRECTION: Record<SortField, "asc" | "desc"> = {
+  relevance: "desc",
+  volume: "desc",
+  endDate: "asc",
+  probability: "desc",
+};
+
+function unquote(value: string): string {
+  return value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value;
+}
+
+function splitList(value: string): string[] {
+  return value.split(",").map((v) => v.trim()).filter(Boolean);
+}
+
+/**
+ * 解析金额：1.5m、500k、$2b、1200
+ */
+export function parseAmount(value: string): number | null {
+  const match = value.trim().toLowerCase().replace(/[$,]/g, "").match(/^(\d+(?:\.\d+)?)([kmb])?$/);
+  if (!match) return null;
+  const multiplier = { k: 1e3, m: 1e6, b: 1e9 }[match[2] as "k" | "m" | "b"] ?? 1;
+  return parseFloat(match[1]) * multiplier;
+}
+
+// 概率：70、70%、0.7（小于 1 的小数视为比例）
+function parseProbability(value: string): number | null {
+  const match = value.trim().replace(/%$/, "").match(/^\d+(?:\.\d+)?$/);
+  if (!match) return null;
+  const num = parseFloat(match[0]);
+  const percent = num < 1 && value.includes(".") ? num * 100 : num;
+  return percent >= 0 && percent <= 100 ? percent : null;
+}
+
+/**
+ * 解析日期为 [start, end) 区间，粒度为天或月；相对时间（30d / 2w）为当前时刻
+ */
+export function parseDateRange(value: string, now: Date = new Date()): { start: Date; end: Date } | null {
+  const v = value.trim().toLowerCase();
+
+  const relative = v.match(RELATIVE_DATE);
+  if (relative) {
+    const days = parseInt(relative[1], 10) * (relative[2] === "w" ? 7 : 1);
+    const at = new Date(now.getTime() + days * DAY_MS);
+    return { start: at, end: at };
+  }
+
+  const day = v.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (day) {
+    const start = new Date(Date.UTC(+day[1], +day[2] - 1, +day[3]));
+    if (isNaN(start.getTime())) return null;
+    return { start, end: new Date(start.getTime() + DAY_MS) };
+  }
+
+  const month = v.match(/^(\d{4})-(\d{2})$/);
+  if (month) {
+    return monthRange(+month[1], +month[2] - 1);
+  }
+
+  // 月份名或至少三个字母的缩写（可带年份）：march、mar-2026、march2026；不带年份时取下一个（含当月）该月份
+  const named = v.match(/^([a-z]+)-?(\d{4})?$/);
+  if (named) {
+    const monthIndex = named[1].length >= 3 ? MONTHS.findIndex((m) => m.startsWith(named[1])) : -1;
+    if (monthIndex === -1) return null;
+    let year = named[2] ? parseInt(named[2], 10) : now.getUTCFullYear();
+    if (!named[2] && monthIndex < now.getUTCMonth()) year++;
+    return monthRange(year, monthIndex);
+  }
+
+  return null;
+}
+
+function monthRange(year: number, monthIndex: number): { start: Date; end: Date } | null {
+  if (monthIndex < 0 || monthIndex > 11) return null;
+  return {
+    start: new Date(Date.UTC(year, monthIndex, 1)),
+    end: new Date(Date.UTC(year, monthIndex + 1, 1)),
+  };
+}
+
+/**
+ * 解析比较表达式：>x、>=x、<x、<=x、a..b、x（等价于 a..a）
+ */
+function parseComparison<T>(
+  value: string,
+  parse: (raw: string) => T | null
+): { min?: T; max?: T; minInclusive: boolean; maxInclusive: boolean } | null {
+  const range = value.split("..");
+  if (range.length === 2) {
+    const min = range[0] ? parse(range[0]) : undefined;
+    const max = range[1] ? parse(range[1]) : undefined;
+    if (min === null || max === null) return null;
+    return { min, max, minInclusive: true, maxInclusive: true };
+  }
+  const op = value.match(/^(>=|<=|>|<)?(.+)$/);
+  if (!op) return null;
+  const parsed = parse(op[2]);
+  if (parsed === null) return null;
+  switch (op[1]) {
+    case ">":
+      return { min: parsed, minInclusive: false, maxInclusive: true };
+    case ">=":
+      return { min: parsed, minInclusive: true, maxInclusive: true };
+    case "<":
+      return { max: parsed, minInclusive: true, maxInclusive: false };
+    case "<=":
+      return { max: parsed, minInclusive: true, maxInclusive: true };
+    default:
+      return { min: parsed, max: parsed, minInclusive: true, maxInclusive: true };
+  }
+}
+
+// 日期比较转换为 endAfter / endBefore：严格大于取区间结束，包含取区间开始
+function applyDateFilter(filters: SearchFilters, value: string, now: Date): boolean {
+  // 单独的相对时间（30d）表示 N 天内结束，而不是恰好在 N 天后那一刻结束
+  if (RELATIVE_DATE.test(value.trim().toLowerCase())) {
+    filters.endAfter = now;
+    filters.endBefore = parseDateRange(value, now)!.start;
+    return true;
+  }
+  const cmp = parseComparison(value, (raw) => parseDateRange(raw, now));
+  if (!cmp) return false;
+  if (cmp.min) filters.endAfter = cmp.minInclusive ? cmp.min.start : cmp.min.end;
+  if (cmp.max) filters.endBefore = cmp.maxInclusive ? cmp.max.end : cmp.max.start;
+  return true;
+}
+
+// 数值比较写入 min / max 边界，并记录严格比较的一侧
+function applyNumericFilter(
+  filters: SearchFilters,
+  value: string,
+  parse: (raw: string) => number | null,
+  minKey: BoundKey,
+  maxKey: BoundKey
+): boolean {
+  const cmp = parseComparison(value, parse);
+  if (!cmp) return false;
+  const exclusive = (filters.exclusive || []).filter((key) => key !== minKey && key !== maxKey);
+  if (cmp.min !== undefined) {
+    filters[minKey] = cmp.min;
+    if (!cmp.minInclusive) exclusive.push(minKey);
+  }
+  if (cmp.max !== undefined) {
+    filters[maxKey] = cmp.max;
+    if (!cmp.maxInclusive) exclusive.push(maxKey);
+  }
+  if (exclusive.length > 0) filters.exclusive = exclusive;
+  else delete filters.exclusive;
+  return true;
+}
+
+// value 是否满足 filters 中的 min / max 边界（按 exclusive 决定是否包含端点）
+function withinBounds(value: number, filters: SearchFilters, minKey: BoundKey, maxKey: BoundKey): boolean {
+  const min = filters[minKey];
+  const max = filters[maxKey];
+  const exclusive = filters.exclusive || [];
+  if (min !== undefined && (exclusive.includes(minKey) ? value <= min : value < min)) return false;
+  if (max !== undefined && (exclusive.includes(maxKey) ? value >= max : value > max)) return false;
+  return true;
+}
+
+function parseSort(value: string): SearchSort | null {
+  const [rawField, rawDirection] = value.toLowerCase().split(":");
+  const field = SORT_ALIASES[rawField];
+  if (!field) return null;
+  const direction = rawDirection === "asc" || rawDirection === "desc" ? rawDirection : DEFAULT_SORT_DIRECTION[field];
+  return { field, direction };
+}
+
+function parseStatus(value: string): MarketStatus | null {
+  const v = value.toLowerCase();
+  if (v === "open") return "active";
+  return v === "active" || v === "closed" || v === "all" ? v : null;
+}
+
+/**
+ * 解析搜索框输入；无法识别的 key:value 原样保留在自由文本中
+ */
+export function parseSearchQuery(input: string, now: Date = new Date()): StructuredQuery {
+  const filters: SearchFilters = {};
+  let sort: SearchSort | undefined;
+
+  const text = input.replace(FILTER_TOKEN, (token, rawKey: string, rawValue: string) => {
+    const key = rawKey.toLowerCase();
+    const value = unquote(rawValue);
+    let handled = false;
+
+    switch (key) {
+      case "ends":
+      case "end":
+        handled = applyDateFilter(filters, value, now);
+        break;
+      case "before":
+        handled = applyDateFilter(filters, `<${value}`, now);
+        break;
+      case "after":
+        handled = applyDateFilter(filters, `>${value}`, now);
+        break;
+      case "volume":
+      case "vol":
+        handled = applyNumericFilter(filters, value, parseAmount, "minVolume", "maxVolume");
+        break;
+      case "prob":
+      case "probability":
+        handled = applyNumericFilter(filters, value, parseProbability, "minProbability", "maxProbability");
+        break;
+      case "category":
+      case "cat":
+        filters.category = [...(filters.category || []), ...splitList(value)];
+        handled = true;
+        break;
+      case "tag":
+        filters.tag = [...(filters.tag || []), ...splitList(value)];
+        handled = true;
+        break;
+      case "event":
+        filters.event = value;
+        handled = true;
+        break;
+      case "status":
+      case "is": {
+        const status = parseStatus(value);
+        if (status) {
+          filters.status = status;
+          handled = true;
+        }
+        break;
+      }
+      case "sort": {
+        const parsed = parseSort(value);
+        if (parsed) {
+          sort = parsed;
+          handled = true;
+        }
+        break;
+      }
+    }
+    return handled ? " " : token;
+  });
+
+  return { text: text.replace(/\s+/g, " ").trim(), filters, sort };
+}
+
+function toDate(value: unknown): Date | undefined {
+  if (value instanceof Date) return isNaN(value.getTime()) ? undefined : value;
+  if (typeof value === "string" || typeof value === "number") {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+  return undefined;
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string") return parseAmount(value) ?? undefined;
+  return undefined;
+}
+
+function toList(value: unknown): string[] | undefined {
+  if (typeof value === "string") return splitList(value);
+  if (Array.isArray(value)) return value.filter((v): v is string => typeof v === "string" && v.trim() !== "");
+  return undefined;
+}
+
+/**
+ * 解析请求体中的结构化过滤对象（字段同 SearchFilters，日期可为 ISO 字符串或毫秒时间戳），非法字段忽略
+ */
+export function parseFilterObject(value: unknown): { filters: SearchFilters; sort?: SearchSort } {
+  const filters: SearchFilters = {};
+  if (!value || typeof value !== "object") return { filters };
+  const raw = value as Record<string, unknown>;
+
+  filters.endAfter = toDate(raw.endAfter);
+  filters.endBefore = toDate(raw.endBefore);
+  filters.minVolume = toNumber(raw.minVolume);
+  filters.maxVolume = toNumber(raw.maxVolume);
+  filters.minProbability = toNumber(raw.minProbability);
+  filters.maxProbability = toNumber(raw.maxProbability);
+  const exclusive = toList(raw.exclusive)?.filter((key): key is BoundKey => (BOUND_KEYS as string[]).includes(key));
+  filters.exclusive = exclusive?.length ? exclusive : undefined;
+  filters.category = toList(raw.category);
+  filters.tag = toList(raw.tag);
+  filters.event = typeof raw.event === "string" && raw.event.trim() ? raw.event.trim() : undefined;
+  filters.status = typeof raw.status === "string" ? parseStatus(raw.status) ?? undefined : undefined;
+
+  let sort: SearchSort | undefined;
+  if (typeof raw.sort === "string") {
+    sort = parseSort(raw.sort) ?? undefined;
+  } else if (raw.sort && typeof raw.sort === "object") {
+    const { field, direction } = raw.sort as Record<string, unknown>;
+    if (typeof field === "string") {
+      sort = parseSort(typeof direction === "string" ? `${field}:${direction}` : field) ?? undefined;
+    }
+  }
+
+  (Object.keys(filters) as Array<keyof SearchFilters>).forEach((key) => {
+    if (filters[key] === undefined) delete filters[key];
+  });
+  return { filters, sort };
+}
+
+/**
+ * 合并查询语法与结构化过滤（结构化对象优先）
+ */
+export function mergeFilters(base: SearchFilters, override: SearchFilters): SearchFilters {
+  const merged = { ...base, ...override };
+  // 被覆盖的边界不再沿用 base 的严格比较标记
+  const exclusive = [
+    ...(base.exclusive || []).filter((key) => override[key] === undefined),
+    ...(override.exclusive || []),
+  ];
+  if (exclusive.length > 0) merged.exclusive = Array.from(new Set(exclusive));
+  else delete merged.exclusive;
+  return merged;
+}
+
+export function hasFilters(filters: SearchFilters): boolean {
+  return Object.keys(filters).some((key) => key !== "exclusive");
+}
+
+/**
+ * 市场级过滤（概率需要报价，见 matchesProbability）
+ */
+export function matchesMarketFilters(market: PolymarketMarket, filters: SearchFilters, scope: FilterScope = {}): boolean {
+  const status = filters.status ?? "active";
+  if (status === "active" && (!market.active || market.closed)) return false;
+  if (status === "closed" && !market.closed) return false;
+
+  if (!withinBounds(market.volume, filters, "minVolume", "maxVolume")) return false;
+
+  if (filters.endAfter || filters.endBefore) {
+    const end = market.endDate?.getTime();
+    if (end === undefined) return false;
+    if (filters.endAfter && end < filters.endAfter.getTime()) return false;
+    if (filters.endBefore && end >= filters.endBefore.getTime()) return false;
+  }
+
+  if (filters.event) {
+    const event = filters.event.toLowerCase();
+    if (market.eventId !== filters.event && market.eventSlug?.toLowerCase() !== event) return false;
+  }
+
+  if (filters.category?.length) {
+    const category = market.eventId ? scope.categoryOf?.(market.eventId) : undefined;
+    const wanted = filters.category.map((c) => c.toLowerCase());
+    if (!category || !wanted.includes(category.toLowerCase())) return false;
+  }
+
+  if (filters.tag?.length && scope.tagEventIds) {
+    if (!market.eventId || !scope.tagEventIds.has(market.eventId)) return false;
+  }
+
+  return true;
+}
+
+/**
+ * 概率区间过滤（报价缺失的市场在设置概率条件时排除）
+ */
+export function matchesProbability(market: MarketData, filters: SearchFilters): boolean {
+  if (filters.minProbability === undefined && filters.maxProbability === undefined) return true;
+  if (market.priceUnavailable) return false;
+  return withinBounds(market.probability, filters, "minProbability", "maxProbability");
+}
+
+/**
+ * 按排序条件重排（relevance 保持原顺序；缺少字段的排在最后）
+ */
+export function sortMarketData(markets: MarketData[], sort?: SearchSort): MarketData[] {
+  if (!sort || sort.field === "relevance") return markets;
+  const sign = sort.direction === "asc" ? 1 : -1;
+  const valueOf = (m: MarketData): number | null => {
+    switch (sort.field) {
+      case "volume":
+        return m.volumeUsd ?? null;
+      case "endDate":
+        return m.endDate ? new Date(m.endDate).getTime() : null;
+      case "probability":
+        return m.priceUnavailable ? null : m.probability;
+      default:
+        return null;
+    }
+  };
+  return [...markets].sort((a, b) => {
+    const va = valueOf(a);
+    const vb = valueOf(b);
+    if (va === null || vb === null) return va === null ? (vb === null ? 0 : 1) : -1;
+    return (va - vb) * sign;
+  });
+}
+
+/**
+ * 过滤条件的简短描述（搜索框下方的提示标签）
+ */
+export function describeFilters(filters: SearchFilters, sort?: SearchSort): string[] {
+  const labels: string[] = [];
+  const day = (date: Date) => date.toISOString().slice(0, 10);
+  const usd = (value: number) =>
+    value >= 1e9 ? `$${+(value / 1e9).toFixed(2)}B` : value >= 1e6 ? `$${+(value / 1e6).toFixed(2)}M` : value >= 1e3 ? `$${+(value / 1e3).toFixed(1)}K` : `$${value}`;
+
+  const op = (key: BoundKey, inclusive: string, strict: string) => (filters.exclusive?.includes(key) ? strict : inclusive);
+
+  if (filters.endAfter) labels.push(`Ends after ${day(filters.endAfter)}`);
+  if (filters.endBefore) labels.push(`Ends before ${day(filters.endBefore)}`);
+  if (filters.minVolume !== undefined) labels.push(`Volume ${op("minVolume", "≥", ">")} ${usd(filters.minVolume)}`);
+  if (filters.maxVolume !== undefined) labels.push(`Volume ${op("maxVolume", "≤", "<")} ${usd(filters.maxVolume)}`);
+  if (filters.minProbability !== undefined) labels.push(`Prob ${op("minProbability", "≥", ">")} ${filters.minProbability}%`);
+  if (filters.maxProbability !== undefined) labels.push(`Prob ${op("maxProbability", "≤", "<")} ${filters.maxProbability}%`);
+  if (filters.category?.length) labels.push(`Category: ${filters.category.join(", ")}`);
+  if (filters.tag?.length) labels.push(`Tag: ${filters.tag.join(", ")}`);
+  if (filters.event) labels.push(`Event: ${filters.event}`);
+  if (filters.status && filters.status !== "active") labels.push(`Status: ${filters.status}`);
+  if (sort && sort.field !== "relevance") labels.push(`Sort: ${sort.field} ${sort.direction}`);
+  return labels;
+}
+
+function quoteValue(value: string): string {
+  return /\s/.test(value) ? `"${value}"` : value;
+}
+
+/**
+ * 将结构化查询还原为查询语法（用于在搜索框中编辑解读结果）
+ */
+export function formatSearchQuery(query: StructuredQuery): string {
+  const { text, filters, sort } = query;
+  const day = (date: Date) => date.toISOString().slice(0, 10);
+  const parts: string[] = text ? [text] : [];
+
+  if (filters.endAfter) parts.push(`ends:>=${day(filters.endAfter)}`);
+  if (filters.endBefore) parts.push(`ends:<${day(filters.endBefore)}`);
+  const op = (key: BoundKey, inclusive: string, strict: string) => (filters.exclusive?.includes(key) ? strict : inclusive);
+  if (filters.minVolume !== undefined) parts.push(`volume:${op("minVolume", ">=", ">")}${filters.minVolume}`);
+  if (filters.maxVolume !== undefined) parts.push(`volume:${op("maxVolume", "<=", "<")}${filters.maxVolume}`);
+  if (filters.minProbability !== undefined) parts.push(`prob:${op("minProbability", ">=", ">")}${filters.minProbability}`);
+  if (filters.maxProbability !== undefined) parts.push(`prob:${op("maxProbability", "<=", "<")}${filters.maxProbability}`);
+  if (filters.category?.length) parts.push(`category:${quoteValue(filters.category.join(","))}`);
+  if (filters.tag?.length) parts.push(`tag:${quoteValue(filters.tag.join(","))}`);
+  if (filters.event) parts.push(`event:${quoteValue(filters.event)}`);
+  if (filters.status && filters.status !== "active") parts.push(`status:${filters.status}`);
+  if (sort && sort.field !== "relevance") parts.push(`sort:${sort.field}:${sort.direction}`);
+  return parts.join(" ");
+}
+
+/**
+ * 转换为响应中的 QueryInterpretation（日期序列化为 ISO 字符串）
+ */
+export function toQueryInterpretation(
+  originalQuery: string,
+  query: StructuredQuery,
+  extra: Pick<QueryInterpretation, "explanation" | "source" | "language" | "translatedQuery">
+): QueryInterpretation {
+  const { endAfter, endBefore, ...rest } = query.filters;
+  return {
+    originalQuery,
+    semanticQuery: query.text,
+    filters: {
+      ...rest,
+      ...(endAfter ? { endAfter: endAfter.toISOString() } : {}),
+      ...(endBefore ? { endBefore: endBefore.toISOString() } : {}),
+    },
+    sort: query.sort,
+    explanation: extra.explanation,
+    source: extra.source,
+    ...(extra.language ? { language: extra.language } : {}),
+    ...(extra.translatedQuery ? { translatedQuery: extra.translatedQuery } : {}),
+  };
+}
+
+/**
+ * 从 QueryInterpretation 还原结构化查询（用于在搜索框中编辑解读结果）
+ */
+export function fromQueryInterpretation(interpretation: QueryInterpretation): StructuredQuery {
+  const { filters, sort } = parseFilterObject({ ...interpretation.filters, sort: interpretation.sort });
+  return { text: interpretation.semanticQuery, filters, sort };
+}
+
+// 可能包含约束的自然语言线索：数字、百分比、月份、比较词、时间词（中英文）
+const CONSTRAINT_HINT =
+  /\d|%|\b(before|after|until|between|above|below|over|under|more than|less than|at least|at most|ending|ends?|expir\w*|volume|liquid\w*|closed|resolved|cheap|likely|unlikely|odds|jan|january|feb|february|mar|march|apr|april|may|jun|june|jul|july|aug|august|sept?|september|oct|october|nov|november|dec|december|week|month|year|today|tomorrow)\b|之前|之后|以前|以后|以上|以下|超过|低于|高于|大于|小于|截止|到期|结束|交易量|成交量|概率|月|年|周/i;
+
+/**
+ * 粗略判断自由文本中是否可能含有约束，避免每次搜索都调用 LLM 解析
+ */
+export function mayContainConstraints(text: string): boolean {
+  return CONSTRAINT_HINT.test(text);
+}
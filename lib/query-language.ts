@@ -0,0 +1,70 @@
+/**
+ * Query Language
+ * 查询语言检测与离线英文转换：Polymarket 标题均为英文，中文查询需先转成英文再检索
+ */
+
+import type { QueryLanguage } from "@/types/polymarket";
+import { CJK_RUN } from "./text-tokenizer";
+import { DEFAULT_KEYWORD_MAPPINGS, type KeywordMapping } from "./search-config";
+
+export const LANGUAGE_NAMES: Record<QueryLanguage, string> = {
+  en: "English",
+  zh: "Simplified Chinese",
+  ja: "Japanese",
+  ko: "Korean",
+};
+
+const KANA = /[\u3040-\u30ff]/;
+const HANGUL = /[\uac00-\ud7af]/;
+const LATIN_LETTER = /[a-z]/gi;
+const HAS_CJK = new RegExp(CJK_RUN.source);
+
+/**
+ * 检测查询语言：中日韩字符占主导时视为对应语言，夹杂少量中文的英文查询仍按英文处理
+ * 一个汉字约等于一个英文单词的信息量，因此按 1 字 ≈ 4 个字母比较
+ */
+export function detectQueryLanguage(text: string): QueryLanguage {
+  const cjk = Array.from((text.match(CJK_RUN) || []).join(""));
+  if (cjk.length === 0) return "en";
+  const latin = (text.match(LATIN_LETTER) || []).length;
+  if (cjk.length * 4 < latin) return "en";
+  if (cjk.some((char) => KANA.test(char))) return "ja";
+  if (cjk.some((char) => HANGUL.test(char))) return "ko";
+  return "zh";
+}
+
+// 关键词映射中的中文词 → 同组第一个英文关键词，按长度降序以优先替换长词
+// 单字词（如 "金"）出现在太多无关词语中，不参与替换
+function buildGlossary(mappings: KeywordMapping[]): Array<[string, string]> {
+  const glossary: Array<[string, string]> = [];
+  for (const mapping of mappings) {
+    const english = mapping.keywords.find((keyword) => !HAS_CJK.test(keyword));
+    if (!english) continue;
+    [...mapping.keywords, ...mapping.synonyms]
+      .filter((word) => HAS_CJK.test(word) && Array.from(word).length > 1)
+      .forEach((word) => glossary.push([word, english]));
+  }
+  return glossary.sort((a, b) => b[0].length - a[0].length);
+}
+
+/**
+ * 无 LLM 时的离线转换：用关键词映射（传入存储中的实时映射）替换已知中文词，丢弃无法识别的中文片段
+ * 没有任何词被替换时返回 null（调用方保留原查询）
+ */
+export function translateQueryOffline(
+  query: string,
+  mappings: KeywordMapping[] = DEFAULT_KEYWORD_MAPPINGS
+): string | null {
+  let text = query;
+  let replaced = false;
+  for (const [source, english] of buildGlossary(mappings)) {
+    if (text.includes(source)) {
+      text = text.split(source).join(` ${english} `);
+      replaced = true;
+    }
+  }
+  if (!replaced) return null;
+  const words = text.replace(CJK_RUN, " ").split(/\s+/).filter(Boolean);
+  const unique = words.filter((word, i) => words.findIndex((w) => w.toLowerCase() === word.toLowerCase()) === i);
+  return unique.length > 0 ? unique.join(" ") : null;
+}
@@ -0,0 +1,78 @@
+/**
+ * Rank Fusion
+ * 倒数排名融合（Reciprocal Rank Fusion）：score = Σ weight / (k + rank)，并记录每个结果来自哪些来源、排第几
+ */
+
+export interface RankedList<T> {
+  source: string; // 来源类别，决定权重，如 "tag"
+  label?: string; // 具体列表，如标签名或语义维度
+  items: T[]; // 已按相关度排序
+}
+
+export interface FusionProvenance {
+  source: string;
+  label?: string;
+  rank: number; // 1 起
+  contribution: number;
+}
+
+export interface FusedResult<T> {
+  item: T;
+  score: number;
+  provenance: FusionProvenance[];
+}
+
+export interface FusionOptions {
+  // 平滑常数，越大越削弱头部排名的优势（经验值 60）
+  k?: number;
+  // 来源 → 权重，未配置的来源权重为 1
+  weights?: Record<string, number>;
+  limit?: number;
+}
+
+export const DEFAULT_RRF_K = 60;
+
+/**
+ * 融合多个排序列表
+ * 同一列表内重复出现的条目只计最靠前的一次；条目对象取首次出现的版本，可由 merge 合并后续版本的字段
+ */
+export function reciprocalRankFusion<T>(
+  lists: RankedList<T>[],
+  getId: (item: T) => string,
+  options: FusionOptions = {},
+  merge?: (existing: T, incoming: T) => T
+): FusedResult<T>[] {
+  const { k = DEFAULT_RRF_K, weights = {}, limit } = options;
+  const results = new Map<string, FusedResult<T>>();
+
+  for (const list of lists) {
+    const weight = weights[list.source] ?? 1;
+    if (weight <= 0) continue;
+
+    const seenInList = new Set<string>();
+    list.items.forEach((item, index) => {
+      const id = getId(item);
+      if (seenInList.has(id)) return;
+      seenInList.add(id);
+
+      const rank = index + 1;
+      const contribution = weight / (k + rank);
+      const existing = results.get(id);
+      if (existing) {
+        existing.score += contribution;
+        existing.provenance.push({ source: list.source, label: list.label, rank, contribution });
+        if (merge) existing.item = merge(existing.item, item);
+      } else {
+        results.set(id, {
+          item,
+          score: contribution,
+          provenance: [{ source: list.source, label: list.label, rank, contribution }],
+        });
+      }
+    });
+  }
+
+  const fused = Array.from(results.values()).sort((a, b) => b.score - a.score);
+  fused.forEach((result) => result.provenance.sort((a, b) => b.contribution - a.contribution));
+  return limit !== undefined ? fused.slice(0, limit) : fused;
+}
@@ -1,9 +1,10 @@
 /**
  * 搜索配置：关键词到标签/同义词的映射
- * 用于处理弱语义相关的市场搜索
+ * 用于处理弱语义相关的市场搜索；运行时以存储中的映射为准（见 keyword-mappings.ts），此处为默认值
  */
 
 export interface KeywordMapping {
+  id?: string;             // 存储中的映射 ID
   keywords: string[];      // 用户输入的常见词
   synonyms: string[];      // 同义词/近义词
   tagId?: string;          // Polymarket标签ID（如果API支持）
@@ -11,10 +12,10 @@ export interface KeywordMapping {
 }
 
 /**
- * 关键词映射配置表
- * 用于将用户查询映射到相关的标签和同义词
+ * 默认关键词映射配置表
+ * 存储中尚无映射时使用，管理页面首次保存时以此为基础
  */
-export const KEYWORD_MAPPINGS: KeywordMapping[] = [
+export const DEFAULT_KEYWORD_MAPPINGS: KeywordMapping[] = [
   {
     keywords: ['黄金', '金', '金价', 'gold', 'gold price'],
     synonyms: ['贵金属', '金属', '大宗商品', 'commodity', 'metal', 'XAU', 'precious metal'],
@@ -70,10 +71,14 @@ export const KEYWORD_MAPPINGS: KeywordMapping[] = [
 /**
  * 根据用户查询找到匹配的关键词映射
  */
-export function findKeywordMapping(query: string): KeywordMapping | null {
+export function findKeywordMapping<T extends KeywordMapping>(
+  query: string,
+  mappings: T[] = DEFAULT_KEYWORD_MAPPINGS as T[]
+): T | null {
   const normalizedQuery = query.toLowerCase().trim();
+  if (!normalizedQuery) return null;
   
-  for (const mapping of KEYWORD_MAPPINGS) {
+  for (const mapping of mappings) {
     // 检查keywords中是否有匹配
     const matched = mapping.keywords.some(keyword => 
       normalizedQuery.includes(keyword.toLowerCase()) || 
@@ -91,8 +96,8 @@ export function findKeywordMapping(query: string): KeywordMapping | null {
 /**
  * 获取所有同义词（用于扩展搜索）
  */
-export function getSynonymsForQuery(query: string): string[] {
-  const mapping = findKeywordMapping(query);
+export function getSynonymsForQuery(query: string, mappings?: KeywordMapping[]): string[] {
+  const mapping = findKeywordMapping(query, mappings);
   if (mapping) {
     return mapping.synonyms;
   }
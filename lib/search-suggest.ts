@@ -0,0 +1,229 @@
+/**
+ * Search Suggestions
+ * 搜索框自动补全：活跃事件标题、标签名与近期热门查询的前缀索引（进程内，按缓存变化重建）
+ */
+
+import { createHash } from "crypto";
+import type { SearchSuggestion } from "@/types/polymarket";
+import { getStorage } from "./storage";
+import { getCachedEvents } from "./event-cache";
+import { getCachedTags } from "./tag-cache";
+import { filterDeadTags } from "./dead-tags";
+import { searchEventsLexical } from "./lexical-search";
+
+interface IndexedEntry {
+  suggestion: SearchSuggestion;
+  normalized: string;
+  words: string[];
+  weight: number; // 排序权重：事件为交易量，标签为 1，查询为衰减后的搜索次数
+}
+
+interface SearchQueryRecord {
+  query: string;
+  count: number;
+  lastSeen: number;
+  days?: string[]; // 出现过的日期（UTC，YYYY-MM-DD），最多保留 MAX_QUERY_DAYS 个
+}
+
+const WORD = /[\p{L}\p{N}]+/gu;
+// 单次前缀查找最多检查的索引键数（如 "a" 这样的短前缀）
+const MAX_PREFIX_KEYS = 2000;
+// 热门查询只保留近 14 天，权重按 7 天半衰期衰减
+const SEARCH_QUERY_TTL = 1000 * 60 * 60 * 24 * 14;
+const QUERY_HALF_LIFE = 1000 * 60 * 60 * 24 * 7;
+const QUERY_INDEX_REFRESH_INTERVAL = 1000 * 60;
+// 查询可能含个人信息，只有被多次、在不同日期搜索过的查询才作为热门查询展示给所有用户
+const MIN_QUERY_COUNT = 3;
+const MIN_QUERY_DAYS = 2;
+const MAX_QUERY_DAYS = 14;
+// 各类型在结果中的最大条数，其余名额留给事件
+const QUERY_QUOTA = 3;
+const TAG_QUOTA = 3;
+
+function normalize(text: string): string {
+  return text.normalize("NFKC").toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+function wordsOf(text: string): string[] {
+  return normalize(text).match(WORD) || [];
+}
+
+/**
+ * 前缀索引：每个词的起始位置都是一个键，输入的最后一个词按前缀匹配，之前的词须是条目中某个词的前缀
+ */
+export class PrefixIndex {
+  private entries: IndexedEntry[] = [];
+  private keys: Array<{ key: string; entry: number }> = [];
+  private sorted = true;
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  add(suggestion: SearchSuggestion, weight: number): void {
+    const words = wordsOf(suggestion.text);
+    if (words.length === 0) return;
+    const entry = this.entries.length;
+    this.entries.push({ suggestion, normalized: normalize(suggestion.text), words, weight });
+    new Set(words).forEach((word) => this.keys.push({ key: word, entry }));
+    this.sorted = false;
+  }
+
+  search(input: string, limit: number): SearchSuggestion[] {
+    const tokens = wordsOf(input);
+    if (tokens.length === 0) return [];
+    if (!this.sorted) {
+      this.keys.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+      this.sorted = true;
+    }
+
+    const last = tokens[tokens.length - 1];
+    const leading = tokens.slice(0, -1);
+    let lo = 0;
+    let hi = this.keys.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (this.keys[mid].key < last) lo = mid + 1;
+      else hi = mid;
+    }
+
+    const candidates = new Set<number>();
+    for (let i = lo; i < this.keys.length && i - lo < MAX_PREFIX_KEYS && this.keys[i].key.startsWith(last); i++) {
+      candidates.add(this.keys[i].entry);
+    }
+
+    const phrase = normalize(input);
+    return Array.from(candidates)
+      .map((index) => this.entries[index])
+      .filter((entry) => leading.every((token) => entry.words.some((word) => word.startsWith(token))))
+      .map((entry) => ({
+        entry,
+        // 整句前缀命中优先，其次按权重，最后偏好更短的文本
+        score: (entry.normalized.startsWith(phrase) ? 10 : 0) + Math.log1p(entry.weight) - entry.normalized.length / 1000,
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ entry }) => entry.suggestion);
+  }
+
+  // 按权重取前 N 条（输入为空时展示热门查询）
+  top(limit: number): SearchSuggestion[] {
+    return [...this.entries]
+      .sort((a, b) => b.weight - a.weight)
+      .slice(0, limit)
+      .map((entry) => entry.suggestion);
+  }
+}
+
+let eventIndex: { index: PrefixIndex; version: number } | null = null;
+let tagIndex: { index: PrefixIndex; signature: string } | null = null;
+let queryIndex: { index: PrefixIndex; builtAt: number } | null = null;
+// 标签的活跃事件数只为实际返回的建议计算，随事件索引一起失效
+const tagEventCounts = new Map<string, number>();
+
+// 标签列表还受失效标签过滤影响，按全部 ID 与名称计算签名
+function signatureOf(tags: Array<{ id: string; label: string }>): string {
+  const hash = createHash("sha1");
+  tags.forEach((tag) => hash.update(`${tag.id}\u0000${tag.label}\u0000`));
+  return hash.digest("hex");
+}
+
+async function getEventIndex(): Promise<PrefixIndex> {
+  const { events, fetchedAt } = await getCachedEvents();
+  if (!eventIndex || eventIndex.version !== fetchedAt) {
+    const index = new PrefixIndex();
+    events.forEach((event) => {
+      const tradable = event.markets.filter((m) => m.active && !m.closed && m.enableOrderBook).length;
+      if (tradable === 0) return;
+      index.add({ type: "event", text: event.title, count: tradable, id: event.id, slug: event.slug }, event.volume);
+    });
+    eventIndex = { index, version: fetchedAt };
+    tagEventCounts.clear();
+    console.log(`🔤 Suggest event index built (${index.size} events)`);
+  }
+  return eventIndex.index;
+}
+
+async function getTagIndex(): Promise<PrefixIndex> {
+  const tags = await filterDeadTags(await getCachedTags());
+  const signature = signatureOf(tags);
+  if (!tagIndex || tagIndex.signature !== signature) {
+    const index = new PrefixIndex();
+    tags.forEach((tag) => index.add({ type: "tag", text: tag.label, count: 0, id: tag.id, slug: tag.slug }, 1));
+    tagIndex = { index, signature };
+    console.log(`🔤 Suggest tag index built (${index.size} tags)`);
+  }
+  return tagIndex.index;
+}
+
+async function getQueryIndex(): Promise<PrefixIndex> {
+  if (!queryIndex || Date.now() - queryIndex.builtAt > QUERY_INDEX_REFRESH_INTERVAL) {
+    const now = Date.now();
+    const records = await getStorage().list<SearchQueryRecord>("search-queries");
+    const index = new PrefixIndex();
+    records
+      .filter(({ value }) => value.count >= MIN_QUERY_COUNT && (value.days?.length ?? 0) >= MIN_QUERY_DAYS)
+      .forEach(({ value }) =>
+        index.add(
+          { type: "query", text: value.query, count: value.count },
+          value.count * Math.pow(0.5, (now - value.lastSeen) / QUERY_HALF_LIFE)
+        )
+      );
+    queryIndex = { index, builtAt: now };
+  }
+  return queryIndex.index;
+}
+
+async function withTagCounts(tags: SearchSuggestion[]): Promise<SearchSuggestion[]> {
+  return Promise.all(
+    tags.map(async (tag) => {
+      const id = tag.id as string;
+      if (!tagEventCounts.has(id)) {
+        const hits = await searchEventsLexical(`"${tag.text.replace(/["“”]/g, "")}"`, { limit: 200 }).catch(() => []);
+        tagEventCounts.set(id, hits.length);
+      }
+      return { ...tag, count: tagEventCounts.get(id) ?? 0 };
+    })
+  );
+}
+
+/**
+ * 补全建议：热门查询 → 标签 → 事件，输入为空时只返回热门查询
+ */
+export async function getSearchSuggestions(input: string, limit: number = 8): Promise<SearchSuggestion[]> {
+  const queries = await getQueryIndex();
+  if (!normalize(input)) return queries.top(limit);
+
+  const [events, tags] = await Promise.all([getEventIndex(), getTagIndex()]);
+  const queryHits = queries.search(input, Math.min(QUERY_QUOTA, limit));
+  const tagHits = await withTagCounts(tags.search(input, Math.min(TAG_QUOTA, limit - queryHits.length)));
+  const seen = new Set([...queryHits, ...tagHits].map((s) => normalize(s.text)));
+  const eventHits = events
+    .search(input, limit)
+    .filter((s) => !seen.has(normalize(s.text)))
+    .slice(0, limit - queryHits.length - tagHits.length);
+  return [...queryHits, ...tagHits, ...eventHits];
+}
+
+/**
+ * 记录有结果的查询，作为热门查询建议（调用方无需等待，失败只打日志）
+ */
+export async function recordSearchQuery(query: string): Promise<void> {
+  const text = query.replace(/\s+/g, " ").trim();
+  const key = normalize(text);
+  if (key.length < 2 || key.length > 100) return;
+  try {
+    const storage = getStorage();
+    const existing = await storage.get<SearchQueryRecord>("search-queries", key);
+    const today = new Date().toISOString().slice(0, 10);
+    const days = Array.from(new Set([...(existing?.value.days || []), today])).slice(-MAX_QUERY_DAYS);
+    await storage.set<SearchQueryRecord>(
+      "search-queries",
+      key,
+      { query: existing?.value.query ?? text, count: (existing?.value.count ?? 0) + 1, lastSeen: Date.now(), days },
+      SEARCH_QUERY_TTL
+    );
+  } catch (error) {
+    console.error("Failed to record search query:", error);
+  }
+}
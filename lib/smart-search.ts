@@ -1,15 +1,17 @@
 /**
  * 智能搜索服务
- * 实现三层搜索策略：AI语义匹配 → 同义词扩展 → 标签映射 → 热门市场兜底
+ * 实现多层搜索策略：AI语义匹配 → 本地 BM25 检索 → 同义词扩展 → 标签映射 → 热门市场兜底
  */
 
-import type { GammaMarket } from "@/types/polymarket";
+import type { PolymarketMarket } from "@/types/polymarket";
 import { searchMarkets, searchMarketsByTag, getPopularMarkets, sortAndFilterMarkets } from "./polymarket";
-import { findKeywordMapping, getSynonymsForQuery, KEYWORD_MAPPINGS } from "./search-config";
+import { findKeywordMapping, getSynonymsForQuery, type KeywordMapping } from "./search-config";
+import { searchMarketsLexical } from "./lexical-search";
+import { getKeywordMappings, recordSearchMiss } from "./keyword-mappings";
 
 export interface SearchResult {
-  markets: GammaMarket[];
-  source: 'ai' | 'synonym' | 'tag' | 'popular';
+  markets: PolymarketMarket[];
+  source: 'ai' | 'lexical' | 'synonym' | 'tag' | 'popular';
   message?: string;  // 用于前端显示提示信息
   suggestedQueries?: string[];  // 推荐的搜索词
 }
@@ -18,7 +20,7 @@ const MIN_AI_RESULTS_THRESHOLD = 5; // AI结果的最小阈值
 
 /**
  * 智能搜索主函数
- * 实现三层降级策略
+ * 实现多层降级策略
  * 
  * @param query 用户查询
  * @param aiResults AI语义匹配的结果
@@ -26,7 +28,7 @@ const MIN_AI_RESULTS_THRESHOLD = 5; // AI结果的最小阈值
  */
 export async function smartSearch(
   query: string,
-  aiResults: GammaMarket[]
+  aiResults: PolymarketMarket[]
 ): Promise<SearchResult> {
   
   // 第一层：如果AI结果足够多，直接返回
@@ -37,9 +39,30 @@ export async function smartSearch(
     };
   }
 
-  // 第二层：同义词扩展搜索
+  // 第二层：本地 BM25 检索（不依赖 Polymarket 搜索接口）
   try {
-    const synonymResults = await searchWithSynonyms(query);
+    const lexicalHits = await searchMarketsLexical(query, { limit: 50 });
+    if (lexicalHits.length > 0) {
+      const combined = mergeAndDeduplicateMarkets([...aiResults, ...lexicalHits.map((hit) => hit.item)]);
+      return {
+        markets: combined,
+        source: 'lexical',
+      };
+    }
+  } catch (error) {
+    console.warn("Lexical search failed:", error);
+  }
+
+  // 以下各层均为降级结果：记录查询供映射挖掘，并使用存储中的实时映射
+  void recordSearchMiss(query, aiResults.length);
+  const mappings: KeywordMapping[] = await getKeywordMappings().catch((error) => {
+    console.warn("Keyword mappings unavailable:", error);
+    return [];
+  });
+
+  // 第三层：同义词扩展搜索
+  try {
+    const synonymResults = await searchWithSynonyms(query, mappings);
     if (synonymResults.length > 0) {
       // 合并AI结果和同义词结果，去重
       const combined = mergeAndDeduplicateMarkets([...aiResults, ...synonymResults]);
@@ -47,16 +70,16 @@ export async function smartSearch(
         markets: combined,
         source: 'synonym',
         message: `未找到与"${query}"完全匹配的市场，以下是相关主题的市场：`,
-        suggestedQueries: getSynonymsForQuery(query),
+        suggestedQueries: getSynonymsForQuery(query, mappings),
       };
     }
   } catch (error) {
     console.warn("Synonym search failed:", error);
   }
 
-  // 第三层：标签映射搜索
+  // 第四层：标签映射搜索
   try {
-    const mapping = findKeywordMapping(query);
+    const mapping = findKeywordMapping(query, mappings);
     if (mapping) {
       const tagResults = await searchMarketsByTag(mapping.tagId, mapping.category);
       if (tagResults.length > 0) {
@@ -74,14 +97,14 @@ export async function smartSearch(
     console.warn("Tag search failed:", error);
   }
 
-  // 第四层：热门市场兜底
+  // 第五层：热门市场兜底
   try {
     const popularMarkets = await getPopularMarkets(20);
     return {
       markets: popularMarkets,
       source: 'popular',
       message: `暂未找到与"${query}"相关的市场，以下是当前最热门的预测市场：`,
-      suggestedQueries: getSuggestedQueries(query),
+      suggestedQueries: getSuggestedQueries(query, mappings),
     };
   } catch (error) {
     console.error("Popular markets fetch failed:", error);
@@ -97,14 +120,14 @@ export async function smartSearch(
 /**
  * 使用同义词进行扩展搜索
  */
-async function searchWithSynonyms(query: string): Promise<GammaMarket[]> {
-  const synonyms = getSynonymsForQuery(query);
+async function searchWithSynonyms(query: string, mappings: KeywordMapping[]): Promise<PolymarketMarket[]> {
+  const synonyms = getSynonymsForQuery(query, mappings);
   if (synonyms.length === 0) {
     return [];
   }
 
   // 对每个同义词进行搜索，合并结果
-  const allResults: GammaMarket[] = [];
+  const allResults: PolymarketMarket[] = [];
   const searchPromises = synonyms.slice(0, 5).map(synonym => 
     searchMarkets(synonym).catch(() => [])
   );
@@ -120,9 +143,9 @@ async function searchWithSynonyms(query: string): Promise<GammaMarket[]> {
 /**
  * 合并并去重市场列表
  */
-function mergeAndDeduplicateMarkets(markets: GammaMarket[]): GammaMarket[] {
+function mergeAndDeduplicateMarkets(markets: PolymarketMarket[]): PolymarketMarket[] {
   const seen = new Set<string>();
-  const unique: GammaMarket[] = [];
+  const unique: PolymarketMarket[] = [];
 
   for (const market of markets) {
     if (!seen.has(market.id)) {
@@ -138,8 +161,8 @@ function mergeAndDeduplicateMarkets(markets: GammaMarket[]): GammaMarket[] {
 /**
  * 获取推荐的搜索词
  */
-function getSuggestedQueries(originalQuery: string): string[] {
-  const mapping = findKeywordMapping(originalQuery);
+function getSuggestedQueries(originalQuery: string, mappings: KeywordMapping[]): string[] {
+  const mapping = findKeywordMapping(originalQuery, mappings);
   if (mapping) {
     return mapping.synonyms.slice(0, 3);
   }
@@ -0,0 +1,201 @@
+/**
+ * Server-Sent Events 工具
+ * 服务端：构建 text/event-stream 响应（带心跳与断开检测）
+ * 客户端 / 上游：解析 SSE 字节流为事件
+ */
+
+export interface SSEEvent {
+  event: string;
+  data: string;
+}
+
+export type SSESend = (event: string, data: unknown) => void;
+
+const encoder = new TextEncoder();
+
+export function encodeSSE(event: string, data: unknown): string {
+  const payload = typeof data === 'string' ? data : JSON.stringify(data);
+  const lines = payload.split('\n').map((line) => `data: ${line}`).join('\n');
+  return `event: ${event}\n${lines}\n\n`;
+}
+
+interface SSEResponseOptions {
+  // 客户端断开时触发 abort（传入 request.signal）
+  signal?: AbortSignal;
+  // 心跳间隔，防止代理 / 浏览器因空闲断开连接
+  heartbeatMs?: number;
+}
+
+/**
+ * 创建 SSE 响应
+ * run 抛出的异常会以 `error` 事件发送给客户端，结束后自动关闭流
+ */
+export function createSSEResponse(
+  run: (send: SSESend, signal: AbortSignal) => Promise<void>,
+  options: SSEResponseOptions = {}
+): Response {
+  const { signal: requestSignal, heartbeatMs = 15000 } = options;
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  requestSignal?.addEventListener('abort', abort);
+
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(streamController) {
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          streamController.enqueue(encoder.encode(chunk));
+        } catch {
+          closed = true;
+        }
+      };
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        requestSignal?.removeEventListener('abort', abort);
+        try {
+          streamController.close();
+        } catch {
+          // 流已被消费端取消
+        }
+      };
+
+      const send: SSESend = (event, data) => write(encodeSSE(event, data));
+      heartbeat = setInterval(() => write(': ping\n\n'), heartbeatMs);
+
+      run(send, controller.signal)
+        .catch((error) => {
+          if (controller.signal.aborted) {
+            console.log('⏹️ SSE client disconnected');
+            return;
+          }
+          console.error('SSE stream error:', error);
+          send('error', { error: error instanceof Error ? error.message : String(error) });
+        })
+        .finally(close);
+    },
+    cancel() {
+      closed = true;
+      clearInterval(heartbeat);
+      controller.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
+
+async function* iterateChunks(
+  source: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array | string>
+): AsyncGenerator<Uint8Array | string> {
+  if (typeof (source as ReadableStream<Uint8Array>).getReader === 'function') {
+    const reader = (source as ReadableStream<Uint8Array>).getReader();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        if (value) yield value;
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  } else {
+    yield* source as AsyncIterable<Uint8Array | string>;
+  }
+}
+
+/**
+ * 解析 SSE 字节流（支持 Web ReadableStream 与 Node IncomingMessage）
+ * 注释行（心跳）会被忽略；无 event 字段时默认为 `message`
+ */
+export async function* parseSSE(
+  source: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array | string>
+): AsyncGenerator<SSEEvent> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event = 'message';
+  let dataLines: string[] = [];
+
+  const dispatch = (): SSEEvent | null => {
+    const result = dataLines.length > 0 ? { event, data: dataLines.join('\n') } : null;
+    event = 'message';
+    dataLines = [];
+    return result;
+  };
+
+  const parseField = (line: string) => {
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+    if (field === 'event') event = value;
+    else if (field === 'data') dataLines.push(value);
+  };
+
+  for await (const chunk of iterateChunks(source)) {
+    buffer += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      if (line === '') {
+        const dispatched = dispatch();
+        if (dispatched) yield dispatched;
+      } else if (!line.startsWith(':')) {
+        parseField(line);
+      }
+    }
+  }
+
+  // 上游未以空行结尾时，处理残留内容
+  if (buffer && !buffer.startsWith(':')) parseField(buffer);
+  const last = dispatch();
+  if (last) yield last;
+}
+
+/**
+ * 客户端：POST JSON 并逐个回调 SSE 事件（data 自动按 JSON 解析）
+ */
+export async function postSSE(
+  url: string,
+  body: unknown,
+  onEvent: (event: string, data: any) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    let message = `Request failed with status ${response.status}`;
+    try {
+      const result = await response.json();
+      if (result?.error) message = result.error;
+    } catch {
+      // 非 JSON 错误体
+    }
+    throw new Error(message);
+  }
+
+  for await (const { event, data } of parseSSE(response.body)) {
+    let parsed: any = data;
+    try {
+      parsed = JSON.parse(data);
+    } catch {
+      // 保留原始字符串
+    }
+    onEvent(event, parsed);
+  }
+}
@@ -0,0 +1,220 @@
+/**
+ * Statistics
+ * 相关性分析用到的统计函数：皮尔逊相关、t 分布 p 值、Fisher z 置信区间（纯函数，无外部依赖）
+ */
+
+export function mean(values: number[]): number {
+  if (values.length === 0) return NaN;
+  return values.reduce((sum, x) => sum + x, 0) / values.length;
+}
+
+/**
+ * 皮尔逊相关系数（两组等长数据）；任一序列方差为 0 或样本少于 2 时返回 null
+ */
+export function pearsonCorrelation(x: number[], y: number[]): number | null {
+  const n = Math.min(x.length, y.length);
+  if (n < 2) return null;
+  const meanX = mean(x.slice(0, n));
+  const meanY = mean(y.slice(0, n));
+
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = x[i] - meanX;
+    const dy = y[i] - meanY;
+    sxy += dx * dy;
+    sxx += dx * dx;
+    syy += dy * dy;
+  }
+  if (sxx === 0 || syy === 0) return null;
+  // 浮点误差可能让结果略超出 [-1, 1]
+  return Math.max(-1, Math.min(1, sxy / Math.sqrt(sxx * syy)));
+}
+
+/**
+ * ln Γ(x)（Lanczos 近似，x > 0）
+ */
+export function logGamma(x: number): number {
+  const coefficients = [
+    76.18009172947146, -86.50532032941677, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5,
+  ];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let series = 1.000000000190015;
+  for (const c of coefficients) series += c / ++y;
+  return -tmp + Math.log((2.5066282746310005 * series) / x);
+}
+
+// 不完全 Beta 函数的连分式展开（Lentz 算法）
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const MAX_ITERATIONS = 200;
+  const EPSILON = 3e-14;
+  const TINY = 1e-300;
+
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < TINY) d = TINY;
+  d = 1 / d;
+  let result = d;
+
+  for (let m = 1; m <= MAX_ITERATIONS; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + aa / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    result *= d * c;
+
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + aa / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    const delta = d * c;
+    result *= delta;
+    if (Math.abs(delta - 1) < EPSILON) break;
+  }
+  return result;
+}
+
+/**
+ * 正则化不完全 Beta 函数 I_x(a, b)
+ */
+export function regularizedIncompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  // 连分式在 x < (a+1)/(a+b+2) 时收敛更快，另一侧用对称关系
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(x, a, b)) / a
+    : 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+/**
+ * Student t 分布双侧 p 值 P(|T| >= |t|)
+ */
+export function studentTTwoSidedPValue(t: number, degreesOfFreedom: number): number {
+  if (!Number.isFinite(t)) return 0;
+  return regularizedIncompleteBeta(degreesOfFreedom / (degreesOfFreedom + t * t), degreesOfFreedom / 2, 0.5);
+}
+
+/**
+ * 相关系数的显著性（H0: ρ = 0，t = r·√((n-2)/(1-r²))）
+ */
+export function correlationPValue(r: number, n: number): number {
+  if (n < 3) return 1;
+  if (Math.abs(r) >= 1) return 0;
+  const t = r * Math.sqrt((n - 2) / (1 - r * r));
+  return studentTTwoSidedPValue(t, n - 2);
+}
+
+/**
+ * 标准正态分布分位数（Acklam 有理逼近，相对误差约 1e-9）
+ */
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+  const a = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.38357751867269e2, -3.066479806614716e1, 2.506628277459239];
+  const b = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1];
+  const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    return -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q) / (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/**
+ * 标准正态分布双侧 p 值 P(|Z| >= |z|)（互补误差函数的 Chebyshev 近似，误差约 1.2e-7）
+ */
+export function normalTwoSidedPValue(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.5 * x);
+  const erfc = t * Math.exp(
+    -x * x - 1.26551223 + t * (1.00002368 + t * (0.37409196 + t * (0.09678418 + t * (-0.18628806 +
+      t * (0.27886807 + t * (-1.13520398 + t * (1.48851587 + t * (-0.82215223 + t * 0.17087277))))))))
+  );
+  return Math.min(1, erfc);
+}
+
+/**
+ * 两个独立样本相关系数之差的检验（Fisher z），返回 z 统计量与双侧 p 值
+ */
+export function compareCorrelations(r1: number, n1: number, r2: number, n2: number): { z: number; pValue: number } {
+  if (n1 <= 3 || n2 <= 3) return { z: 0, pValue: 1 };
+  const clip = (r: number) => Math.max(-0.999999, Math.min(0.999999, r));
+  const z = (Math.atanh(clip(r1)) - Math.atanh(clip(r2))) / Math.sqrt(1 / (n1 - 3) + 1 / (n2 - 3));
+  return { z, pValue: normalTwoSidedPValue(z) };
+}
+
+/**
+ * 相关系数的置信区间（Fisher z 变换，需要 n > 3）
+ */
+export function correlationConfidenceInterval(r: number, n: number, level: number = 0.95): [number, number] {
+  if (n <= 3) return [-1, 1];
+  const clipped = Math.max(-0.999999, Math.min(0.999999, r));
+  const z = Math.atanh(clipped);
+  const margin = normalQuantile(1 - (1 - level) / 2) / Math.sqrt(n - 3);
+  return [Math.tanh(z - margin), Math.tanh(z + margin)];
+}
+
+/**
+ * F 分布右尾概率 P(F >= f)
+ */
+export function fDistributionSurvival(f: number, df1: number, df2: number): number {
+  if (!(f > 0)) return 1;
+  if (!Number.isFinite(f)) return 0;
+  return regularizedIncompleteBeta(df2 / (df2 + df1 * f), df2 / 2, df1 / 2);
+}
+
+/**
+ * 最小二乘回归的残差平方和（正规方程 + 部分主元高斯消元，适用于少量自变量）
+ * rows 为设计矩阵的行（需自行包含常数项），矩阵奇异时返回 null
+ */
+export function leastSquaresResidualSum(rows: number[][], y: number[]): number | null {
+  const k = rows[0]?.length ?? 0;
+  if (k === 0 || rows.length <= k || rows.length !== y.length) return null;
+
+  // 增广矩阵 [XᵀX | Xᵀy]
+  const m = Array.from({ length: k }, () => new Array<number>(k + 1).fill(0));
+  rows.forEach((row, r) => {
+    for (let i = 0; i < k; i++) {
+      for (let j = 0; j < k; j++) m[i][j] += row[i] * row[j];
+      m[i][k] += row[i] * y[r];
+    }
+  });
+
+  for (let col = 0; col < k; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < k; r++) {
+      if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let r = 0; r < k; r++) {
+      if (r === col) continue;
+      const factor = m[r][col] / m[col][col];
+      for (let c = col; c <= k; c++) m[r][c] -= factor * m[col][c];
+    }
+  }
+  const beta = m.map((row, i) => row[k] / row[i]);
+
+  return rows.reduce((sum, row, r) => {
+    const residual = y[r] - row.reduce((acc, x, i) => acc + x * beta[i], 0);
+    return sum + residual * residual;
+  }, 0);
+}
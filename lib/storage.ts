@@ -0,0 +1,516 @@
+/**
+ * Persistent Storage
+ * 缓存（事件、市场、标签、Embedding、失效标签、历史价格）与搜索配置（关键词映射、失败查询、热门查询）的统一持久化层，支持内存、本地文件、Postgres 与 PGlite 后端
+ *
+ * 后端选择（STORAGE_BACKEND 未设置时自动判断）：
+ * - DATABASE_URL      → postgres（Dockerfile.database）
+ * - PGLITE_DATA_DIR   → pglite（Dockerfile.pglite）
+ * - 其它              → file（STORAGE_DIR，默认 data/cache；只读文件系统下退化为内存）
+ */
+
+import fs from "fs/promises";
+import path from "path";
+
+export type StorageBackendName = "memory" | "file" | "postgres" | "pglite";
+
+export type StorageNamespace =
+  | "events"
+  | "markets"
+  | "tags"
+  | "embeddings"
+  | "dead-tags"
+  | "search-config"
+  | "search-misses"
+  | "search-queries"
+  | "price-history";
+
+export interface StoredEntry<T> {
+  key: string;
+  value: T;
+  updatedAt: number;
+  // 过期时间（毫秒时间戳），null 表示永不过期
+  expiresAt: number | null;
+}
+
+export interface StorageBackend {
+  readonly name: StorageBackendName;
+  get<T>(namespace: StorageNamespace, key: string): Promise<StoredEntry<T> | null>;
+  set<T>(namespace: StorageNamespace, key: string, value: T, ttlMs?: number): Promise<void>;
+  delete(namespace: StorageNamespace, key: string): Promise<void>;
+  // 列出命名空间下所有未过期的条目
+  list<T>(namespace: StorageNamespace): Promise<StoredEntry<T>[]>;
+  // 删除所有已过期的条目，返回删除数量
+  purgeExpired(): Promise<number>;
+}
+
+// 写入时顺带清理过期条目的最小间隔
+const PURGE_INTERVAL = 1000 * 60 * 60;
+// 文件后端只读取文件开头来判断是否过期，避免为清理而解析大文件（如向量索引）
+const FILE_HEADER_BYTES = 1024;
+const NAMESPACES: StorageNamespace[] = [
+  "events", "markets", "tags", "embeddings", "dead-tags",
+  "search-config", "search-misses", "search-queries", "price-history",
+];
+
+function isExpired(entry: { expiresAt: number | null }, now: number = Date.now()): boolean {
+  return entry.expiresAt !== null && entry.expiresAt <= now;
+}
+
+// expiresAt 排在 value 之前，文件后端清理时只需读取文件开头
+function createEntry<T>(key: string, value: T, ttlMs?: number): StoredEntry<T> {
+  const now = Date.now();
+  return { key, expiresAt: ttlMs ? now + ttlMs : null, updatedAt: now, value };
+}
+
+/**
+ * 节流的后台清理：距上次清理超过 PURGE_INTERVAL 时触发一次，不阻塞调用方
+ */
+function createPurgeScheduler(label: string, purge: () => Promise<number>): () => void {
+  let lastPurge = Date.now();
+  return () => {
+    if (Date.now() - lastPurge < PURGE_INTERVAL) return;
+    lastPurge = Date.now();
+    purge()
+      .then((removed) => {
+        if (removed > 0) console.log(`🧹 Storage (${label}): purged ${removed} expired entries`);
+      })
+      .catch((error) => console.error(`Storage (${label}) purge failed:`, error));
+  };
+}
+
+// JSON 序列化时保留 Date（如 PolymarketMarket.endDate）
+function serialize(value: unknown): string {
+  return JSON.stringify(value, function (this: any, key: string, val: unknown) {
+    const raw = this[key];
+    return raw instanceof Date ? { $date: raw.toISOString() } : val;
+  });
+}
+
+function deserialize<T>(text: string): T {
+  return JSON.parse(text, (_key, val) =>
+    val && typeof val === "object" && typeof val.$date === "string" && Object.keys(val).length === 1
+      ? new Date(val.$date)
+      : val
+  );
+}
+
+/**
+ * 内存后端：进程重启即丢失，也作为其它后端前面的一级缓存
+ */
+class MemoryStorage implements StorageBackend {
+  readonly name = "memory" as const;
+  private data = new Map<string, Map<string, StoredEntry<unknown>>>();
+  private schedulePurge = createPurgeScheduler(this.name, () => this.purgeExpired());
+
+  private bucket(namespace: StorageNamespace): Map<string, StoredEntry<unknown>> {
+    let bucket = this.data.get(namespace);
+    if (!bucket) {
+      bucket = new Map();
+      this.data.set(namespace, bucket);
+    }
+    return bucket;
+  }
+
+  async get<T>(namespace: StorageNamespace, key: string): Promise<StoredEntry<T> | null> {
+    const entry = this.bucket(namespace).get(key);
+    if (!entry) return null;
+    if (isExpired(entry)) {
+      this.bucket(namespace).delete(key);
+      return null;
+    }
+    return entry as StoredEntry<T>;
+  }
+
+  async set<T>(namespace: StorageNamespace, key: string, value: T, ttlMs?: number): Promise<void> {
+    this.put(namespace, createEntry(key, value, ttlMs));
+    this.schedulePurge();
+  }
+
+  // 原样写入已有条目（保留 updatedAt / expiresAt）
+  put<T>(namespace: StorageNamespace, entry: StoredEntry<T>): void {
+    this.bucket(namespace).set(entry.key, entry);
+  }
+
+  async delete(namespace: StorageNamespace, key: string): Promise<void> {
+    this.bucket(namespace).delete(key);
+  }
+
+  async list<T>(namespace: StorageNamespace): Promise<StoredEntry<T>[]> {
+    const now = Date.now();
+    const bucket = this.bucket(namespace);
+    const entries: StoredEntry<T>[] = [];
+    bucket.forEach((entry, key) => {
+      if (isExpired(entry, now)) bucket.delete(key);
+      else entries.push(entry as StoredEntry<T>);
+    });
+    return entries;
+  }
+
+  async purgeExpired(): Promise<number> {
+    const now = Date.now();
+    let removed = 0;
+    this.data.forEach((bucket) =>
+      bucket.forEach((entry, key) => {
+        if (!isExpired(entry, now)) return;
+        bucket.delete(key);
+        removed++;
+      })
+    );
+    return removed;
+  }
+}
+
+/**
+ * 本地文件后端：每个条目一个 JSON 文件（{dir}/{namespace}/{key}.json），先写临时文件再重命名
+ * 只读文件系统（如 Vercel 的 EROFS）下写入失败时只保留在内存中
+ */
+class FileStorage implements StorageBackend {
+  readonly name = "file" as const;
+  private readOnly = false;
+  private schedulePurge = createPurgeScheduler(this.name, () => this.purgeExpired());
+
+  constructor(private readonly dir: string) {}
+
+  private filePath(namespace: StorageNamespace, key: string): string {
+    return path.join(this.dir, namespace, `${encodeURIComponent(key)}.json`);
+  }
+
+  private async readEntry<T>(file: string): Promise<StoredEntry<T> | null> {
+    try {
+      return deserialize<StoredEntry<T>>(await fs.readFile(file, "utf-8"));
+    } catch (error: any) {
+      if (error.code !== "ENOENT") {
+        console.warn(`⚠️ Storage: failed to read ${file}:`, error.message);
+      }
+      return null;
+    }
+  }
+
+  // 读取条目的过期时间：先从文件开头匹配，旧格式（expiresAt 在 value 之后）退化为完整读取
+  private async readExpiresAt(file: string): Promise<number | null | undefined> {
+    let handle: fs.FileHandle | null = null;
+    try {
+      handle = await fs.open(file, "r");
+      const buffer = Buffer.alloc(FILE_HEADER_BYTES);
+      const { bytesRead } = await handle.read(buffer, 0, FILE_HEADER_BYTES, 0);
+      const match = buffer.toString("utf-8", 0, bytesRead).match(/^\{"key":"(?:[^"\\]|\\.)*","expiresAt":(null|\d+)/);
+      if (match) return match[1] === "null" ? null : Number(match[1]);
+    } catch {
+      return undefined;
+    } finally {
+      await handle?.close();
+    }
+    return (await this.readEntry(file))?.expiresAt;
+  }
+
+  async get<T>(namespace: StorageNamespace, key: string): Promise<StoredEntry<T> | null> {
+    const file = this.filePath(namespace, key);
+    const entry = await this.readEntry<T>(file);
+    if (!entry) return null;
+    if (isExpired(entry)) {
+      if (!this.readOnly) await fs.rm(file, { force: true }).catch(() => undefined);
+      return null;
+    }
+    return entry;
+  }
+
+  async set<T>(namespace: StorageNamespace, key: string, value: T, ttlMs?: number): Promise<void> {
+    if (this.readOnly) return;
+    const file = this.filePath(namespace, key);
+    const tmp = `${file}.${process.pid}.tmp`;
+    try {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(tmp, serialize(createEntry(key, value, ttlMs)), "utf-8");
+      await fs.rename(tmp, file);
+      this.schedulePurge();
+    } catch (error: any) {
+      if (error.code === "EROFS" || error.code === "EACCES") {
+        this.readOnly = true;
+        console.warn(`⚠️ Storage: ${this.dir} is not writable (${error.code}), falling back to in-memory only`);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  async delete(namespace: StorageNamespace, key: string): Promise<void> {
+    if (this.readOnly) return;
+    await fs.rm(this.filePath(namespace, key), { force: true }).catch(() => undefined);
+  }
+
+  async list<T>(namespace: StorageNamespace): Promise<StoredEntry<T>[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(path.join(this.dir, namespace));
+    } catch {
+      return [];
+    }
+    const now = Date.now();
+    const paths = files.filter((file) => file.endsWith(".json")).map((file) => path.join(this.dir, namespace, file));
+    const entries = await Promise.all(paths.map((file) => this.readEntry<T>(file)));
+    const expired = paths.filter((_, i) => entries[i] !== null && isExpired(entries[i]!, now));
+    if (expired.length > 0 && !this.readOnly) {
+      await Promise.all(expired.map((file) => fs.rm(file, { force: true }).catch(() => undefined)));
+    }
+    return entries.filter((entry): entry is StoredEntry<T> => entry !== null && !isExpired(entry, now));
+  }
+
+  async purgeExpired(): Promise<number> {
+    if (this.readOnly) return 0;
+    const now = Date.now();
+    let removed = 0;
+    for (const namespace of NAMESPACES) {
+      const dir = path.join(this.dir, namespace);
+      const files = await fs.readdir(dir).catch(() => [] as string[]);
+      for (const name of files) {
+        const file = path.join(dir, name);
+        // 写入中断遗留的临时文件
+        if (name.endsWith(".tmp")) {
+          const stat = await fs.stat(file).catch(() => null);
+          if (stat && now - stat.mtimeMs > PURGE_INTERVAL) {
+            await fs.rm(file, { force: true }).catch(() => undefined);
+          }
+          continue;
+        }
+        if (!name.endsWith(".json")) continue;
+        const expiresAt = await this.readExpiresAt(file);
+        if (typeof expiresAt === "number" && expiresAt <= now) {
+          await fs.rm(file, { force: true }).catch(() => undefined);
+          removed++;
+        }
+      }
+    }
+    return removed;
+  }
+}
+
+interface SqlClient {
+  query<R = any>(sql: string, params?: unknown[]): Promise<{ rows: R[] }>;
+}
+
+interface SqlRow {
+  key: string;
+  value: string;
+  updated_at: string | number;
+  expires_at: string | number | null;
+}
+
+const CREATE_TABLE_SQL = `
+  CREATE TABLE IF NOT EXISTS cache_entries (
+    namespace TEXT NOT NULL,
+    key TEXT NOT NULL,
+    value TEXT NOT NULL,
+    updated_at BIGINT NOT NULL,
+    expires_at BIGINT,
+    PRIMARY KEY (namespace, key)
+  )
+`;
+
+/**
+ * Postgres / PGlite 共用的 SQL 后端（单表 cache_entries，值为序列化 JSON）
+ */
+class SqlStorage implements StorageBackend {
+  private ready: Promise<void> | null = null;
+  private client: SqlClient | null = null;
+  private readonly schedulePurge: () => void;
+
+  constructor(
+    readonly name: "postgres" | "pglite",
+    private readonly connect: () => Promise<SqlClient>
+  ) {
+    this.schedulePurge = createPurgeScheduler(name, () => this.purgeExpired());
+  }
+
+  private async db(): Promise<SqlClient> {
+    if (!this.ready) {
+      this.ready = (async () => {
+        this.client = await this.connect();
+        await this.client.query(CREATE_TABLE_SQL);
+        console.log(`🗄️  Storage: connected to ${this.name}`);
+      })();
+      // 初始化失败时允许下次重试
+      this.ready.catch(() => {
+        this.ready = null;
+      });
+    }
+    await this.ready;
+    return this.client!;
+  }
+
+  private toEntry<T>(row: SqlRow): StoredEntry<T> {
+    return {
+      key: row.key,
+      value: deserialize<T>(row.value),
+      updatedAt: Number(row.updated_at),
+      expiresAt: row.expires_at === null ? null : Number(row.expires_at),
+    };
+  }
+
+  async get<T>(namespace: StorageNamespace, key: string): Promise<StoredEntry<T> | null> {
+    const db = await this.db();
+    const { rows } = await db.query<SqlRow>(
+      `SELECT key, value, updated_at, expires_at FROM cache_entries
+       WHERE namespace = $1 AND key = $2 AND (expires_at IS NULL OR expires_at > $3)`,
+      [namespace, key, Date.now()]
+    );
+    return rows.length > 0 ? this.toEntry<T>(rows[0]) : null;
+  }
+
+  async set<T>(namespace: StorageNamespace, key: string, value: T, ttlMs?: number): Promise<void> {
+    const db = await this.db();
+    const entry = createEntry(key, value, ttlMs);
+    await db.query(
+      `INSERT INTO cache_entries (namespace, key, value, updated_at, expires_at)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (namespace, key)
+       DO UPDATE SET value = EXCLUDED.value, updated_at = EXCLUDED.updated_at, expires_at = EXCLUDED.expires_at`,
+      [namespace, key, serialize(value), entry.updatedAt, entry.expiresAt]
+    );
+    this.schedulePurge();
+  }
+
+  async delete(namespace: StorageNamespace, key: string): Promise<void> {
+    const db = await this.db();
+    await db.query(`DELETE FROM cache_entries WHERE namespace = $1 AND key = $2`, [namespace, key]);
+  }
+
+  async list<T>(namespace: StorageNamespace): Promise<StoredEntry<T>[]> {
+    const db = await this.db();
+    const { rows } = await db.query<SqlRow>(
+      `SELECT key, value, updated_at, expires_at FROM cache_entries
+       WHERE namespace = $1 AND (expires_at IS NULL OR expires_at > $2)`,
+      [namespace, Date.now()]
+    );
+    return rows.map((row) => this.toEntry<T>(row));
+  }
+
+  async purgeExpired(): Promise<number> {
+    const db = await this.db();
+    const { rows } = await db.query<{ key: string }>(
+      `DELETE FROM cache_entries WHERE expires_at IS NOT NULL AND expires_at <= $1 RETURNING key`,
+      [Date.now()]
+    );
+    return rows.length;
+  }
+}
+
+async function connectPostgres(connectionString: string): Promise<SqlClient> {
+  const { Pool } = await import("pg");
+  return new Pool({ connectionString, max: 5 });
+}
+
+async function connectPGlite(dataDir: string): Promise<SqlClient> {
+  const { PGlite } = await import("@electric-sql/pglite");
+  return PGlite.create(dataDir);
+}
+
+/**
+ * 带进程内一级缓存的存储：读取先查内存，未命中再读后端并回填；写入同时更新两层
+ * 后端读写失败只记录日志，不影响调用方（缓存未命中时会重新拉取数据）
+ */
+class TieredStorage implements StorageBackend {
+  private memory = new MemoryStorage();
+
+  constructor(private readonly backend: StorageBackend) {}
+
+  get name(): StorageBackendName {
+    return this.backend.name;
+  }
+
+  async get<T>(namespace: StorageNamespace, key: string): Promise<StoredEntry<T> | null> {
+    const cached = await this.memory.get<T>(namespace, key);
+    if (cached) return cached;
+    try {
+      const entry = await this.backend.get<T>(namespace, key);
+      if (entry) this.memory.put(namespace, entry);
+      return entry;
+    } catch (error) {
+      console.error(`Storage (${this.backend.name}) read failed for ${namespace}/${key}:`, error);
+      return null;
+    }
+  }
+
+  async set<T>(namespace: StorageNamespace, key: string, value: T, ttlMs?: number): Promise<void> {
+    await this.memory.set(namespace, key, value, ttlMs);
+    try {
+      await this.backend.set(namespace, key, value, ttlMs);
+    } catch (error) {
+      console.error(`Storage (${this.backend.name}) write failed for ${namespace}/${key}:`, error);
+    }
+  }
+
+  async delete(namespace: StorageNamespace, key: string): Promise<void> {
+    await this.memory.delete(namespace, key);
+    try {
+      await this.backend.delete(namespace, key);
+    } catch (error) {
+      console.error(`Storage (${this.backend.name}) delete failed for ${namespace}/${key}:`, error);
+    }
+  }
+
+  async list<T>(namespace: StorageNamespace): Promise<StoredEntry<T>[]> {
+    // 合并内存中的条目：后端不可写（只读文件系统）时写入只存在于内存
+    const merged = new Map<string, StoredEntry<T>>();
+    try {
+      (await this.backend.list<T>(namespace)).forEach((entry) => merged.set(entry.key, entry));
+    } catch (error) {
+      console.error(`Storage (${this.backend.name}) list failed for ${namespace}:`, error);
+    }
+    (await this.memory.list<T>(namespace)).forEach((entry) => merged.set(entry.key, entry));
+    return Array.from(merged.values());
+  }
+
+  async purgeExpired(): Promise<number> {
+    await this.memory.purgeExpired();
+    return this.backend.purgeExpired();
+  }
+}
+
+function resolveBackendName(): StorageBackendName {
+  const configured = process.env.STORAGE_BACKEND?.trim().toLowerCase();
+  if (configured) {
+    if (["memory", "file", "postgres", "pglite"].includes(configured)) {
+      return configured as StorageBackendName;
+    }
+    console.warn(`⚠️ Unknown STORAGE_BACKEND "${configured}", falling back to auto-detection`);
+  }
+  if (process.env.DATABASE_URL) return "postgres";
+  if (process.env.PGLITE_DATA_DIR) return "pglite";
+  return "file";
+}
+
+/**
+ * 按名称创建后端（不带一级缓存）
+ */
+export function createStorageBackend(name: StorageBackendName): StorageBackend {
+  switch (name) {
+    case "memory":
+      return new MemoryStorage();
+    case "file":
+      return new FileStorage(process.env.STORAGE_DIR || path.join(process.cwd(), "data", "cache"));
+    case "postgres": {
+      const url = process.env.DATABASE_URL;
+      if (!url) throw new Error("STORAGE_BACKEND=postgres requires DATABASE_URL");
+      return new SqlStorage("postgres", () => connectPostgres(url));
+    }
+    case "pglite":
+      return new SqlStorage("pglite", () =>
+        connectPGlite(process.env.PGLITE_DATA_DIR || path.join(process.cwd(), "data", "pglite"))
+      );
+  }
+}
+
+let storage: StorageBackend | null = null;
+
+/**
+ * 获取全局存储实例（按环境变量选择后端，首次调用时创建）
+ */
+export function getStorage(): StorageBackend {
+  if (!storage) {
+    const name = resolveBackendName();
+    const backend = createStorageBackend(name);
+    storage = name === "memory" ? backend : new TieredStorage(backend);
+    console.log(`🗄️  Storage backend: ${name}`);
+  }
+  return storage;
+}
@@ -3,7 +3,8 @@
  * 缓存 Polymarket 标签数据，用于标签优先搜索
  */
 
-import fetch from "node-fetch";
+import { getJson } from "@/lib/http-client";
+import { getStorage } from "@/lib/storage";
 
 const GAMMA_API_BASE = "https://gamma-api.polymarket.com";
 
@@ -17,29 +18,19 @@ export interface PolymarketTag {
   requiresTranslation?: boolean;
 }
 
-interface TagCache {
-  tags: PolymarketTag[];
-  lastUpdated: number;
-}
-
 const CACHE_DURATION = 1000 * 60 * 30; // 30分钟缓存
-let cache: TagCache | null = null;
+const CACHE_KEY = "all";
 
 /**
  * 从 API 获取所有标签
  */
 async function fetchAllTags(): Promise<PolymarketTag[]> {
   try {
-    const response = await fetch(`${GAMMA_API_BASE}/tags`, {
-      timeout: 30000,
-    } as any);
-
-    if (!response.ok) {
-      throw new Error(`Tags API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const tags: PolymarketTag[] = Array.isArray(data) ? data : [];
+    const tags = await getJson<PolymarketTag[]>(`${GAMMA_API_BASE}/tags`, {
+      label: "Tags API",
+      timeoutMs: 30000,
+      validate: Array.isArray,
+    });
 
     console.log(`Fetched ${tags.length} tags from Polymarket API`);
     return tags;
@@ -96,12 +87,13 @@ async function saveTagsToFile(tags: PolymarketTag[]): Promise<void> {
  * 如果缓存不存在或已过期，则重新获取
  */
 export async function getCachedTags(): Promise<PolymarketTag[]> {
-  const now = Date.now();
+  const storage = getStorage();
 
   // 如果缓存存在且未过期，直接返回
-  if (cache && now - cache.lastUpdated < CACHE_DURATION) {
-    console.log(`📋 Using cached tags (${cache.tags.length} tags, cached ${Math.round((now - cache.lastUpdated) / 1000)}s ago)`);
-    return cache.tags;
+  const cached = await storage.get<PolymarketTag[]>("tags", CACHE_KEY);
+  if (cached) {
+    console.log(`📋 Using cached tags (${cached.value.length} tags, cached ${Math.round((Date.now() - cached.updatedAt) / 1000)}s ago)`);
+    return cached.value;
   }
 
   // 重新获取数据
@@ -121,10 +113,7 @@ export async function getCachedTags(): Promise<PolymarketTag[]> {
   console.log(`==========================================\n`);
 
   // 更新缓存
-  cache = {
-    tags,
-    lastUpdated: now,
-  };
+  await storage.set("tags", CACHE_KEY, tags, CACHE_DURATION);
 
   console.log(`💾 Cached ${tags.length} tags`);
 
@@ -137,8 +126,8 @@ export async function getCachedTags(): Promise<PolymarketTag[]> {
 /**
  * 清除标签缓存
  */
-export function clearTagCache(): void {
-  cache = null;
+export async function clearTagCache(): Promise<void> {
+  await getStorage().delete("tags", CACHE_KEY);
 }
 
 /**
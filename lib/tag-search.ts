@@ -3,13 +3,13 @@
  * 使用标签系统进行智能搜索：先选标签，再选事件，最后获取价格
  */
 
-import type { GammaEvent, GammaMarket } from "@/types/polymarket";
+import type { PolymarketEvent, PolymarketMarket } from "@/types/polymarket";
 import { getCachedTags, type PolymarketTag } from "./tag-cache";
-import { findRelevantTags, findRelevantEvents } from "./gemini";
+import { findRelevantTags, findRelevantEvents, type AIContext } from "./gemini";
 import { getEventsByTag, sortAndFilterMarkets } from "./polymarket";
 
 export interface TagSearchResult {
-  markets: GammaMarket[];
+  markets: PolymarketMarket[];
   tagsUsed: Array<{ id: string; label: string; slug?: string }>;
   source: 'tag-ai';
 }
@@ -24,10 +24,11 @@ export interface TagSearchResult {
  * 4. 使用Gemini从每个标签的事件中找到最相关的20个
  * 5. 合并所有事件的市场，去重
  * 
+ * @param ctx 请求级 AI 凭据
  * @param userQuery 用户查询
  * @returns TagSearchResult 包含市场和使用的标签信息
  */
-export async function searchByTags(userQuery: string): Promise<TagSearchResult | null> {
+export async function searchByTags(ctx: AIContext, userQuery: string): Promise<TagSearchResult | null> {
   try {
     // Step 1: 获取所有标签
     console.log("Fetching tags for tag-based search...");
@@ -41,6 +42,7 @@ export async function searchByTags(userQuery: string): Promise<TagSearchResult |
     // Step 2: 使用Gemini找到最相关的5个标签
     console.log(`Finding relevant tags from ${allTags.length} total tags...`);
     const relevantTagIndices = await findRelevantTags(
+      ctx,
       userQuery,
       allTags.map(tag => ({ label: tag.label, slug: tag.slug })),
       10 // 最多5个标签
@@ -55,7 +57,7 @@ export async function searchByTags(userQuery: string): Promise<TagSearchResult |
     console.log(`Selected ${selectedTags.length} relevant tags:`, selectedTags.map(t => t.label).join(", "));
 
     // Step 3 & 4: 对每个标签，获取事件并使用Gemini筛选
-    const allSelectedMarkets: GammaMarket[] = [];
+    const allSelectedMarkets: PolymarketMarket[] = [];
     const tagsUsed: Array<{ id: string; label: string; slug?: string }> = [];
 
     for (const tag of selectedTags) {
@@ -75,6 +77,7 @@ export async function searchByTags(userQuery: string): Promise<TagSearchResult |
         // 使用Gemini找到最相关的20个事件
         console.log(`Finding relevant events from ${events.length} events for tag ${tag.label}...`);
         const relevantEventIndices = await findRelevantEvents(
+          ctx,
           userQuery,
           eventTitles,
           20 // 每个标签最多20个事件
@@ -136,9 +139,9 @@ export async function searchByTags(userQuery: string): Promise<TagSearchResult |
 /**
  * 去重市场列表（基于market ID）
  */
-function deduplicateMarkets(markets: GammaMarket[]): GammaMarket[] {
+function deduplicateMarkets(markets: PolymarketMarket[]): PolymarketMarket[] {
   const seen = new Set<string>();
-  const unique: GammaMarket[] = [];
+  const unique: PolymarketMarket[] = [];
 
   for (const market of markets) {
     if (!seen.has(market.id)) {
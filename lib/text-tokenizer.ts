@@ -0,0 +1,71 @@
+/**
+ * Text Tokenizer
+ * 本地检索共用的分词规则：英文按词切分（去停用词 + 简单词形归一），中日韩文本按字 / 双字切分
+ */
+
+// 中日韩字符（假名、CJK 统一表意文字及扩展 A、韩文音节）
+export const CJK_RUN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af]+/g;
+const CJK_CHAR = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af]/;
+const WORD = /[\p{L}\p{N}]+/gu;
+
+// 高频虚词几乎不携带语义，直接丢弃
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "has", "have", "in", "is", "it",
+  "its", "of", "on", "or", "that", "the", "this", "to", "was", "were", "will", "with", "what",
+  "which", "who", "when", "how", "does", "do", "did", "before", "after", "than", "more", "less",
+]);
+
+export interface TextSegment {
+  type: "word" | "cjk";
+  value: string;
+}
+
+export function isStopWord(word: string): boolean {
+  return STOP_WORDS.has(word);
+}
+
+// 简单的复数 / 时态归一，保证 "elections" 与 "election" 命中同一词项
+export function stemWord(word: string): string {
+  if (word.length > 4 && word.endsWith("ies")) return word.slice(0, -3) + "y";
+  if (word.length > 5 && word.endsWith("ing")) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith("ed")) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * 按出现顺序切分为英文词与中日韩连续片段（NFKC 归一化 + 小写）
+ */
+export function splitText(text: string): TextSegment[] {
+  const spaced = text.normalize("NFKC").toLowerCase().replace(CJK_RUN, " $& ");
+  return (spaced.match(WORD) || []).map((value) => ({
+    type: CJK_CHAR.test(value) ? "cjk" : "word",
+    value,
+  }));
+}
+
+/**
+ * 中日韩片段切分为重叠双字（单字片段保留单字）
+ */
+export function cjkBigrams(run: string): string[] {
+  const chars = Array.from(run);
+  if (chars.length === 1) return chars;
+  const bigrams: string[] = [];
+  for (let i = 0; i + 1 < chars.length; i++) bigrams.push(chars[i] + chars[i + 1]);
+  return bigrams;
+}
+
+/**
+ * 检索用词项序列（顺序即位置，用于短语匹配）
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const segment of splitText(text)) {
+    if (segment.type === "cjk") {
+      tokens.push(...cjkBigrams(segment.value));
+    } else if (!isStopWord(segment.value)) {
+      tokens.push(stemWord(segment.value));
+    }
+  }
+  return tokens;
+}
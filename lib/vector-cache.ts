@@ -1,123 +1,89 @@
 /**
  * Vector Cache Service
- * 缓存所有市场的 Embedding，并提供余弦相似度搜索
+ * 维护所有活跃市场的向量索引，并提供带元数据过滤的语义搜索
  */
 
-import type { GammaMarket } from "@/types/polymarket";
+import fs from "fs";
+import path from "path";
+import type { PolymarketMarket } from "@/types/polymarket";
 import { getCachedMarkets } from "./market-cache";
-import { embedText, batchEmbedText } from "./gemini";
+import { embedText, type AIContext } from "./gemini";
+import { syncVectorIndex, type HnswIndex, type VectorFilter } from "./vector-index";
 
-interface VectorCache {
-  marketId: string;
-  title: string;
-  vector: number[];
-}
+const INDEX_NAME = "markets";
+const SYNC_INTERVAL = 1000 * 60 * 60; // 1小时同步一次索引
 
-// 内存中的向量缓存
-let vectorCache: VectorCache[] = [];
-let lastUpdated = 0;
-const CACHE_DURATION = 1000 * 60 * 60; // 1小时向量缓存
+let categoryMap: Map<string, string> | null = null;
 
 /**
- * 计算两个向量的余弦相似度
+ * 事件 ID → 分类（来自 data/categorized-events.json），用于分类过滤
  */
-function cosineSimilarity(vecA: number[], vecB: number[]): number {
-  let dotProduct = 0;
-  let normA = 0;
-  let normB = 0;
-  for (let i = 0; i < vecA.length; i++) {
-    dotProduct += vecA[i] * vecB[i];
-    normA += vecA[i] * vecA[i];
-    normB += vecB[i] * vecB[i];
+export function getEventCategoryMap(): Map<string, string> {
+  if (!categoryMap) {
+    categoryMap = new Map();
+    try {
+      const dataPath = path.join(process.cwd(), "data", "categorized-events.json");
+      if (fs.existsSync(dataPath)) {
+        const events: Array<{ id: string; category?: string }> = JSON.parse(fs.readFileSync(dataPath, "utf-8"));
+        events.forEach((event) => {
+          if (event.category) categoryMap!.set(String(event.id), event.category);
+        });
+      }
+    } catch (error) {
+      console.warn("Failed to load event categories:", error);
+    }
   }
-  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+  return categoryMap;
 }
 
 /**
- * 获取并更新向量缓存
+ * 获取并增量同步市场向量索引（新开市场 upsert，已关闭市场删除）
  */
-export async function getMarketVectorCache(): Promise<VectorCache[]> {
-  const now = Date.now();
-  
-  // 获取最新的市场列表
+export async function getMarketVectorIndex(ctx: AIContext): Promise<HnswIndex> {
   const { markets } = await getCachedMarkets();
-  
-  // 如果缓存存在且市场数量一致，且未过期，直接返回
-  if (vectorCache.length > 0 && vectorCache.length === markets.length && now - lastUpdated < CACHE_DURATION) {
-    return vectorCache;
-  }
-
-  console.log(`🔄 更新向量缓存: 当前市场数量 ${markets.length}`);
-  
-  // 找出需要生成 Embedding 的市场（增量更新）
-  const existingMap = new Map(vectorCache.map(v => [v.marketId, v]));
-  const newVectorCache: VectorCache[] = [];
-  const marketsToEmbed: GammaMarket[] = [];
-
-  markets.forEach(market => {
-    const existing = existingMap.get(market.id);
-    if (existing && existing.title === market.question) {
-      newVectorCache.push(existing);
-    } else {
-      marketsToEmbed.push(market);
-    }
-  });
-
-  if (marketsToEmbed.length > 0) {
-    console.log(`🤖 为 ${marketsToEmbed.length} 个新市场生成 Embedding...`);
-    const titles = marketsToEmbed.map(m => m.question);
-    try {
-      const embeddings = await batchEmbedText(titles);
-      marketsToEmbed.forEach((market, i) => {
-        newVectorCache.push({
-          marketId: market.id,
-          title: market.question,
-          vector: embeddings[i]
-        });
-      });
-    } catch (error) {
-      console.error("❌ 批量生成 Embedding 失败:", error);
-      // 如果失败，至少返回已有的缓存
-      return vectorCache;
-    }
-  }
+  const categories = getEventCategoryMap();
 
-  vectorCache = newVectorCache;
-  lastUpdated = now;
-  console.log(`✅ 向量缓存更新完成，共 ${vectorCache.length} 个市场`);
-  
-  return vectorCache;
+  return syncVectorIndex(
+    INDEX_NAME,
+    ctx,
+    markets.map((market) => ({
+      id: market.id,
+      text: market.question,
+      metadata: {
+        category: market.eventId ? categories.get(market.eventId) : undefined,
+        endDate: market.endDate?.getTime() ?? null,
+        volume: market.volume,
+      },
+    })),
+    { minIntervalMs: SYNC_INTERVAL }
+  );
 }
 
 /**
  * 全局语义搜索
+ * @param ctx 请求级 AI 凭据
  * @param query 用户查询词
  * @param topN 返回结果数量
+ * @param filter 元数据过滤（分类、结束时间、最小交易量）
  */
-export async function searchSimilarMarkets(query: string, topN: number = 50): Promise<GammaMarket[]> {
+export async function searchSimilarMarkets(
+  ctx: AIContext,
+  query: string,
+  topN: number = 50,
+  filter?: VectorFilter
+): Promise<PolymarketMarket[]> {
   try {
-    // 1. 获取查询词的 Embedding
-    const queryVector = await embedText(query);
-    
-    // 2. 获取所有市场的向量缓存
-    const cache = await getMarketVectorCache();
-    const { markets } = await getCachedMarkets();
-    const marketMap = new Map(markets.map(m => [m.id, m]));
-
-    // 3. 计算相似度并排序
-    const results = cache
-      .map(item => ({
-        marketId: item.marketId,
-        similarity: cosineSimilarity(queryVector, item.vector)
-      }))
-      .sort((a, b) => b.similarity - a.similarity)
-      .slice(0, topN);
+    const [queryVector, index, { markets }] = await Promise.all([
+      embedText(ctx, query),
+      getMarketVectorIndex(ctx),
+      getCachedMarkets(),
+    ]);
+    const marketMap = new Map(markets.map((m) => [m.id, m]));
 
-    // 4. 返回对应的 GammaMarket 对象
-    return results
-      .map(r => marketMap.get(r.marketId))
-      .filter((m): m is GammaMarket => !!m);
-      
+    return index
+      .search(queryVector, topN, filter)
+      .map((r) => marketMap.get(r.id))
+      .filter((m): m is PolymarketMarket => !!m);
   } catch (error) {
     console.error("❌ 语义搜索失败:", error);
     return [];
@@ -0,0 +1,622 @@
+/**
+ * Vector Index
+ * 市场 / 事件向量的共享索引：HNSW 近似最近邻检索 + 元数据过滤（分类、结束时间、交易量）
+ * 向量按内容哈希持久化到存储层，重启后只为新增或标题变化的条目生成 Embedding
+ */
+
+import { createHash } from "crypto";
+import { batchEmbedText, type AIContext } from "./gemini";
+import { getEmbeddingProvider } from "./embedding-provider";
+import { getStorage } from "./storage";
+
+export interface VectorMetadata {
+  category?: string;
+  endDate: number | null; // 毫秒时间戳
+  volume: number;
+}
+
+export interface VectorFilter {
+  category?: string | string[];
+  endAfter?: Date | number;
+  endBefore?: Date | number;
+  minVolume?: number;
+}
+
+export interface VectorSearchResult {
+  id: string;
+  similarity: number;
+  metadata: VectorMetadata;
+}
+
+export interface HnswOptions {
+  // 每层最大邻居数（第 0 层为 2M）
+  m?: number;
+  efConstruction?: number;
+  efSearch?: number;
+}
+
+interface HnswNode {
+  id: string;
+  hash: string;
+  vector: number[];
+  level: number;
+  neighbors: string[][];
+  metadata: VectorMetadata;
+}
+
+/**
+ * 持久化快照：向量按内容哈希去重存放，图结构随节点保存，加载时无需重建
+ * 元数据（交易量等几乎每次同步都会变化）单独存放，见 VectorMetadataSnapshot；v1 快照把元数据存在节点中
+ */
+export interface VectorIndexSnapshot {
+  version: 1 | 2;
+  options: Required<HnswOptions>;
+  entryPoint: string | null;
+  vectors: Record<string, number[]>;
+  nodes: Array<{ id: string; hash: string; level: number; neighbors: string[][]; metadata?: VectorMetadata }>;
+}
+
+// 节点 ID → 元数据
+export type VectorMetadataSnapshot = Record<string, VectorMetadata>;
+
+const EMPTY_METADATA: VectorMetadata = { endDate: null, volume: 0 };
+
+const DEFAULT_HNSW_OPTIONS: Required<HnswOptions> = { m: 16, efConstruction: 100, efSearch: 64 };
+
+// 过滤后候选较少时直接精确计算，比在图上扩大搜索范围更快也更准
+const BRUTE_FORCE_LIMIT = 2000;
+
+/**
+ * 文本内容哈希（Embedding 复用的键）
+ */
+export function contentHash(text: string): string {
+  return createHash("sha256").update(text).digest("hex").slice(0, 32);
+}
+
+/**
+ * 计算两个向量的余弦相似度
+ */
+export function cosineSimilarity(vecA: number[], vecB: number[]): number {
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < vecA.length; i++) {
+    dotProduct += vecA[i] * vecB[i];
+    normA += vecA[i] * vecA[i];
+    normB += vecB[i] * vecB[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+  return norm === 0 ? vector.slice() : vector.map((x) => x / norm);
+}
+
+// 向量已归一化，点积即余弦相似度
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+function toTime(value: Date | number): number {
+  return value instanceof Date ? value.getTime() : value;
+}
+
+function matchesFilter(metadata: VectorMetadata, filter?: VectorFilter): boolean {
+  if (!filter) return true;
+  if (filter.category !== undefined) {
+    const categories = Array.isArray(filter.category) ? filter.category : [filter.category];
+    if (!metadata.category || !categories.includes(metadata.category)) return false;
+  }
+  if (filter.endAfter !== undefined && (metadata.endDate === null || metadata.endDate < toTime(filter.endAfter))) return false;
+  if (filter.endBefore !== undefined && (metadata.endDate === null || metadata.endDate > toTime(filter.endBefore))) return false;
+  if (filter.minVolume !== undefined && metadata.volume < filter.minVolume) return false;
+  return true;
+}
+
+interface Candidate {
+  id: string;
+  similarity: number;
+}
+
+/**
+ * 二叉堆（before(a, b) 为 true 表示 a 应位于 b 之上）
+ */
+class Heap<T> {
+  private items: T[] = [];
+
+  constructor(private readonly before: (a: T, b: T) => boolean) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  push(item: T): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.before(items[i], items[parent])) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last !== undefined) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let best = i;
+        if (left < items.length && this.before(items[left], items[best])) best = left;
+        if (right < items.length && this.before(items[right], items[best])) best = right;
+        if (best === i) break;
+        [items[i], items[best]] = [items[best], items[i]];
+        i = best;
+      }
+    }
+    return top;
+  }
+
+  toArray(): T[] {
+    return this.items.slice();
+  }
+}
+
+/**
+ * HNSW（Hierarchical Navigable Small World）索引，相似度为余弦相似度
+ */
+export class HnswIndex {
+  private nodes = new Map<string, HnswNode>();
+  private entryPoint: string | null = null;
+  private readonly options: Required<HnswOptions>;
+  private readonly levelFactor: number;
+
+  constructor(options: HnswOptions = {}) {
+    this.options = { ...DEFAULT_HNSW_OPTIONS, ...options };
+    this.levelFactor = 1 / Math.log(this.options.m);
+  }
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  has(id: string): boolean {
+    return this.nodes.has(id);
+  }
+
+  getHash(id: string): string | undefined {
+    return this.nodes.get(id)?.hash;
+  }
+
+  // 已归一化的向量（点积即余弦相似度）
+  getVector(id: string): number[] | undefined {
+    return this.nodes.get(id)?.vector;
+  }
+
+  ids(): string[] {
+    return Array.from(this.nodes.keys());
+  }
+
+  private maxNeighbors(level: number): number {
+    return level === 0 ? this.options.m * 2 : this.options.m;
+  }
+
+  private randomLevel(): number {
+    return Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * this.levelFactor);
+  }
+
+  /**
+   * 在单层上做 beam search，返回按相似度降序的 ef 个候选
+   */
+  private searchLayer(query: number[], entryIds: string[], ef: number, level: number): Candidate[] {
+    const visited = new Set<string>(entryIds);
+    // candidates：相似度高者优先；results：相似度低者在堆顶，便于淘汰
+    const candidates = new Heap<Candidate>((a, b) => a.similarity > b.similarity);
+    const results = new Heap<Candidate>((a, b) => a.similarity < b.similarity);
+
+    entryIds.forEach((id) => {
+      const node = this.nodes.get(id);
+      if (!node) return;
+      const candidate = { id, similarity: dot(query, node.vector) };
+      candidates.push(candidate);
+      results.push(candidate);
+    });
+
+    while (candidates.size > 0) {
+      const current = candidates.pop()!;
+      const worst = results.peek();
+      if (worst && results.size >= ef && current.similarity < worst.similarity) break;
+
+      const node = this.nodes.get(current.id);
+      const neighbors = node?.neighbors[level] || [];
+      let dangling = false;
+      for (const neighborId of neighbors) {
+        if (visited.has(neighborId)) continue;
+        visited.add(neighborId);
+        const neighbor = this.nodes.get(neighborId);
+        if (!neighbor) {
+          dangling = true;
+          continue;
+        }
+        const similarity = dot(query, neighbor.vector);
+        const lowest = results.peek();
+        if (results.size < ef || (lowest && similarity > lowest.similarity)) {
+          candidates.push({ id: neighborId, similarity });
+          results.push({ id: neighborId, similarity });
+          if (results.size > ef) results.pop();
+        }
+      }
+      // 指向已删除节点的单向链接在访问到时顺带清理
+      if (dangling && node) node.neighbors[level] = neighbors.filter((id) => this.nodes.has(id));
+    }
+
+    return results.toArray().sort((a, b) => b.similarity - a.similarity);
+  }
+
+  // 保留相似度最高的邻居
+  private prune(node: HnswNode, level: number): void {
+    const limit = this.maxNeighbors(level);
+    const neighbors = node.neighbors[level].filter((id) => this.nodes.has(id));
+    node.neighbors[level] = neighbors;
+    if (neighbors.length <= limit) return;
+    node.neighbors[level] = neighbors
+      .map((id) => ({ id, similarity: dot(node.vector, this.nodes.get(id)!.vector) }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit)
+      .map((c) => c.id);
+  }
+
+  private connect(node: HnswNode, candidates: Candidate[], level: number): void {
+    const selected = candidates
+      .filter((c) => c.id !== node.id)
+      .slice(0, this.options.m)
+      .map((c) => c.id);
+    node.neighbors[level] = selected;
+    selected.forEach((neighborId) => {
+      const neighbor = this.nodes.get(neighborId)!;
+      if (!neighbor.neighbors[level].includes(node.id)) {
+        neighbor.neighbors[level].push(node.id);
+        this.prune(neighbor, level);
+      }
+    });
+  }
+
+  /**
+   * 更新元数据，返回是否有变化
+   */
+  updateMetadata(id: string, metadata: VectorMetadata): boolean {
+    const node = this.nodes.get(id);
+    if (!node) return false;
+    const changed =
+      node.metadata.category !== metadata.category ||
+      node.metadata.endDate !== metadata.endDate ||
+      node.metadata.volume !== metadata.volume;
+    node.metadata = metadata;
+    return changed;
+  }
+
+  /**
+   * 插入或更新向量；内容哈希未变时只更新元数据
+   */
+  upsert(id: string, vector: number[], metadata: VectorMetadata, hash: string): void {
+    const existing = this.nodes.get(id);
+    if (existing) {
+      if (existing.hash === hash) {
+        existing.metadata = metadata;
+        return;
+      }
+      this.delete(id);
+    }
+
+    const level = this.randomLevel();
+    const node: HnswNode = {
+      id,
+      hash,
+      vector: normalize(vector),
+      level,
+      neighbors: Array.from({ length: level + 1 }, () => []),
+      metadata,
+    };
+    this.nodes.set(id, node);
+
+    if (this.entryPoint === null) {
+      this.entryPoint = id;
+      return;
+    }
+
+    const entry = this.nodes.get(this.entryPoint)!;
+    let entryIds = [entry.id];
+    // 高层贪心下降
+    for (let l = entry.level; l > level; l--) {
+      entryIds = [this.searchLayer(node.vector, entryIds, 1, l)[0].id];
+    }
+    for (let l = Math.min(level, entry.level); l >= 0; l--) {
+      const candidates = this.searchLayer(node.vector, entryIds, this.options.efConstruction, l);
+      this.connect(node, candidates, l);
+      entryIds = candidates.map((c) => c.id);
+    }
+
+    if (level > entry.level) {
+      this.entryPoint = id;
+    }
+  }
+
+  /**
+   * 删除节点，并用被删节点的邻居修补断开的连接
+   * 其它节点单向指向被删节点的链接不做全量扫描，在检索 / 剪枝访问到时再清理
+   */
+  delete(id: string): boolean {
+    const node = this.nodes.get(id);
+    if (!node) return false;
+    this.nodes.delete(id);
+
+    node.neighbors.forEach((neighborIds, level) => {
+      neighborIds.forEach((neighborId) => {
+        const neighbor = this.nodes.get(neighborId);
+        if (!neighbor || !neighbor.neighbors[level]) return;
+        const remaining = neighbor.neighbors[level].filter((n) => n !== id);
+        neighborIds.forEach((candidateId) => {
+          if (candidateId !== neighborId && this.nodes.has(candidateId) && !remaining.includes(candidateId)) {
+            remaining.push(candidateId);
+          }
+        });
+        neighbor.neighbors[level] = remaining;
+        this.prune(neighbor, level);
+      });
+    });
+
+    if (this.entryPoint === id) {
+      let best: HnswNode | null = null;
+      this.nodes.forEach((candidate) => {
+        if (!best || candidate.level > best.level) best = candidate;
+      });
+      this.entryPoint = best ? (best as HnswNode).id : null;
+    }
+    return true;
+  }
+
+  private exactSearch(query: number[], k: number, filter?: VectorFilter): VectorSearchResult[] {
+    const results: VectorSearchResult[] = [];
+    this.nodes.forEach((node) => {
+      if (!matchesFilter(node.metadata, filter)) return;
+      results.push({ id: node.id, similarity: dot(query, node.vector), metadata: node.metadata });
+    });
+    return results.sort((a, b) => b.similarity - a.similarity).slice(0, k);
+  }
+
+  /**
+   * 近似最近邻检索
+   * 有过滤条件时：匹配节点较少则精确计算，否则在图上逐步扩大 ef 直到凑够 k 个匹配结果
+   */
+  search(queryVector: number[], k: number, filter?: VectorFilter): VectorSearchResult[] {
+    if (this.entryPoint === null || k <= 0) return [];
+    const query = normalize(queryVector);
+
+    if (filter) {
+      let matching = 0;
+      this.nodes.forEach((node) => {
+        if (matchesFilter(node.metadata, filter)) matching++;
+      });
+      if (matching <= BRUTE_FORCE_LIMIT || matching <= this.nodes.size * 0.1) {
+        return this.exactSearch(query, k, filter);
+      }
+    }
+
+    const entry = this.nodes.get(this.entryPoint)!;
+    let entryIds = [entry.id];
+    for (let l = entry.level; l > 0; l--) {
+      entryIds = [this.searchLayer(query, entryIds, 1, l)[0].id];
+    }
+
+    let ef = Math.max(this.options.efSearch, k);
+    for (;;) {
+      const results = this.searchLayer(query, entryIds, ef, 0)
+        .map((c) => ({ ...c, metadata: this.nodes.get(c.id)!.metadata }))
+        .filter((r) => matchesFilter(r.metadata, filter));
+      if (results.length >= k || ef >= this.nodes.size) {
+        return results.slice(0, k);
+      }
+      ef *= 2;
+    }
+  }
+
+  toSnapshot(): VectorIndexSnapshot {
+    const vectors: Record<string, number[]> = {};
+    const nodes: VectorIndexSnapshot["nodes"] = [];
+    this.nodes.forEach((node) => {
+      vectors[node.hash] = node.vector;
+      nodes.push({ id: node.id, hash: node.hash, level: node.level, neighbors: node.neighbors });
+    });
+    return { version: 2, options: this.options, entryPoint: this.entryPoint, vectors, nodes };
+  }
+
+  toMetadataSnapshot(): VectorMetadataSnapshot {
+    const metadata: VectorMetadataSnapshot = {};
+    this.nodes.forEach((node) => (metadata[node.id] = node.metadata));
+    return metadata;
+  }
+
+  static fromSnapshot(snapshot: VectorIndexSnapshot, metadata?: VectorMetadataSnapshot): HnswIndex {
+    const index = new HnswIndex(snapshot.options);
+    snapshot.nodes.forEach((node) => {
+      const vector = snapshot.vectors[node.hash];
+      if (!vector) return;
+      index.nodes.set(node.id, { ...node, vector, metadata: metadata?.[node.id] ?? node.metadata ?? EMPTY_METADATA });
+    });
+    // 快照中缺失向量的节点已被跳过，同时清理指向已删除节点的邻居
+    index.nodes.forEach((node) => {
+      node.neighbors = node.neighbors.map((ids) => ids.filter((id) => index.nodes.has(id)));
+    });
+    index.entryPoint = snapshot.entryPoint && index.nodes.has(snapshot.entryPoint)
+      ? snapshot.entryPoint
+      : index.nodes.keys().next().value ?? null;
+    return index;
+  }
+}
+
+export interface IndexItem {
+  id: string;
+  text: string;
+  metadata: VectorMetadata;
+}
+
+export interface SyncOptions {
+  // 距上次同步不足该时长时直接返回已有索引
+  minIntervalMs?: number;
+}
+
+const indexes = new Map<string, HnswIndex>();
+const lastSynced = new Map<string, number>();
+
+// 向量随 Embedding 模型变化，按索引名 / 向量空间（远程模型或本地向量化器）分别持久化
+function indexKey(name: string, ctx: AIContext): string {
+  return `index:${name}:${getEmbeddingProvider(ctx).id}`;
+}
+
+/**
+ * 加载（内存 → 存储层快照 → 空索引）指定名称的索引
+ */
+export async function loadVectorIndex(name: string, ctx: AIContext): Promise<HnswIndex> {
+  const key = indexKey(name, ctx);
+  let index = indexes.get(key);
+  if (!index) {
+    const storage = getStorage();
+    const [stored, metadata] = await Promise.all([
+      storage.get<VectorIndexSnapshot>("embeddings", key),
+      storage.get<VectorMetadataSnapshot>("embeddings", `${key}:metadata`),
+    ]);
+    index = stored ? HnswIndex.fromSnapshot(stored.value, metadata?.value) : new HnswIndex();
+    if (stored) console.log(`📂 Loaded vector index ${name} (${index.size} vectors)`);
+    indexes.set(key, index);
+  }
+  return index;
+}
+
+/**
+ * 持久化索引：图结构与向量只在节点增删或向量变化时写入，元数据每次写入（体积小）
+ */
+async function saveVectorIndex(name: string, ctx: AIContext, index: HnswIndex, graphChanged: boolean): Promise<void> {
+  const key = indexKey(name, ctx);
+  const storage = getStorage();
+  if (graphChanged) await storage.set("embeddings", key, index.toSnapshot());
+  await storage.set("embeddings", `${key}:metadata`, index.toMetadataSnapshot());
+}
+
+// 为新增或文本变化的条目生成 Embedding 并写入索引（不持久化）
+async function applyUpserts(
+  name: string,
+  ctx: AIContext,
+  index: HnswIndex,
+  items: IndexItem[]
+): Promise<{ added: number; updated: number; metadataChanged: number }> {
+  const hashes = items.map((item) => contentHash(item.text));
+  const toEmbed: number[] = [];
+  let metadataChanged = 0;
+  items.forEach((item, i) => {
+    if (index.getHash(item.id) === hashes[i]) {
+      if (index.updateMetadata(item.id, item.metadata)) metadataChanged++;
+    } else {
+      toEmbed.push(i);
+    }
+  });
+
+  let added = 0;
+  let updated = 0;
+  if (toEmbed.length > 0) {
+    console.log(`🤖 为 ${toEmbed.length} 个条目生成 Embedding (${name})...`);
+    const embeddings = await batchEmbedText(ctx, toEmbed.map((i) => items[i].text));
+    toEmbed.forEach((itemIndex, j) => {
+      const item = items[itemIndex];
+      if (index.has(item.id)) updated++;
+      else added++;
+      index.upsert(item.id, embeddings[j], item.metadata, hashes[itemIndex]);
+    });
+  }
+  return { added, updated, metadataChanged };
+}
+
+/**
+ * 增量写入：新增或文本变化的条目生成 Embedding，其余只更新元数据
+ */
+export async function upsertVectorItems(name: string, ctx: AIContext, items: IndexItem[]): Promise<{ added: number; updated: number }> {
+  const index = await loadVectorIndex(name, ctx);
+  const { added, updated, metadataChanged } = await applyUpserts(name, ctx, index, items);
+  if (added > 0 || updated > 0 || metadataChanged > 0) {
+    await saveVectorIndex(name, ctx, index, added > 0 || updated > 0);
+  }
+  return { added, updated };
+}
+
+/**
+ * 增量删除（如市场关闭），返回实际删除的数量
+ */
+export async function deleteVectorItems(name: string, ctx: AIContext, ids: string[]): Promise<number> {
+  const index = await loadVectorIndex(name, ctx);
+  const removed = ids.filter((id) => index.delete(id)).length;
+  if (removed > 0) {
+    await saveVectorIndex(name, ctx, index, true);
+  }
+  return removed;
+}
+
+/**
+ * 将索引与当前条目列表对齐：不在列表中的删除，其余 upsert
+ * Embedding 失败时保留已有向量，本次只应用删除与元数据更新
+ * 距上次完整同步不足 minIntervalMs 时只增量处理新增 / 消失的条目（如新开或关闭的市场），不刷新元数据
+ */
+export async function syncVectorIndex(
+  name: string,
+  ctx: AIContext,
+  items: IndexItem[],
+  options: SyncOptions = {}
+): Promise<HnswIndex> {
+  const key = indexKey(name, ctx);
+  const index = await loadVectorIndex(name, ctx);
+  const syncedAt = lastSynced.get(key);
+  if (options.minIntervalMs && syncedAt && Date.now() - syncedAt < options.minIntervalMs && index.size > 0) {
+    const wanted = new Set(items.map((item) => item.id));
+    const stale = index.ids().filter((id) => !wanted.has(id));
+    const fresh = items.filter((item) => !index.has(item.id));
+    try {
+      if (stale.length > 0) await deleteVectorItems(name, ctx, stale);
+      if (fresh.length > 0) await upsertVectorItems(name, ctx, fresh);
+    } catch (error) {
+      console.error(`❌ 向量索引增量更新失败 (${name}):`, error);
+    }
+    return index;
+  }
+
+  const wanted = new Set(items.map((item) => item.id));
+  const removed = index.ids().filter((id) => !wanted.has(id) && index.delete(id)).length;
+
+  let result = { added: 0, updated: 0, metadataChanged: 0 };
+  try {
+    result = await applyUpserts(name, ctx, index, items);
+    lastSynced.set(key, Date.now());
+  } catch (error) {
+    console.error(`❌ 批量生成 Embedding 失败 (${name}):`, error);
+  }
+
+  const { added, updated, metadataChanged } = result;
+  if (added > 0 || updated > 0 || removed > 0 || metadataChanged > 0) {
+    await saveVectorIndex(name, ctx, index, added > 0 || updated > 0 || removed > 0);
+  }
+  if (added > 0 || updated > 0 || removed > 0) {
+    console.log(`✅ 向量索引 ${name} 更新完成: +${added} ~${updated} -${removed}，共 ${index.size} 个`);
+  }
+  return index;
+}
@@ -1,6 +1,10 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  experimental: {
+    // 存储后端依赖原生 / WASM 模块，不参与打包
+    serverComponentsExternalPackages: ["pg", "@electric-sql/pglite"],
+  },
 }
 
 module.exports = nextConfig
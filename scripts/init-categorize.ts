@@ -1,8 +1,8 @@
 import fs from 'fs';
 import path from 'path';
 import { GoogleGenerativeAI } from "@google/generative-ai";
-import fetch from "node-fetch";
 import dotenv from "dotenv";
+import { getJson } from "../lib/http-client";
 
 // 加载环境变量
 dotenv.config();
@@ -33,10 +33,10 @@ async function getAllActiveEvents() {
       sort: "volume",
     });
 
-    const response = await fetch(`${GAMMA_API_BASE}/events?${params.toString()}`);
-    if (!response.ok) throw new Error(`Gamma API error: ${response.status}`);
-
-    const data: any = await response.json();
+    const data: any = await getJson(`${GAMMA_API_BASE}/events?${params.toString()}`, {
+      label: "Gamma API",
+      timeoutMs: 30000,
+    });
     const results = Array.isArray(data) ? data : (data.results || []);
 
     if (results.length === 0) break;
@@ -3,52 +3,164 @@
  */
 
 /**
- * Gamma API Event 响应接口（/events 端点）
- * 一个 Event 包含多个 Markets
+ * Gamma API Event 原始响应（/events 端点）
+ * 未经校验，只在 lib/polymarket-schema.ts 中使用；业务代码请使用 PolymarketEvent
  */
 export interface GammaEvent {
   id: string;
   title: string; // 事件标题
   slug: string;
-  volume: number;
-  endDate: string;
+  volume?: number | string;
+  endDate?: string;
   image?: string;
   active: boolean;
   closed: boolean;
-  enableOrderBook: boolean;
-  markets: GammaMarket[]; // 包含的市场数组
+  enableOrderBook?: boolean;
+  markets?: GammaMarket[]; // 包含的市场数组
 }
 
 /**
- * Gamma API Market 响应接口（嵌套在 Event 中）
+ * Gamma API Market 原始响应（嵌套在 Event 中）
+ * clobTokenIds / outcomes 为 JSON 字符串，volume 可能是字符串
  */
 export interface GammaMarket {
   id: string;
   question: string; // 市场问题
-  conditionId: string;
+  conditionId?: string;
+  slug: string;
+  clobTokenIds?: string; // JSON 字符串，格式如 '["id1", "id2"]'
+  volume?: number | string;
+  volumeNum?: number;
+  endDate?: string;
+  image?: string;
+  active: boolean;
+  closed: boolean;
+  enableOrderBook?: boolean;
+  outcomes?: string; // 结果选项，如 '["Yes", "No"]' 或其他自定义选项
+}
+
+/**
+ * CLOB API 价格原始响应
+ * 来自 POST https://clob.polymarket.com/prices，格式 { tokenId: { BUY: "0.48" } }
+ */
+export type ClobPriceResponse = Record<string, { BUY?: string | number; SELL?: string | number }>;
+
+/**
+ * CLOB API 订单簿原始响应
+ * 来自 POST https://clob.polymarket.com/books，price / size 均为字符串
+ */
+export interface ClobOrderBookResponse {
+  market?: string;
+  asset_id?: string;
+  timestamp?: string;
+  bids?: Array<{ price: string; size: string }>;
+  asks?: Array<{ price: string; size: string }>;
+}
+
+/**
+ * 订单簿档位（price 为 0-1，size 为份额）
+ */
+export interface OrderBookLevel {
+  price: number;
+  size: number;
+}
+
+/**
+ * 校验后的订单簿：bids 按价格降序，asks 按价格升序（首档即最优价）
+ */
+export interface OrderBook {
+  tokenId: string;
+  bids: OrderBookLevel[];
+  asks: OrderBookLevel[];
+  timestamp: number | null;
+}
+
+/**
+ * 订单簿摘要，价格单位与 MarketData 一致（百分比 0-100，即美分）
+ */
+export interface OrderBookSummary {
+  tokenId: string;
+  bestBid: number | null;
+  bestAsk: number | null;
+  midpoint: number | null;
+  spread: number | null; // 最优卖价 - 最优买价（美分）
+  bidSize: number; // 最优买价档位份额
+  askSize: number;
+  depthCents: number; // 统计深度的价格范围：中点 ± depthCents
+  bidDepth: number; // 范围内买单名义金额（USD）
+  askDepth: number;
+  liquidity: 'liquid' | 'thin' | 'empty';
+}
+
+/**
+ * 单个 token 的 CLOB 报价（0-1），缺失的一侧为 undefined
+ */
+export interface TokenQuote {
+  bid?: number; // BUY 侧
+  ask?: number; // SELL 侧
+}
+
+/**
+ * 单个 outcome 的报价（百分比 0-100），null 表示该侧无报价
+ */
+export interface OutcomePrice {
+  outcome: string;
+  tokenId: string;
+  bid: number | null;
+  ask: number | null;
+  price: number | null; // bid / ask 中点，只有一侧时取该侧
+}
+
+/**
+ * 校验后的市场领域对象
+ */
+export interface PolymarketMarket {
+  id: string;
+  question: string; // 市场问题
+  conditionId?: string;
   slug: string;
-  clobTokenIds: string; // JSON 字符串，格式如 '["id1", "id2"]'，需要解析
+  tokenIds: string[]; // 与 outcomes 一一对应的 CLOB token
+  outcomes: string[]; // 结果选项，如 ["Yes", "No"]
   volume: number;
-  endDate: string;
-  image: string;
+  endDate: Date | null;
+  image?: string;
   active: boolean;
   closed: boolean;
   enableOrderBook: boolean;
-  // 添加可选的 parent event 信息
+  // 父事件信息
   eventSlug?: string; // 父事件的 slug，用于构建正确的 URL
-  eventId?: string; // 新增：父事件 ID
-  eventTitle?: string; // 新增：父事件标题
-  outcomes?: string; // 结果选项，如 '["Yes", "No"]' 或其他自定义选项
+  eventId?: string;
+  eventTitle?: string;
 }
 
 /**
- * CLOB API 价格响应接口
- * 来自 POST https://clob.polymarket.com/prices
+ * 校验后的事件领域对象
  */
-export interface ClobPrice {
-  token_id: string;
-  price: number;
-  side: string;
+export interface PolymarketEvent {
+  id: string;
+  title: string;
+  slug: string;
+  volume: number;
+  endDate: Date | null;
+  image?: string;
+  active: boolean;
+  closed: boolean;
+  enableOrderBook: boolean;
+  markets: PolymarketMarket[];
+}
+
+/**
+ * 校验问题
+ * error：记录被丢弃；warning：字段无法解析，已置为 null / 0
+ */
+export interface ValidationIssue {
+  source: string; // 如 "gamma:/events"
+  entity: 'event' | 'market' | 'price' | 'book';
+  id?: string;
+  field: string;
+  message: string;
+  severity: 'error' | 'warning';
+  value?: unknown;
 }
 
 /**
@@ -61,6 +173,8 @@ export interface MarketData {
   outcome: string; // 如 "Yes"
   probability: number; // 0-100
   volume: string; // 格式化，如 "$2.4M"
+  volumeUsd?: number; // 原始交易量，用于过滤与排序
+  endDate?: string | null; // ISO 结束时间
   chartData: Array<{ date: string; price: number }>; // Sparkline 数据
   image?: string; // 可选图片
   slug: string; // 用于构建跳转链接（应该是 event slug）
@@ -69,6 +183,45 @@ export interface MarketData {
   eventId?: string; // 新增：所属事件 ID
   eventTitle?: string; // 新增：所属事件标题
   reasoning?: string; // AI 推荐理由
+  outcomePrices?: OutcomePrice[]; // 每个 outcome 的报价，与 outcomes 顺序一致
+  orderBook?: OrderBookSummary; // 首个 outcome 的订单簿摘要
+  priceUnavailable?: boolean; // CLOB 未返回首个 outcome 的价格，probability 不可信
+  relevance?: MarketRelevance; // 混合搜索的融合得分与来源
+  translation?: MarketTranslation; // 查询语言非英文时的译文（可选）
+}
+
+/**
+ * 搜索框自动补全建议
+ * event：活跃事件（count 为可交易市场数）；tag：标签（count 为标题匹配的活跃事件数）；query：近期热门查询（count 为搜索次数）
+ */
+export interface SearchSuggestion {
+  type: 'event' | 'tag' | 'query';
+  text: string;
+  count: number;
+  id?: string;
+  slug?: string;
+}
+
+/**
+ * 查询语言（Polymarket 标题均为英文，其余语言需翻译后检索）
+ */
+export type QueryLanguage = 'en' | 'zh' | 'ja' | 'ko';
+
+/**
+ * 市场标题与推荐理由译成用户查询语言后的版本
+ */
+export interface MarketTranslation {
+  language: QueryLanguage;
+  title: string;
+  reasoning?: string;
+}
+
+/**
+ * 混合搜索融合结果：RRF 得分及命中的来源（search / lexical / tag / vector / semantic）与排名
+ */
+export interface MarketRelevance {
+  score: number;
+  sources: Array<{ source: string; label?: string; rank: number }>;
 }
 
 /**
@@ -79,6 +232,11 @@ export interface SparklineDataPoint {
   price: number;
 }
 
+/**
+ * 历史价格时间窗口（CLOB prices-history 的 interval 参数，1m 为一个月）
+ */
+export type PriceHistoryInterval = '1h' | '6h' | '1d' | '1w' | '1m' | 'max';
+
 /**
  * Polymarket 标签接口
  */
@@ -102,9 +260,37 @@ export interface SearchResponse {
   tagMarketsCache?: Record<string, MarketData[]>; // 标签ID到市场列表的缓存映射
   semanticGroups?: Array<{ dimension: string; markets: MarketData[] }>; // 语义分组结果
    directSearchTags?: Tag[]; // 直接搜索结果关联的标签
+  interpretation?: QueryInterpretation; // 查询解读（可编辑后重新搜索）
+}
+
+/**
+ * 查询解读：从查询语法或自然语言中提取的过滤条件与排序，日期为 ISO 字符串
+ * filters（连同 sort）可原样作为请求体的 filters 回传
+ */
+export interface QueryInterpretation {
+  originalQuery: string;
+  semanticQuery: string; // 去掉约束后交给语义匹配的查询
+  filters: {
+    endAfter?: string;
+    endBefore?: string;
+    minVolume?: number;
+    maxVolume?: number;
+    minProbability?: number;
+    maxProbability?: number;
+    exclusive?: Array<'minVolume' | 'maxVolume' | 'minProbability' | 'maxProbability'>; // 严格比较（> / <）的边界
+    category?: string[];
+    tag?: string[];
+    event?: string;
+    status?: 'active' | 'closed' | 'all';
+  };
+  sort?: { field: 'relevance' | 'volume' | 'endDate' | 'probability'; direction: 'asc' | 'desc' };
+  explanation?: string; // LLM 对约束的说明
+  source: 'syntax' | 'llm'; // llm：约束由 LLM 从自然语言中解析
+  language?: QueryLanguage; // 检测到的查询语言
+  translatedQuery?: string; // 非英文查询实际用于检索的英文查询
 }
 
 /**
  * AI 模型类型
  */
-export type AIModel = 'gemini' | 'claude' | 'chatgpt' | 'mirothinker';
+export type AIModel = 'gemini' | 'claude' | 'chatgpt' | 'local' | 'mirothinker';